@@ -160,7 +160,7 @@ describe("ResponseEncoder", () => {
     it("should encode session as TONL", () => {
       const result = encoder.encodeSession(sampleSession);
 
-      expect(result).toContain("{id, userId, scratchpadLength, todoCount, createdAt, lastModified}");
+      expect(result).toContain("{id, userId, scratchpadLength, todoCount, createdAt, lastModified, expiresAt}");
       expect(result).toContain("id: session-abc");
       expect(result).toContain("userId: user-123");
       expect(result).toContain("scratchpadLength: 18");
@@ -218,6 +218,80 @@ describe("ResponseEncoder", () => {
     });
   });
 
+  describe("Blocked todos", () => {
+    const blockedTodo: Todo = {
+      ...sampleTodo,
+      id: "todo-blocked",
+      status: "blocked",
+      blockedReason: "Needs credentials",
+    };
+
+    it("should include blockedReason in JSON", () => {
+      const encoder = new ResponseEncoder("json");
+      const parsed = JSON.parse(encoder.encodeTodo(blockedTodo));
+
+      expect(parsed.status).toBe("blocked");
+      expect(parsed.blockedReason).toBe("Needs credentials");
+    });
+
+    it("should only add the blockedReason column when needed in TONL", () => {
+      const encoder = new ResponseEncoder("tonl");
+
+      expect(encoder.encodeTodos(sampleTodos)).not.toContain("blockedReason");
+
+      const result = encoder.encodeTodos([...sampleTodos, blockedTodo]);
+      expect(result).toContain(
+        "[3]{id, title, status, tags, createdAt, blockedReason}"
+      );
+      expect(result).toContain("Needs credentials");
+    });
+  });
+
+  describe("Execution log", () => {
+    const finishedTodo: Todo = {
+      ...sampleTodo,
+      id: "todo-finished",
+      status: "done",
+      outcome: "Found 3 sources",
+      completedAt: new Date("2025-01-19T15:30:00Z"),
+    };
+
+    it("should include outcome, error and completedAt in JSON", () => {
+      const encoder = new ResponseEncoder("json");
+      const parsed = JSON.parse(
+        encoder.encodeTodo({ ...finishedTodo, error: "One source was down" })
+      );
+
+      expect(parsed.outcome).toBe("Found 3 sources");
+      expect(parsed.error).toBe("One source was down");
+      expect(parsed.completedAt).toBe("2025-01-19T15:30:00.000Z");
+    });
+
+    it("should include outcome lines in single todo TONL", () => {
+      const encoder = new ResponseEncoder("tonl");
+      const result = encoder.encodeTodo(finishedTodo);
+
+      expect(result).toContain("completedAt: 2025-01-19T15:30:00.000Z");
+      expect(result).toContain("outcome: Found 3 sources");
+      expect(result).not.toContain("error:");
+    });
+
+    it("should only add outcome columns to TONL lists on request", () => {
+      const encoder = new ResponseEncoder("tonl");
+      const todos = [...sampleTodos, finishedTodo];
+
+      expect(encoder.encodeTodos(todos)).not.toContain("outcome");
+
+      const result = encoder.encodeTodos(todos, undefined, {
+        includeOutcome: true,
+      });
+      expect(result).toContain(
+        "[3]{id, title, status, tags, createdAt, completedAt, outcome}"
+      );
+      expect(result).toContain("Found 3 sources");
+    });
+  });
+
   describe("getResponseFormat", () => {
     const originalEnv = process.env.RESPONSE_FORMAT;
 
@@ -0,0 +1,99 @@
+import { vi } from "vitest";
+
+/**
+ * In-memory stand-in for ioredis, shared by the Redis store tests.
+ * Tests can inspect and seed the stored keys through mockData and
+ * mockSortedSets.
+ */
+export const mockData = new Map<string, { value: string; ttl: number }>();
+export const mockSortedSets = new Map<string, Map<string, number>>();
+
+/**
+ * Create the mocked ioredis module, for use in a vi.mock factory
+ */
+export function createRedisMock() {
+  const MockRedis = vi.fn().mockImplementation(() => ({
+    connect: vi.fn().mockResolvedValue(undefined),
+    quit: vi.fn().mockResolvedValue(undefined),
+    setex: vi.fn().mockImplementation((key: string, ttl: number, value: string) => {
+      mockData.set(key, { value, ttl });
+      return Promise.resolve("OK");
+    }),
+    set: vi.fn().mockImplementation((key: string, value: string) => {
+      mockData.set(key, { value, ttl: -1 });
+      return Promise.resolve("OK");
+    }),
+    get: vi.fn().mockImplementation((key: string) => {
+      const data = mockData.get(key);
+      return Promise.resolve(data ? data.value : null);
+    }),
+    del: vi.fn().mockImplementation((...keys: string[]) => {
+      let count = 0;
+      for (const key of keys) {
+        if (mockData.delete(key) || mockSortedSets.delete(key)) count++;
+      }
+      return Promise.resolve(count);
+    }),
+    exists: vi.fn().mockImplementation((key: string) => {
+      return Promise.resolve(mockData.has(key) ? 1 : 0);
+    }),
+    keys: vi.fn().mockImplementation((pattern: string) => {
+      const prefix = pattern.replace("*", "");
+      const matchingKeys = [
+        ...mockData.keys(),
+        ...mockSortedSets.keys(),
+      ].filter((k) => k.startsWith(prefix));
+      return Promise.resolve(matchingKeys);
+    }),
+    zadd: vi.fn().mockImplementation((key: string, score: number, member: string) => {
+      const set = mockSortedSets.get(key) ?? new Map<string, number>();
+      set.set(member, score);
+      mockSortedSets.set(key, set);
+      return Promise.resolve(1);
+    }),
+    zrem: vi.fn().mockImplementation((key: string, member: string) => {
+      return Promise.resolve(mockSortedSets.get(key)?.delete(member) ? 1 : 0);
+    }),
+    zrange: vi.fn().mockImplementation((key: string) => {
+      const set = mockSortedSets.get(key) ?? new Map<string, number>();
+      return Promise.resolve(
+        [...set.entries()].sort((a, b) => a[1] - b[1]).map(([member]) => member)
+      );
+    }),
+    zcard: vi.fn().mockImplementation((key: string) => {
+      return Promise.resolve(mockSortedSets.get(key)?.size ?? 0);
+    }),
+    zremrangebyscore: vi.fn().mockImplementation((key: string, _min: string, max: number) => {
+      const set = mockSortedSets.get(key);
+      let count = 0;
+      for (const [member, score] of set ?? []) {
+        if (score <= max && set!.delete(member)) count++;
+      }
+      return Promise.resolve(count);
+    }),
+    expire: vi.fn().mockResolvedValue(1),
+    persist: vi.fn().mockResolvedValue(1),
+    ttl: vi.fn().mockImplementation((key: string) => {
+      const data = mockData.get(key);
+      return Promise.resolve(data ? data.ttl : -2);
+    }),
+    on: vi.fn().mockImplementation(function (
+      this: { _handlers: Record<string, Function> },
+      event: string,
+      handler: Function
+    ) {
+      this._handlers = this._handlers || {};
+      this._handlers[event] = handler;
+      // Simulate immediate connection
+      if (event === "connect") {
+        setTimeout(() => handler(), 0);
+      }
+      return this;
+    }),
+  }));
+
+  return {
+    Redis: MockRedis,
+    default: MockRedis,
+  };
+}
@@ -1,62 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { RedisSessionStore } from "../storage/RedisSessionStore.js";
-import { UserIdMismatchError, SessionNotFoundError } from "../storage/types.js";
-
-// Mock ioredis
-const mockData = new Map<string, { value: string; ttl: number }>();
-
-vi.mock("ioredis", () => {
-  const MockRedis = vi.fn().mockImplementation(() => ({
-    connect: vi.fn().mockResolvedValue(undefined),
-    quit: vi.fn().mockResolvedValue(undefined),
-    setex: vi.fn().mockImplementation((key: string, ttl: number, value: string) => {
-      mockData.set(key, { value, ttl });
-      return Promise.resolve("OK");
-    }),
-    get: vi.fn().mockImplementation((key: string) => {
-      const data = mockData.get(key);
-      return Promise.resolve(data ? data.value : null);
-    }),
-    del: vi.fn().mockImplementation((...keys: string[]) => {
-      let count = 0;
-      for (const key of keys) {
-        if (mockData.delete(key)) count++;
-      }
-      return Promise.resolve(count);
-    }),
-    exists: vi.fn().mockImplementation((key: string) => {
-      return Promise.resolve(mockData.has(key) ? 1 : 0);
-    }),
-    keys: vi.fn().mockImplementation((pattern: string) => {
-      const prefix = pattern.replace("*", "");
-      const matchingKeys = Array.from(mockData.keys()).filter((k) =>
-        k.startsWith(prefix)
-      );
-      return Promise.resolve(matchingKeys);
-    }),
-    ttl: vi.fn().mockImplementation((key: string) => {
-      const data = mockData.get(key);
-      return Promise.resolve(data ? data.ttl : -2);
-    }),
-    on: vi.fn().mockImplementation(function (
-      this: { _handlers: Record<string, Function> },
-      event: string,
-      handler: Function
-    ) {
-      this._handlers = this._handlers || {};
-      this._handlers[event] = handler;
-      // Simulate immediate connection
-      if (event === "connect") {
-        setTimeout(() => handler(), 0);
-      }
-      return this;
-    }),
-  }));
-
-  return {
-    Redis: MockRedis,
-    default: MockRedis,
-  };
+import {
+  UserIdMismatchError,
+  SessionNotFoundError,
+  QuotaExceededError,
+} from "../storage/types.js";
+import { mockData, mockSortedSets } from "./helpers/redisMock.js";
+
+vi.mock("ioredis", async () => {
+  const { createRedisMock } = await import("./helpers/redisMock.js");
+  return createRedisMock();
 });
 
 describe("RedisSessionStore", () => {
@@ -65,6 +18,7 @@ describe("RedisSessionStore", () => {
   beforeEach(async () => {
     // Clear mock data before each test
     mockData.clear();
+    mockSortedSets.clear();
 
     store = new RedisSessionStore({
       host: "localhost",
@@ -255,6 +209,162 @@ describe("RedisSessionStore", () => {
     });
   });
 
+  describe("usage and quotas", () => {
+    it("should index sessions per user and report usage", async () => {
+      await store.create();
+      await store.create("user-1");
+      const second = await store.create("user-1");
+      await store.create("user-2");
+
+      expect(mockSortedSets.get("mcp:user-sessions:user-1")?.size).toBe(2);
+      expect(await store.usage()).toEqual({
+        sessions: 4,
+        users: 2,
+        busiestUserSessions: 2,
+      });
+
+      await store.delete(second.id, "user-1");
+      expect(mockSortedSets.get("mcp:user-sessions:user-1")?.size).toBe(1);
+    });
+
+    it("should list a user's sessions, dropping missing ones from the index", async () => {
+      const first = await store.create("user-1", { title: "First" });
+      const second = await store.create("user-1");
+      await store.create("user-2");
+      await store.update(first.id, { scratchpad: "touched" }, "user-1");
+
+      const sessions = await store.listByUser("user-1");
+      expect(sessions.map((s) => s.id)).toEqual([first.id, second.id]);
+      expect(sessions[0].title).toBe("First");
+
+      // Simulate the session key expiring in Redis
+      mockData.delete(`test:session:${second.id}`);
+      expect((await store.listByUser("user-1")).map((s) => s.id)).toEqual([
+        first.id,
+      ]);
+      expect(mockSortedSets.get("mcp:user-sessions:user-1")?.has(second.id)).toBe(
+        false
+      );
+    });
+
+    it("should index and list child sessions", async () => {
+      const parent = await store.create("user-1");
+      const child = await store.create("user-1", {
+        parentSessionId: parent.id,
+        parentTodoId: "t1",
+      });
+
+      expect(mockSortedSets.get(`mcp:session-children:${parent.id}`)?.size).toBe(1);
+      const children = await store.listChildren(parent.id);
+      expect(children.map((s) => s.id)).toEqual([child.id]);
+      expect(children[0].parentTodoId).toBe("t1");
+
+      await store.delete(child.id, "user-1");
+      expect(
+        mockSortedSets.get(`mcp:session-children:${parent.id}`)?.size ?? 0
+      ).toBe(0);
+      expect(await store.listChildren(parent.id)).toEqual([]);
+    });
+
+    it("should limit live sessions per user, ignoring expired ones", async () => {
+      const limitedStore = new RedisSessionStore({
+        keyPrefix: "test:session:",
+        maxSessionsPerUser: 1,
+      });
+
+      await limitedStore.create("user-1");
+      await expect(limitedStore.create("user-1")).rejects.toThrow(
+        QuotaExceededError
+      );
+
+      // Simulate the indexed session expiring
+      const index = mockSortedSets.get("mcp:user-sessions:user-1")!;
+      for (const member of index.keys()) {
+        index.set(member, Date.now() - 1000);
+      }
+      await expect(limitedStore.create("user-1")).resolves.toBeDefined();
+    });
+  });
+
+  describe("TTL overrides and pinning", () => {
+    it("should set the key TTL from the session's TTL", async () => {
+      const session = await store.create("user-1", { ttlHours: 2 });
+
+      expect(mockData.get(`test:session:${session.id}`)?.ttl).toBe(7200);
+      expect(
+        mockSortedSets.get("mcp:user-sessions:user-1")?.get(session.id)
+      ).toBe(session.expiresAt!.getTime());
+
+      // Updates keep the session's TTL
+      await store.update(session.id, { scratchpad: "x" }, "user-1");
+      expect(mockData.get(`test:session:${session.id}`)?.ttl).toBe(7200);
+      expect((await store.get(session.id, "user-1"))?.ttlHours).toBe(2);
+    });
+
+    it("should move the key TTL and index score with a sliding expiry", async () => {
+      const session = await store.create("user-1");
+      const key = `test:session:${session.id}`;
+      mockData.set(key, { ...mockData.get(key)!, ttl: 60 });
+
+      await store.update(session.id, { scratchpad: "x" }, "user-1");
+
+      const updated = await store.get(session.id, "user-1");
+      expect(mockData.get(key)?.ttl).toBe(3600);
+      expect(
+        mockSortedSets.get("mcp:user-sessions:user-1")?.get(session.id)
+      ).toBe(updated!.expiresAt!.getTime());
+    });
+
+    it("should store pinned sessions without expiry", async () => {
+      const session = await store.create("user-1", { pinned: true });
+
+      expect(mockData.get(`test:session:${session.id}`)?.ttl).toBe(-1);
+      expect(
+        mockSortedSets.get("mcp:user-sessions:user-1")?.get(session.id)
+      ).toBe("+inf");
+      expect((await store.get(session.id, "user-1"))?.expiresAt).toBeUndefined();
+    });
+
+    it("should extend and unpin sessions", async () => {
+      const session = await store.create("user-1", { pinned: true });
+
+      const extended = await store.extend(
+        session.id,
+        { ttlHours: 3, pinned: false },
+        "user-1"
+      );
+
+      expect(extended.pinned).toBe(false);
+      expect(mockData.get(`test:session:${session.id}`)?.ttl).toBe(10800);
+      expect(
+        mockSortedSets.get("mcp:user-sessions:user-1")?.get(session.id)
+      ).toBe(extended.expiresAt!.getTime());
+      await expect(store.extend("non-existent", {})).rejects.toThrow(
+        SessionNotFoundError
+      );
+    });
+
+    it("should derive the expiry of sessions stored before TTL overrides", async () => {
+      const createdAt = new Date(Date.now() - 30 * 60 * 1000);
+      mockData.set("test:session:old", {
+        value: JSON.stringify({
+          id: "old",
+          scratchpad: "",
+          todos: [],
+          createdAt: createdAt.toISOString(),
+          lastModified: createdAt.toISOString(),
+        }),
+        ttl: 1800,
+      });
+
+      const session = await store.get("old");
+
+      expect(session?.expiresAt?.getTime()).toBe(
+        createdAt.getTime() + 60 * 60 * 1000
+      );
+    });
+  });
+
   describe("key prefix", () => {
     it("should use configured key prefix", async () => {
       const customStore = new RedisSessionStore({
@@ -317,6 +427,9 @@ describe("RedisSessionStore", () => {
             description: "Description",
             tags: ["tag1", "tag2"],
             status: "pending",
+            priority: "p1",
+            dueAt: new Date("2025-01-25T00:00:00Z"),
+            position: 1,
             createdAt: new Date("2025-01-18T10:00:00Z"),
           },
           {
@@ -325,6 +438,17 @@ describe("RedisSessionStore", () => {
             description: "",
             tags: [],
             status: "done",
+            parentId: "todo-1",
+            position: 0,
+            outcome: "Done early",
+            notes: [
+              {
+                author: "user-1",
+                text: "Looks good",
+                createdAt: new Date("2025-01-18T12:00:00Z"),
+              },
+            ],
+            completedAt: new Date("2025-01-19T09:00:00Z"),
             createdAt: new Date("2025-01-18T11:00:00Z"),
           },
         ],
@@ -338,8 +462,154 @@ describe("RedisSessionStore", () => {
       expect(retrieved?.todos[0].tags).toEqual(["tag1", "tag2"]);
       expect(retrieved?.todos[0].status).toBe("pending");
       expect(retrieved?.todos[0].createdAt).toBeInstanceOf(Date);
+      expect(retrieved?.todos[0].priority).toBe("p1");
+      expect(retrieved?.todos[0].dueAt).toEqual(
+        new Date("2025-01-25T00:00:00Z")
+      );
       expect(retrieved?.todos[1].title).toBe("Task 2");
       expect(retrieved?.todos[1].status).toBe("done");
+      expect(retrieved?.todos[1].parentId).toBe("todo-1");
+      expect(retrieved?.todos[1].outcome).toBe("Done early");
+      expect(retrieved?.todos[1].notes).toEqual([
+        {
+          author: "user-1",
+          text: "Looks good",
+          createdAt: new Date("2025-01-18T12:00:00Z"),
+        },
+      ]);
+      expect(retrieved?.todos[1].completedAt).toEqual(
+        new Date("2025-01-19T09:00:00Z")
+      );
+      expect(retrieved?.todos.map((t) => t.position)).toEqual([1, 0]);
+    });
+
+    it("should round-trip extended statuses and fall back for unknown ones", async () => {
+      const session = await store.create();
+
+      await store.update(session.id, {
+        todos: [
+          {
+            id: "todo-1",
+            title: "Blocked",
+            description: "",
+            tags: [],
+            status: "blocked",
+            blockedReason: "Waiting on review",
+            position: 0,
+            createdAt: new Date("2025-01-18T10:00:00Z"),
+          },
+        ],
+      });
+
+      const retrieved = await store.get(session.id);
+      expect(retrieved?.todos[0].status).toBe("blocked");
+      expect(retrieved?.todos[0].blockedReason).toBe("Waiting on review");
+
+      // Simulate a session written with a status this version doesn't know
+      const key = `test:session:${session.id}`;
+      const stored = JSON.parse(mockData.get(key)!.value);
+      stored.todos[0].status = "archived";
+      mockData.set(key, { value: JSON.stringify(stored), ttl: 3600 });
+
+      const legacy = await store.get(session.id);
+      expect(legacy?.todos[0].status).toBe("pending");
+    });
+
+    it("should assign positions by list order for todos stored without one", async () => {
+      const session = await store.create();
+      const key = `test:session:${session.id}`;
+      const stored = JSON.parse(mockData.get(key)!.value);
+      stored.todos = ["First", "Second"].map((title, i) => ({
+        id: `todo-${i}`,
+        title,
+        description: "",
+        tags: [],
+        status: "pending",
+        createdAt: "2025-01-18T10:00:00Z",
+      }));
+      mockData.set(key, { value: JSON.stringify(stored), ttl: 3600 });
+
+      const legacy = await store.get(session.id);
+      expect(legacy?.todos.map((t) => t.position)).toEqual([0, 1]);
+    });
+
+    it("should write initial content together with the session", async () => {
+      const session = await store.create("user-1", {
+        content: { scratchpad: "Plan", scratchpads: { notes: "Notes" } },
+      });
+
+      const retrieved = await store.get(session.id, "user-1");
+      expect(retrieved?.scratchpad).toBe("Plan");
+      expect(retrieved?.scratchpads).toEqual({ notes: "Notes" });
+      expect(retrieved?.todos).toEqual([]);
+      expect(retrieved?.facts).toEqual({});
+    });
+
+    it("should round-trip named scratchpads and history, defaulting them for old sessions", async () => {
+      const session = await store.create();
+      await store.update(session.id, {
+        scratchpad: "Main",
+        scratchpads: { findings: "Found" },
+        scratchpadHistory: [
+          {
+            name: "findings",
+            revision: 1,
+            content: "Found",
+            author: "user-1",
+            createdAt: new Date("2025-01-18T10:00:00Z"),
+          },
+        ],
+      });
+
+      const retrieved = await store.get(session.id);
+      expect(retrieved?.scratchpads).toEqual({ findings: "Found" });
+      expect(retrieved?.scratchpadHistory[0].createdAt).toEqual(
+        new Date("2025-01-18T10:00:00Z")
+      );
+
+      const key = `test:session:${session.id}`;
+      const stored = JSON.parse(mockData.get(key)!.value);
+      delete stored.scratchpads;
+      delete stored.scratchpadHistory;
+      mockData.set(key, { value: JSON.stringify(stored), ttl: 3600 });
+
+      const legacy = await store.get(session.id);
+      expect(legacy?.scratchpad).toBe("Main");
+      expect(legacy?.scratchpads).toEqual({});
+      expect(legacy?.scratchpadHistory).toEqual([]);
+    });
+
+    it("should round-trip facts, defaulting them for old sessions", async () => {
+      const session = await store.create();
+      const fact = {
+        value: { path: "/src", depth: 2, tags: ["a"], draft: null },
+        schema: { type: "object" },
+        author: "user-1",
+        createdAt: new Date("2025-01-18T10:00:00Z"),
+        updatedAt: new Date("2025-01-18T11:00:00Z"),
+      };
+      await store.update(session.id, { facts: { "repo.layout": fact } });
+
+      const retrieved = await store.get(session.id);
+      expect(retrieved?.facts).toEqual({ "repo.layout": fact });
+
+      const key = `test:session:${session.id}`;
+      const stored = JSON.parse(mockData.get(key)!.value);
+      delete stored.facts;
+      mockData.set(key, { value: JSON.stringify(stored), ttl: 3600 });
+
+      const legacy = await store.get(session.id);
+      expect(legacy?.facts).toEqual({});
+    });
+
+    it("should round-trip the parent session and closing time", async () => {
+      const session = await store.create();
+      const closedAt = new Date("2025-01-18T12:00:00Z");
+      await store.update(session.id, { parentSessionId: "parent-1", closedAt });
+
+      const retrieved = await store.get(session.id);
+      expect(retrieved?.parentSessionId).toBe("parent-1");
+      expect(retrieved?.closedAt).toEqual(closedAt);
     });
   });
 });
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { InMemorySessionStore } from "../storage/InMemorySessionStore.js";
+import { RedisSessionStore } from "../storage/RedisSessionStore.js";
+import { SessionStore } from "../storage/types.js";
+import { ExpiryPolicy } from "../storage/expiry.js";
+import { mockData, mockSortedSets } from "./helpers/redisMock.js";
+
+vi.mock("ioredis", async () => {
+  const { createRedisMock } = await import("./helpers/redisMock.js");
+  return createRedisMock();
+});
+
+interface ExpiryConfig {
+  ttlHours: number;
+  expiryPolicy: ExpiryPolicy;
+  maxLifetimeHours?: number;
+}
+
+// The same expectations run against every store
+const stores: Array<[string, (config: ExpiryConfig) => SessionStore]> = [
+  ["InMemorySessionStore", (config) => new InMemorySessionStore(config)],
+  [
+    "RedisSessionStore",
+    (config) => new RedisSessionStore({ ...config, keyPrefix: "test:session:" }),
+  ],
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe.each(stores)("%s expiry policies", (_name, createStore) => {
+  beforeEach(() => {
+    mockData.clear();
+    mockSortedSets.clear();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function advanceHours(hours: number): void {
+    vi.setSystemTime(Date.now() + hours * HOUR_MS);
+  }
+
+  describe("sliding", () => {
+    it("should restart the TTL on every update", async () => {
+      const store = createStore({ ttlHours: 2, expiryPolicy: "sliding" });
+      const session = await store.create();
+      expect(session.expiresAt?.getTime()).toBe(Date.now() + 2 * HOUR_MS);
+
+      advanceHours(1.5);
+      await store.update(session.id, { scratchpad: "x" });
+      advanceHours(1.5);
+      expect(await store.get(session.id)).not.toBeNull();
+
+      advanceHours(0.5);
+      expect(await store.get(session.id)).toBeNull();
+    });
+
+    it("should not restart the TTL on reads", async () => {
+      const store = createStore({ ttlHours: 2, expiryPolicy: "sliding" });
+      const session = await store.create();
+
+      advanceHours(1.5);
+      expect(await store.get(session.id)).not.toBeNull();
+      advanceHours(0.5);
+      expect(await store.get(session.id)).toBeNull();
+    });
+  });
+
+  describe("absolute", () => {
+    it("should expire one TTL after creation despite updates", async () => {
+      const store = createStore({ ttlHours: 2, expiryPolicy: "absolute" });
+      const session = await store.create();
+
+      advanceHours(1.5);
+      await store.update(session.id, { scratchpad: "x" });
+      expect((await store.get(session.id))?.expiresAt).toEqual(
+        session.expiresAt
+      );
+
+      advanceHours(0.5);
+      expect(await store.get(session.id)).toBeNull();
+    });
+
+    it("should restart the TTL on extend", async () => {
+      const store = createStore({ ttlHours: 2, expiryPolicy: "absolute" });
+      const session = await store.create();
+
+      advanceHours(1.5);
+      const extended = await store.extend(session.id, {});
+      expect(extended.expiresAt?.getTime()).toBe(Date.now() + 2 * HOUR_MS);
+
+      advanceHours(1.5);
+      expect(await store.get(session.id)).not.toBeNull();
+    });
+  });
+
+  describe("capped", () => {
+    it("should slide until the maximum lifetime", async () => {
+      const store = createStore({
+        ttlHours: 2,
+        expiryPolicy: "capped",
+        maxLifetimeHours: 3,
+      });
+      const session = await store.create();
+
+      advanceHours(1.5);
+      await store.update(session.id, { scratchpad: "x" });
+      const updated = await store.get(session.id);
+      expect(updated?.expiresAt?.getTime()).toBe(
+        session.createdAt.getTime() + 3 * HOUR_MS
+      );
+
+      // Neither updates nor extending pass the cap
+      advanceHours(1);
+      await store.update(session.id, { scratchpad: "y" });
+      await store.extend(session.id, { ttlHours: 10 });
+      advanceHours(0.4);
+      expect(await store.get(session.id)).not.toBeNull();
+
+      advanceHours(0.1);
+      expect(await store.get(session.id)).toBeNull();
+    });
+
+    it("should cap the expiry set by extend", async () => {
+      const store = createStore({
+        ttlHours: 2,
+        expiryPolicy: "capped",
+        maxLifetimeHours: 3,
+      });
+      const session = await store.create();
+      const cap = session.createdAt.getTime() + 3 * HOUR_MS;
+
+      advanceHours(0.5);
+      const extended = await store.extend(session.id, { ttlHours: 10 });
+      expect(extended.expiresAt?.getTime()).toBe(cap);
+
+      // Only pinning lifts the cap
+      const pinned = await store.extend(session.id, { pinned: true });
+      expect(pinned.expiresAt).toBeUndefined();
+    });
+
+    it("should behave like sliding without a cap", async () => {
+      const store = createStore({ ttlHours: 2, expiryPolicy: "capped" });
+      const session = await store.create();
+
+      for (let i = 0; i < 3; i++) {
+        advanceHours(1.5);
+        await store.update(session.id, { scratchpad: `${i}` });
+      }
+
+      expect(await store.get(session.id)).not.toBeNull();
+    });
+  });
+
+  describe("per-session TTL and pinning", () => {
+    it.each(["sliding", "absolute", "capped"] as const)(
+      "should apply them under the %s policy",
+      async (expiryPolicy) => {
+        const store = createStore({
+          ttlHours: 2,
+          expiryPolicy,
+          maxLifetimeHours: 100,
+        });
+        const longLived = await store.create(undefined, { ttlHours: 10 });
+        const pinned = await store.create(undefined, { pinned: true });
+        const regular = await store.create();
+
+        advanceHours(5);
+        expect(await store.get(regular.id)).toBeNull();
+        expect(await store.get(longLived.id)).not.toBeNull();
+
+        await store.update(pinned.id, { scratchpad: "x" });
+        advanceHours(1000);
+        expect((await store.get(pinned.id))?.expiresAt).toBeUndefined();
+      }
+    );
+
+    it("should list only live sessions of a user", async () => {
+      const store = createStore({ ttlHours: 2, expiryPolicy: "sliding" });
+      const active = await store.create("user-1");
+      await store.create("user-1");
+
+      advanceHours(1.5);
+      await store.update(active.id, { scratchpad: "x" }, "user-1");
+      advanceHours(1);
+
+      const sessions = await store.listByUser("user-1");
+      expect(sessions.map((s) => s.id)).toEqual([active.id]);
+    });
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { InMemorySessionStore } from "../storage/InMemorySessionStore.js";
-import { UserIdMismatchError, SessionNotFoundError } from "../storage/types.js";
+import {
+  UserIdMismatchError,
+  SessionNotFoundError,
+  QuotaExceededError,
+} from "../storage/types.js";
 
 describe("InMemorySessionStore", () => {
   let store: InMemorySessionStore;
@@ -202,6 +206,65 @@ describe("InMemorySessionStore", () => {
     });
   });
 
+  describe("usage and quotas", () => {
+    it("should report sessions, users and the busiest user", async () => {
+      await store.create();
+      await store.create("user-1");
+      await store.create("user-1");
+      await store.create("user-2");
+
+      expect(await store.usage()).toEqual({
+        sessions: 4,
+        users: 2,
+        busiestUserSessions: 2,
+      });
+    });
+
+    it("should limit live sessions per user", async () => {
+      const limitedStore = new InMemorySessionStore({
+        ttlHours: 1,
+        maxSessionsPerUser: 2,
+      });
+
+      const first = await limitedStore.create("user-1");
+      await limitedStore.create("user-1");
+      await expect(limitedStore.create("user-1")).rejects.toThrow(
+        QuotaExceededError
+      );
+
+      // Other users and anonymous sessions are not affected
+      await expect(limitedStore.create("user-2")).resolves.toBeDefined();
+      await expect(limitedStore.create()).resolves.toBeDefined();
+
+      // Deleting a session frees a slot
+      await limitedStore.delete(first.id, "user-1");
+      await expect(limitedStore.create("user-1")).resolves.toBeDefined();
+
+      limitedStore.stopCleanup();
+    });
+  });
+
+  describe("listChildren", () => {
+    it("should list child sessions oldest first, dropping deleted ones", async () => {
+      const parent = await store.create();
+      const first = await store.create(undefined, { parentSessionId: parent.id });
+      const second = await store.create(undefined, {
+        parentSessionId: parent.id,
+        parentTodoId: "t1",
+      });
+      await store.create();
+
+      const children = await store.listChildren(parent.id);
+      expect(children.map((s) => s.id)).toEqual([first.id, second.id]);
+      expect(children[1].parentTodoId).toBe("t1");
+
+      await store.delete(first.id);
+      expect((await store.listChildren(parent.id)).map((s) => s.id)).toEqual([
+        second.id,
+      ]);
+    });
+  });
+
   describe("TTL expiration", () => {
     it("should return null for expired session", async () => {
       // Create store with very short TTL
@@ -241,6 +304,54 @@ describe("InMemorySessionStore", () => {
 
       shortTtlStore.stopCleanup();
     });
+
+    it("should apply per-session TTLs and never expire pinned sessions", async () => {
+      const shortTtlStore = new InMemorySessionStore({ ttlHours: 0.0001 });
+
+      const longLived = await shortTtlStore.create(undefined, { ttlHours: 1 });
+      const pinned = await shortTtlStore.create(undefined, { pinned: true });
+      const regular = await shortTtlStore.create();
+
+      expect(pinned.expiresAt).toBeUndefined();
+      expect(longLived.expiresAt!.getTime()).toBeGreaterThan(
+        regular.expiresAt!.getTime()
+      );
+
+      // Wait for expiration
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      expect(await shortTtlStore.cleanup()).toBe(1);
+      expect(await shortTtlStore.get(longLived.id)).not.toBeNull();
+      expect(await shortTtlStore.get(pinned.id)).not.toBeNull();
+      expect(await shortTtlStore.get(regular.id)).toBeNull();
+
+      shortTtlStore.stopCleanup();
+    });
+
+    it("should extend and unpin sessions", async () => {
+      const session = await store.create(undefined, { pinned: true });
+
+      const unpinned = await store.extend(session.id, { pinned: false });
+      expect(unpinned.pinned).toBe(false);
+      expect(unpinned.expiresAt).toBeInstanceOf(Date);
+
+      const extended = await store.extend(session.id, { ttlHours: 48 });
+      expect(extended.ttlHours).toBe(48);
+      expect(extended.expiresAt!.getTime() - Date.now()).toBeGreaterThan(
+        47 * 60 * 60 * 1000
+      );
+
+      // Updates keep the session's TTL
+      await store.update(session.id, { scratchpad: "x" });
+      const updated = await store.get(session.id);
+      expect(updated!.expiresAt!.getTime() - Date.now()).toBeGreaterThan(
+        47 * 60 * 60 * 1000
+      );
+
+      await expect(store.extend("non-existent", {})).rejects.toThrow(
+        SessionNotFoundError
+      );
+    });
   });
 
   describe("cleanup lifecycle", () => {
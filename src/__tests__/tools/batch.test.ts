@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { InMemorySessionStore } from "../../storage/InMemorySessionStore.js";
+import { ResponseEncoder } from "../../utils/encoder.js";
+import { ToolContext } from "../../tools/session.js";
+import { addTodo } from "../../tools/todo.js";
+import { batchTodos } from "../../tools/batch.js";
+
+describe("batch_todos tool", () => {
+  let store: InMemorySessionStore;
+  let encoder: ResponseEncoder;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore({ ttlHours: 1 });
+    encoder = new ResponseEncoder("json");
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+  });
+
+  function createContext(userId?: string): ToolContext {
+    return { store, encoder, userId };
+  }
+
+  it("should apply add, update and delete operations in order", async () => {
+    const session = await store.create();
+    const context = createContext();
+    const existing = JSON.parse(
+      await addTodo({ session_id: session.id, title: "Old step" }, context)
+    );
+
+    const result = await batchTodos(
+      {
+        session_id: session.id,
+        operations: [
+          { op: "add", title: "Step 1", description: "", tags: [] },
+          { op: "add", title: "Step 2", description: "", tags: ["x"] },
+          { op: "update", todo_id: existing.id, status: "done" },
+          { op: "delete", todo_id: existing.id, cascade: true },
+        ],
+      },
+      context
+    );
+    const parsed = JSON.parse(result);
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.applied).toBe(4);
+    expect(parsed.results.map((r: { op: string }) => r.op)).toEqual([
+      "add",
+      "add",
+      "update",
+      "delete",
+    ]);
+    expect(parsed.results[2].status).toBe("done");
+
+    const updated = await store.get(session.id);
+    expect(updated?.todos.map((t) => t.title)).toEqual(["Step 1", "Step 2"]);
+  });
+
+  it("should resolve references to todos added in the same batch", async () => {
+    const session = await store.create();
+    const context = createContext();
+
+    const parsed = JSON.parse(
+      await batchTodos(
+        {
+          session_id: session.id,
+          operations: [
+            { op: "add", ref: "goal", title: "Goal", description: "", tags: [] },
+            {
+              op: "add",
+              ref: "research",
+              title: "Research",
+              description: "",
+              tags: [],
+              parent_id: "$goal",
+            },
+            {
+              op: "add",
+              title: "Write",
+              description: "",
+              tags: [],
+              parent_id: "$goal",
+              depends_on: ["$research"],
+            },
+            { op: "update", todo_id: "$research", status: "in_progress" },
+          ],
+        },
+        context
+      )
+    );
+
+    const [goal, research, write] = parsed.results;
+    expect(goal.ref).toBe("goal");
+
+    const updated = await store.get(session.id);
+    const todos = new Map(updated!.todos.map((t) => [t.id, t]));
+    expect(todos.get(research.id)?.parentId).toBe(goal.id);
+    expect(todos.get(research.id)?.status).toBe("in_progress");
+    expect(todos.get(write.id)?.dependsOn).toEqual([research.id]);
+  });
+
+  it("should roll back everything when an operation fails", async () => {
+    const session = await store.create();
+    const context = createContext();
+    await addTodo({ session_id: session.id, title: "Keep me" }, context);
+
+    const parsed = JSON.parse(
+      await batchTodos(
+        {
+          session_id: session.id,
+          operations: [
+            { op: "add", title: "New", description: "", tags: [] },
+            { op: "update", todo_id: "missing", status: "done" },
+          ],
+        },
+        context
+      )
+    );
+
+    expect(parsed.code).toBe("TODO_NOT_FOUND");
+    expect(parsed.error).toContain("Operation 2 (update) failed");
+
+    const updated = await store.get(session.id);
+    expect(updated?.todos.map((t) => t.title)).toEqual(["Keep me"]);
+  });
+
+  it("should reject unknown and duplicate references", async () => {
+    const session = await store.create();
+    const context = createContext();
+
+    const unknown = JSON.parse(
+      await batchTodos(
+        {
+          session_id: session.id,
+          operations: [{ op: "delete", todo_id: "$nope", cascade: true }],
+        },
+        context
+      )
+    );
+    expect(unknown.code).toBe("UNKNOWN_REFERENCE");
+
+    const duplicate = JSON.parse(
+      await batchTodos(
+        {
+          session_id: session.id,
+          operations: [
+            { op: "add", ref: "a", title: "A", description: "", tags: [] },
+            { op: "add", ref: "a", title: "B", description: "", tags: [] },
+          ],
+        },
+        context
+      )
+    );
+    expect(duplicate.code).toBe("INVALID_INPUT");
+    expect((await store.get(session.id))?.todos.length).toBe(0);
+  });
+
+  it("should return error for non-existent session", async () => {
+    const parsed = JSON.parse(
+      await batchTodos(
+        {
+          session_id: "non-existent",
+          operations: [{ op: "add", title: "A", description: "", tags: [] }],
+        },
+        createContext()
+      )
+    );
+
+    expect(parsed.code).toBe("SESSION_NOT_FOUND");
+  });
+
+  it("should validate userId", async () => {
+    const session = await store.create("user-123");
+
+    const parsed = JSON.parse(
+      await batchTodos(
+        {
+          session_id: session.id,
+          operations: [{ op: "add", title: "A", description: "", tags: [] }],
+        },
+        createContext("wrong-user")
+      )
+    );
+
+    expect(parsed.code).toBe("USER_ID_MISMATCH");
+  });
+
+  it("should output results in TONL format", async () => {
+    const session = await store.create();
+    const context: ToolContext = {
+      store,
+      encoder: new ResponseEncoder("tonl"),
+    };
+
+    const result = await batchTodos(
+      {
+        session_id: session.id,
+        operations: [
+          { op: "add", ref: "a", title: "TONL step", description: "", tags: [] },
+        ],
+      },
+      context
+    );
+
+    expect(result).toContain("success: true");
+    expect(result).toContain("applied: 1");
+    expect(result).toContain("[1]{op, ref, id, title, status}");
+    expect(result).toContain("TONL step");
+  });
+});
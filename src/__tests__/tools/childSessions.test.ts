@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { InMemorySessionStore } from "../../storage/InMemorySessionStore.js";
+import { ResponseEncoder } from "../../utils/encoder.js";
+import {
+  ToolContext,
+  initSession,
+  listChildSessions,
+  forkSession,
+  closeSession,
+} from "../../tools/session.js";
+import { addTodo, updateTodo, deleteTodo } from "../../tools/todo.js";
+import { batchTodos } from "../../tools/batch.js";
+
+describe("child sessions", () => {
+  let store: InMemorySessionStore;
+  let encoder: ResponseEncoder;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore({ ttlHours: 1 });
+    encoder = new ResponseEncoder("json");
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+  });
+
+  function createContext(userId?: string): ToolContext {
+    return { store, encoder, userId };
+  }
+
+  /**
+   * Create a parent session with one todo and a child session working on it
+   */
+  async function delegate(context: ToolContext) {
+    const parent = await store.create(context.userId);
+    const parentTodo = JSON.parse(
+      await addTodo({ session_id: parent.id, title: "Write tests" }, context)
+    );
+    const child = JSON.parse(
+      await initSession(
+        { parent_session_id: parent.id, parent_todo_id: parentTodo.id },
+        context
+      )
+    );
+    return { parent, parentTodo, childId: child.session_id as string };
+  }
+
+  async function getParentTodo(sessionId: string, todoId: string) {
+    const session = await store.get(sessionId);
+    return session!.todos.find((todo) => todo.id === todoId)!;
+  }
+
+  describe("init_session with a parent", () => {
+    it("should link the child to the parent session and todo", async () => {
+      const context = createContext("user-1");
+      const { parent, parentTodo, childId } = await delegate(context);
+
+      const child = await store.get(childId, "user-1");
+      expect(child?.parentSessionId).toBe(parent.id);
+      expect(child?.parentTodoId).toBe(parentTodo.id);
+    });
+
+    it("should validate the parent session and todo", async () => {
+      const parent = await store.create("user-1");
+
+      const missing = JSON.parse(
+        await initSession(
+          { parent_session_id: "non-existent" },
+          createContext("user-1")
+        )
+      );
+      expect(missing.code).toBe("SESSION_NOT_FOUND");
+
+      const mismatch = JSON.parse(
+        await initSession(
+          { parent_session_id: parent.id },
+          createContext("user-2")
+        )
+      );
+      expect(mismatch.code).toBe("USER_ID_MISMATCH");
+
+      const unknownTodo = JSON.parse(
+        await initSession(
+          { parent_session_id: parent.id, parent_todo_id: "missing" },
+          createContext("user-1")
+        )
+      );
+      expect(unknownTodo.code).toBe("TODO_NOT_FOUND");
+
+      const todoOnly = JSON.parse(
+        await initSession({ parent_todo_id: "t1" }, createContext("user-1"))
+      );
+      expect(todoOnly.code).toBe("INVALID_INPUT");
+
+      expect(await store.count()).toBe(1);
+    });
+  });
+
+  describe("list_child_sessions", () => {
+    it("should list delegated and forked sessions, oldest first", async () => {
+      const context = createContext("user-1");
+      const { parent, parentTodo, childId } = await delegate(context);
+      const fork = JSON.parse(
+        await forkSession({ session_id: parent.id }, context)
+      );
+      await store.create("user-1");
+
+      const result = JSON.parse(
+        await listChildSessions({ session_id: parent.id }, context)
+      );
+
+      expect(result.parent_session_id).toBe(parent.id);
+      expect(result.count).toBe(2);
+      expect(result.sessions[0]).toMatchObject({
+        session_id: childId,
+        parent_todo_id: parentTodo.id,
+        todo_count: 0,
+      });
+      expect(result.sessions[1].session_id).toBe(fork.session_id);
+    });
+
+    it("should drop deleted children", async () => {
+      const context = createContext();
+      const { parent, childId } = await delegate(context);
+
+      await store.delete(childId);
+
+      const result = JSON.parse(
+        await listChildSessions({ session_id: parent.id }, context)
+      );
+      expect(result.count).toBe(0);
+    });
+
+    it("should output children in TONL format", async () => {
+      const context = createContext();
+      const { parent, parentTodo } = await delegate(context);
+
+      const result = await listChildSessions(
+        { session_id: parent.id },
+        { store, encoder: new ResponseEncoder("tonl") }
+      );
+
+      expect(result).toContain("childCount: 1");
+      expect(result).toContain(
+        "[1]{id, title, parentTodo, todos, open, lastModified, closed}"
+      );
+      expect(result).toContain(parentTodo.id);
+    });
+
+    it("should return error for non-existent session", async () => {
+      const result = JSON.parse(
+        await listChildSessions({ session_id: "non-existent" }, createContext())
+      );
+
+      expect(result.code).toBe("SESSION_NOT_FOUND");
+    });
+  });
+
+  describe("parent todo completion", () => {
+    it("should complete the parent todo once all child todos are done", async () => {
+      const context = createContext();
+      const { parent, parentTodo, childId } = await delegate(context);
+      const first = JSON.parse(
+        await addTodo({ session_id: childId, title: "Unit tests" }, context)
+      );
+      const second = JSON.parse(
+        await addTodo({ session_id: childId, title: "E2E tests" }, context)
+      );
+
+      await updateTodo(
+        { session_id: childId, todo_id: first.id, status: "done" },
+        context
+      );
+      expect((await getParentTodo(parent.id, parentTodo.id)).status).toBe(
+        "pending"
+      );
+
+      await updateTodo(
+        { session_id: childId, todo_id: second.id, status: "cancelled" },
+        context
+      );
+      const completed = await getParentTodo(parent.id, parentTodo.id);
+      expect(completed.status).toBe("done");
+      expect(completed.notes?.[0].text).toContain(childId);
+    });
+
+    it("should complete it when the last open todo is deleted or batched", async () => {
+      const context = createContext();
+      const { parent, parentTodo, childId } = await delegate(context);
+      const done = JSON.parse(
+        await addTodo({ session_id: childId, title: "Done" }, context)
+      );
+      const open = JSON.parse(
+        await addTodo({ session_id: childId, title: "Open" }, context)
+      );
+      await updateTodo(
+        { session_id: childId, todo_id: done.id, status: "done" },
+        context
+      );
+
+      await deleteTodo({ session_id: childId, todo_id: open.id }, context);
+      expect((await getParentTodo(parent.id, parentTodo.id)).status).toBe(
+        "done"
+      );
+
+      const other = await delegate(context);
+      await batchTodos(
+        {
+          session_id: other.childId,
+          operations: [
+            { op: "add", title: "Step", ref: "s" },
+            { op: "update", todo_id: "$s", status: "done" },
+          ],
+        },
+        context
+      );
+      expect(
+        (await getParentTodo(other.parent.id, other.parentTodo.id)).status
+      ).toBe("done");
+    });
+
+    it("should flag the parent todo if it can't be completed", async () => {
+      const context = createContext();
+      const parent = await store.create();
+      const prerequisite = JSON.parse(
+        await addTodo({ session_id: parent.id, title: "Design" }, context)
+      );
+      const parentTodo = JSON.parse(
+        await addTodo(
+          {
+            session_id: parent.id,
+            title: "Build",
+            depends_on: [prerequisite.id],
+          },
+          context
+        )
+      );
+      const child = JSON.parse(
+        await initSession(
+          { parent_session_id: parent.id, parent_todo_id: parentTodo.id },
+          context
+        )
+      );
+      const todo = JSON.parse(
+        await addTodo({ session_id: child.session_id, title: "Step" }, context)
+      );
+
+      const result = JSON.parse(
+        await updateTodo(
+          { session_id: child.session_id, todo_id: todo.id, status: "done" },
+          context
+        )
+      );
+      expect(result.status).toBe("done");
+
+      // Closing another child todo doesn't repeat the note
+      await addTodo({ session_id: child.session_id, title: "Extra" }, context);
+      await batchTodos(
+        {
+          session_id: child.session_id,
+          operations: [{ op: "delete", todo_id: todo.id }],
+        },
+        context
+      );
+
+      const flagged = await getParentTodo(parent.id, parentTodo.id);
+      expect(flagged.status).toBe("pending");
+      expect(flagged.notes).toHaveLength(1);
+      expect(flagged.notes?.[0].text).toContain("Ready to complete");
+    });
+
+    it("should not fail the child's change if the parent is closed", async () => {
+      const context = createContext();
+      const { parent, parentTodo, childId } = await delegate(context);
+      await closeSession({ session_id: parent.id }, context);
+      const todo = JSON.parse(
+        await addTodo({ session_id: childId, title: "Step" }, context)
+      );
+
+      const result = JSON.parse(
+        await updateTodo(
+          { session_id: childId, todo_id: todo.id, status: "done" },
+          context
+        )
+      );
+
+      expect(result.status).toBe("done");
+      expect((await getParentTodo(parent.id, parentTodo.id)).status).toBe(
+        "pending"
+      );
+    });
+  });
+});
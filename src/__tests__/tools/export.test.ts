@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { InMemorySessionStore } from "../../storage/InMemorySessionStore.js";
+import { fromSerializedSession } from "../../storage/serialization.js";
+import { ResponseEncoder } from "../../utils/encoder.js";
+import {
+  SESSION_BUNDLE_FORMAT,
+  SESSION_BUNDLE_VERSION,
+} from "../../utils/sessionExport.js";
+import { ToolContext, exportSession } from "../../tools/session.js";
+import { addTodo, updateTodo } from "../../tools/todo.js";
+import { writeScratchpad } from "../../tools/scratchpad.js";
+import { setFact } from "../../tools/facts.js";
+
+describe("export_session", () => {
+  let store: InMemorySessionStore;
+  let context: ToolContext;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    store = new InMemorySessionStore({ ttlHours: 1 });
+    context = { store, encoder: new ResponseEncoder("tonl") };
+
+    const session = await store.create(undefined, { title: "Release 1.2" });
+    sessionId = session.id;
+
+    await writeScratchpad(
+      { session_id: sessionId, content: "# Plan\n\nShip it." },
+      context
+    );
+    await writeScratchpad(
+      { session_id: sessionId, name: "research", content: "Notes" },
+      context
+    );
+    await setFact({ session_id: sessionId, key: "repo", value: "app" }, context);
+
+    const ids: Record<string, string> = {};
+    for (const title of ["Build", "Test", "Deploy"]) {
+      await addTodo({ session_id: sessionId, title, tags: ["ci"] }, context);
+    }
+    for (const todo of (await store.get(sessionId))!.todos) {
+      ids[todo.title] = todo.id;
+    }
+    await addTodo(
+      {
+        session_id: sessionId,
+        title: "Unit tests",
+        description: "Run with coverage",
+        parent_id: ids.Test,
+      },
+      context
+    );
+    await updateTodo(
+      { session_id: sessionId, todo_id: ids.Build, status: "done" },
+      context
+    );
+    await updateTodo(
+      { session_id: sessionId, todo_id: ids.Deploy, status: "cancelled" },
+      context
+    );
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+  });
+
+  it("should export Markdown with scratchpads and a todo checklist", async () => {
+    const markdown = await exportSession({ session_id: sessionId }, context);
+
+    expect(markdown.startsWith("# Release 1.2\n")).toBe(true);
+    expect(markdown).toContain(`- Session: \`${sessionId}\``);
+    expect(markdown).toContain("## Scratchpad\n\n# Plan\n\nShip it.");
+    expect(markdown).toContain("## Scratchpad: research\n\nNotes");
+    expect(markdown).toContain(
+      [
+        "## Todos",
+        "",
+        "- [x] Build `ci`",
+        "- [ ] Test `ci`",
+        "  - [ ] Unit tests",
+        "    Run with coverage",
+        "- [x] ~~Deploy~~ `ci`",
+      ].join("\n")
+    );
+  });
+
+  it("should export a versioned JSON bundle with all session data", async () => {
+    const bundle = JSON.parse(
+      await exportSession({ session_id: sessionId, format: "json" }, context)
+    );
+
+    expect(bundle.format).toBe(SESSION_BUNDLE_FORMAT);
+    expect(bundle.version).toBe(SESSION_BUNDLE_VERSION);
+    expect(bundle.session.facts.repo.value).toBe("app");
+    expect(bundle.session.scratchpadHistory.length).toBeGreaterThan(0);
+
+    // The bundle restores the session as stored
+    expect(fromSerializedSession(bundle.session)).toEqual(
+      await store.get(sessionId)
+    );
+  });
+
+  it("should return errors in the response format", async () => {
+    const result = await exportSession(
+      { session_id: "non-existent" },
+      { store, encoder: new ResponseEncoder("json") }
+    );
+
+    expect(JSON.parse(result).code).toBe("SESSION_NOT_FOUND");
+  });
+
+  it("should check the user ID", async () => {
+    const owned = await store.create("user-1");
+
+    const result = await exportSession(
+      { session_id: owned.id },
+      { store, encoder: new ResponseEncoder("json"), userId: "user-2" }
+    );
+
+    expect(JSON.parse(result).code).toBe("USER_ID_MISMATCH");
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { InMemorySessionStore } from "../../storage/InMemorySessionStore.js";
+import { ResponseEncoder } from "../../utils/encoder.js";
+import { ToolContext } from "../../tools/session.js";
+import {
+  setFact,
+  getFact,
+  listFacts,
+  deleteFact,
+} from "../../tools/facts.js";
+
+describe("fact tools", () => {
+  let store: InMemorySessionStore;
+  let encoder: ResponseEncoder;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore({ ttlHours: 1 });
+    encoder = new ResponseEncoder("json");
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+  });
+
+  function createContext(userId?: string): ToolContext {
+    return { store, encoder, userId };
+  }
+
+  describe("set_fact and get_fact", () => {
+    it("should store and read JSON values of any type", async () => {
+      const session = await store.create("user-123");
+      const context = createContext("user-123");
+      const values = {
+        "repo.path": "/src/app",
+        retries: 3,
+        "flags:dry_run": false,
+        nothing: null,
+        "build/targets": ["es2022", "node20"],
+        config: { strict: true, depth: { max: 2 } },
+      };
+
+      for (const [key, value] of Object.entries(values)) {
+        const result = await setFact(
+          { session_id: session.id, key, value },
+          context
+        );
+        expect(JSON.parse(result).message).toBe("Fact created");
+      }
+
+      for (const [key, value] of Object.entries(values)) {
+        const parsed = JSON.parse(
+          await getFact({ session_id: session.id, key }, context)
+        );
+        expect(parsed.key).toBe(key);
+        expect(parsed.value).toEqual(value);
+        expect(parsed.author).toBe("user-123");
+      }
+    });
+
+    it("should keep createdAt when a fact is updated", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      await setFact({ session_id: session.id, key: "k", value: 1 }, context);
+      const first = JSON.parse(
+        await getFact({ session_id: session.id, key: "k" }, context)
+      );
+
+      const result = await setFact(
+        { session_id: session.id, key: "k", value: 2 },
+        context
+      );
+      expect(JSON.parse(result).message).toBe("Fact updated");
+
+      const second = JSON.parse(
+        await getFact({ session_id: session.id, key: "k" }, context)
+      );
+      expect(second.value).toBe(2);
+      expect(second.created_at).toBe(first.created_at);
+    });
+
+    it("should validate values against a declared schema", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const schema = {
+        type: "object",
+        properties: { port: { type: "integer", minimum: 1 } },
+        required: ["port"],
+      };
+
+      const created = await setFact(
+        { session_id: session.id, key: "server", value: { port: 8080 }, schema },
+        context
+      );
+      expect(JSON.parse(created).has_schema).toBe(true);
+
+      // The stored schema applies to later updates
+      const rejected = JSON.parse(
+        await setFact(
+          { session_id: session.id, key: "server", value: { port: 0 } },
+          context
+        )
+      );
+      expect(rejected.code).toBe("SCHEMA_VALIDATION_FAILED");
+      expect(rejected.error).toContain("value/port");
+
+      const unchanged = JSON.parse(
+        await getFact({ session_id: session.id, key: "server" }, context)
+      );
+      expect(unchanged.value).toEqual({ port: 8080 });
+      expect(unchanged.schema).toEqual(schema);
+    });
+
+    it("should reject invalid schemas", async () => {
+      const session = await store.create();
+
+      const result = await setFact(
+        {
+          session_id: session.id,
+          key: "k",
+          value: 1,
+          schema: { type: "not-a-type" },
+        },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("INVALID_SCHEMA");
+
+      const dialect = await setFact(
+        {
+          session_id: session.id,
+          key: "k",
+          value: 1,
+          schema: {
+            $schema: "https://json-schema.org/draft/2020-12/schema",
+            type: "number",
+          },
+        },
+        createContext()
+      );
+
+      expect(JSON.parse(dialect).code).toBe("INVALID_SCHEMA");
+    });
+
+    it("should return FACT_NOT_FOUND for unknown keys", async () => {
+      const session = await store.create();
+
+      const result = await getFact(
+        { session_id: session.id, key: "missing" },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("FACT_NOT_FOUND");
+    });
+
+    it("should not treat Object members as facts", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const keys = ["constructor", "toString", "hasOwnProperty", "__proto__"];
+
+      for (const key of keys) {
+        const missing = await getFact({ session_id: session.id, key }, context);
+        expect(JSON.parse(missing).code).toBe("FACT_NOT_FOUND");
+
+        const deleted = await deleteFact(
+          { session_id: session.id, key },
+          context
+        );
+        expect(JSON.parse(deleted).code).toBe("FACT_NOT_FOUND");
+
+        const created = await setFact(
+          { session_id: session.id, key, value: key },
+          context
+        );
+        expect(JSON.parse(created).message).toBe("Fact created");
+
+        const fact = JSON.parse(
+          await getFact({ session_id: session.id, key }, context)
+        );
+        expect(fact.value).toBe(key);
+      }
+    });
+
+    it("should return error for non-existent session", async () => {
+      const result = await setFact(
+        { session_id: "non-existent", key: "k", value: 1 },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should validate userId for session with userId", async () => {
+      const session = await store.create("user-123");
+
+      const result = await getFact(
+        { session_id: session.id, key: "k" },
+        createContext("other-user")
+      );
+
+      expect(JSON.parse(result).code).toBe("USER_ID_MISMATCH");
+    });
+  });
+
+  describe("list_facts and delete_fact", () => {
+    it("should list facts by key and filter by prefix", async () => {
+      const session = await store.create();
+      const context = createContext();
+      for (const key of ["repo.path", "build", "repo.branch"]) {
+        await setFact({ session_id: session.id, key, value: key }, context);
+      }
+
+      const all = JSON.parse(
+        await listFacts({ session_id: session.id }, context)
+      );
+      expect(all.count).toBe(3);
+      expect(all.facts.map((f: { key: string }) => f.key)).toEqual([
+        "build",
+        "repo.branch",
+        "repo.path",
+      ]);
+
+      const repo = JSON.parse(
+        await listFacts({ session_id: session.id, prefix: "repo." }, context)
+      );
+      expect(repo.facts).toHaveLength(2);
+      expect(repo.facts[0].value).toBe("repo.branch");
+    });
+
+    it("should delete facts", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await setFact({ session_id: session.id, key: "k", value: 1 }, context);
+
+      const deleted = await deleteFact({ session_id: session.id, key: "k" }, context);
+      expect(JSON.parse(deleted).success).toBe(true);
+
+      const again = await deleteFact({ session_id: session.id, key: "k" }, context);
+      expect(JSON.parse(again).code).toBe("FACT_NOT_FOUND");
+      expect((await store.get(session.id))?.facts).toEqual({});
+    });
+
+    it("should output facts in TONL format", async () => {
+      const session = await store.create();
+      const context: ToolContext = {
+        store,
+        encoder: new ResponseEncoder("tonl"),
+      };
+      await setFact(
+        { session_id: session.id, key: "repo.path", value: "/src/app" },
+        context
+      );
+
+      const fact = await getFact(
+        { session_id: session.id, key: "repo.path" },
+        context
+      );
+      expect(fact).toContain("{sessionId, key, value, schema, author, updatedAt}");
+      expect(fact).toContain('value: "/src/app"');
+
+      const list = await listFacts({ session_id: session.id }, context);
+      expect(list).toContain("factCount: 1");
+      expect(list).toContain("[1]{key, value, updatedAt}");
+      expect(list).toMatch(/repo\.path\s+"\/src\/app"/);
+    });
+  });
+});
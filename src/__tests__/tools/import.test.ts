@@ -0,0 +1,367 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { InMemorySessionStore } from "../../storage/InMemorySessionStore.js";
+import { ResponseEncoder } from "../../utils/encoder.js";
+import { DEFAULT_SESSION_LIMITS } from "../../utils/limits.js";
+import {
+  ToolContext,
+  exportSession,
+  importSession,
+  closeSession,
+} from "../../tools/session.js";
+import { addTodo, listTodos } from "../../tools/todo.js";
+import { setFact } from "../../tools/facts.js";
+
+describe("import_session", () => {
+  let store: InMemorySessionStore;
+  let context: ToolContext;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore({ ttlHours: 1 });
+    context = { store, encoder: new ResponseEncoder("json"), userId: "user-1" };
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+  });
+
+  async function importAndGet(input: Parameters<typeof importSession>[0]) {
+    const result = JSON.parse(await importSession(input, context));
+    return (await store.get(result.session_id, "user-1"))!;
+  }
+
+  describe("Markdown", () => {
+    it("should turn checklists into todos and the rest into the scratchpad", async () => {
+      const session = await importAndGet({
+        content: [
+          "# Release plan",
+          "",
+          "Ship version 1.2.",
+          "",
+          "- [x] Build",
+          "- [ ] Test",
+          "  Run the whole suite",
+          "  - [ ] Unit tests",
+          "  - [X] ~~E2E tests~~",
+          "- [ ] Deploy",
+          "",
+          "## Notes",
+          "",
+          "```md",
+          "- [ ] Not a todo",
+          "```",
+        ].join("\n"),
+        title: "Release",
+      });
+
+      expect(session.title).toBe("Release");
+      expect(session.userId).toBe("user-1");
+      expect(session.scratchpad).toBe(
+        "# Release plan\n\nShip version 1.2.\n\n## Notes\n\n```md\n- [ ] Not a todo\n```"
+      );
+
+      const [build, test, unit, e2e, deploy] = session.todos;
+      expect(session.todos.map((t) => [t.title, t.status])).toEqual([
+        ["Build", "done"],
+        ["Test", "pending"],
+        ["Unit tests", "pending"],
+        ["E2E tests", "cancelled"],
+        ["Deploy", "pending"],
+      ]);
+      expect(build.completedAt).toBeInstanceOf(Date);
+      expect(test.description).toBe("Run the whole suite");
+      expect(unit.parentId).toBe(test.id);
+      expect(e2e.parentId).toBe(test.id);
+      expect(deploy.parentId).toBeUndefined();
+      expect(session.todos.map((t) => t.position)).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it("should reject an empty document", async () => {
+      const result = JSON.parse(
+        await importSession({ content: "\n  \n", format: "md" }, context)
+      );
+
+      expect(result.code).toBe("INVALID_INPUT");
+      expect(await store.count()).toBe(0);
+    });
+  });
+
+  describe("JSON bundles", () => {
+    it("should restore an exported session as a fresh session", async () => {
+      const original = await store.create("user-1", { title: "Original" });
+      await store.update(
+        original.id,
+        { scratchpad: "Plan", scratchpads: { research: "Notes" } },
+        "user-1"
+      );
+      await setFact(
+        { session_id: original.id, key: "repo", value: { path: "/app" } },
+        context
+      );
+      const parent = JSON.parse(
+        await addTodo({ session_id: original.id, title: "Parent" }, context)
+      );
+      await addTodo(
+        {
+          session_id: original.id,
+          title: "Child",
+          parent_id: parent.id,
+          depends_on: [parent.id],
+        },
+        context
+      );
+      await closeSession({ session_id: original.id }, context);
+
+      const bundle = await exportSession(
+        { session_id: original.id, format: "json" },
+        context
+      );
+      const session = await importAndGet({ content: bundle });
+      const source = (await store.get(original.id, "user-1"))!;
+
+      expect(session.id).not.toBe(original.id);
+      expect(session.title).toBe("Original");
+      expect(session.closedAt).toBeUndefined();
+      expect(session.parentSessionId).toBeUndefined();
+      expect(session.scratchpad).toBe("Plan");
+      expect(session.scratchpads).toEqual({ research: "Notes" });
+      expect(session.facts).toEqual(source.facts);
+      expect(session.todos).toEqual(source.todos);
+    });
+
+    it("should validate bundles", async () => {
+      const valid = JSON.parse(
+        await exportSession(
+          {
+            session_id: (await store.create("user-1")).id,
+            format: "json",
+          },
+          context
+        )
+      );
+
+      const invalid = [
+        "{ not json",
+        JSON.stringify({ ...valid, format: "other" }),
+        JSON.stringify({ ...valid, version: 99 }),
+        JSON.stringify({ ...valid, session: { ...valid.session, todos: [{}] } }),
+        JSON.stringify({
+          ...valid,
+          session: {
+            ...valid.session,
+            scratchpadHistory: [
+              {
+                name: "not a name",
+                revision: 1,
+                content: "x",
+                createdAt: valid.exportedAt,
+              },
+            ],
+          },
+        }),
+      ];
+
+      for (const content of invalid) {
+        const result = JSON.parse(await importSession({ content }, context));
+        expect(result.code).toBe("INVALID_INPUT");
+      }
+      expect(await store.count()).toBe(1);
+    });
+  });
+
+  it("should apply the rules of normal edits", async () => {
+    const session = await store.create("user-1");
+    await addTodo({ session_id: session.id, title: "Wait" }, context);
+    await setFact(
+      {
+        session_id: session.id,
+        key: "port",
+        value: 8080,
+        schema: { type: "number" },
+      },
+      context
+    );
+    const valid = JSON.parse(
+      await exportSession({ session_id: session.id, format: "json" }, context)
+    );
+
+    const blocked = structuredClone(valid);
+    blocked.session.todos[0].status = "blocked";
+    const mismatch = structuredClone(valid);
+    mismatch.session.facts.port.value = "http";
+
+    for (const bundle of [blocked, mismatch]) {
+      const result = JSON.parse(
+        await importSession({ content: JSON.stringify(bundle) }, context)
+      );
+      expect(result.code).toBe("INVALID_INPUT");
+      expect(result.error).toMatch(/blocked_reason|does not match/);
+    }
+    expect(await store.count()).toBe(1);
+  });
+
+  describe("todo cycles", () => {
+    async function exportWithTodos(
+      links: Array<{ parentId?: number; dependsOn?: number[] }>
+    ): Promise<string> {
+      const session = await store.create("user-1");
+      for (let i = 0; i < links.length; i++) {
+        await addTodo({ session_id: session.id, title: `Todo ${i}` }, context);
+      }
+      const bundle = JSON.parse(
+        await exportSession({ session_id: session.id, format: "json" }, context)
+      );
+      const todos = bundle.session.todos;
+      links.forEach((link, i) => {
+        todos[i].parentId =
+          link.parentId !== undefined ? todos[link.parentId].id : undefined;
+        todos[i].dependsOn = link.dependsOn?.map((j) => todos[j].id);
+      });
+      return JSON.stringify(bundle);
+    }
+
+    it("should reject bundles with cyclic subtasks or dependencies", async () => {
+      const bundles = [
+        await exportWithTodos([{ parentId: 0 }]),
+        await exportWithTodos([{ parentId: 1 }, { parentId: 0 }, {}]),
+        await exportWithTodos([{ dependsOn: [1] }, { dependsOn: [0] }]),
+      ];
+
+      for (const content of bundles) {
+        const result = JSON.parse(await importSession({ content }, context));
+        expect(result.code).toBe("INVALID_INPUT");
+        expect(result.error).toMatch(/ancestor|cycle/);
+      }
+      expect(await store.count()).toBe(3);
+    });
+
+    it("should check long chains in linear time, after the limits", async () => {
+      const bundle = JSON.parse(await exportWithTodos([]));
+      const createdAt = new Date().toISOString();
+      bundle.session.todos = Array.from({ length: 20_000 }, (_, i) => ({
+        id: `t${i}`,
+        title: `Todo ${i}`,
+        description: "",
+        tags: [],
+        status: "pending",
+        parentId: `t${(i + 1) % 20_000}`,
+        dependsOn: i > 0 ? [`t${i - 1}`] : undefined,
+        createdAt,
+      }));
+      const content = JSON.stringify(bundle);
+
+      const quota = JSON.parse(await importSession({ content }, context));
+      expect(quota.code).toBe("QUOTA_EXCEEDED");
+
+      const started = Date.now();
+      const cyclic = JSON.parse(
+        await importSession(
+          { content },
+          { ...context, limits: { ...DEFAULT_SESSION_LIMITS, maxTodos: 0 } }
+        )
+      );
+      expect(cyclic.error).toMatch(/ancestor/);
+      expect(Date.now() - started).toBeLessThan(5_000);
+    });
+
+    it("should still list todos of sessions with cyclic data", async () => {
+      const session = await store.create("user-1");
+      const a = JSON.parse(
+        await addTodo({ session_id: session.id, title: "A" }, context)
+      );
+      const b = JSON.parse(
+        await addTodo(
+          { session_id: session.id, title: "B", parent_id: a.id },
+          context
+        )
+      );
+      const stored = (await store.get(session.id, "user-1"))!;
+      await store.update(
+        session.id,
+        {
+          todos: stored.todos.map((todo) =>
+            todo.id === a.id ? { ...todo, parentId: b.id } : todo
+          ),
+        },
+        "user-1"
+      );
+
+      const todos = JSON.parse(
+        await listTodos({ session_id: session.id }, context)
+      );
+      expect(todos).toHaveLength(2);
+      await expect(
+        exportSession({ session_id: session.id }, context)
+      ).resolves.toContain("## Todos");
+    });
+  });
+
+  it("should check limits before creating the session", async () => {
+    const result = JSON.parse(
+      await importSession(
+        { content: "- [ ] One\n- [ ] Two\n- [ ] Three" },
+        { ...context, limits: { ...DEFAULT_SESSION_LIMITS, maxTodos: 2 } }
+      )
+    );
+
+    expect(result.code).toBe("QUOTA_EXCEEDED");
+    expect(await store.count()).toBe(0);
+  });
+
+  describe("history and facts", () => {
+    async function exportWithHistory(revisions: number, size: number) {
+      const session = await store.create("user-1");
+      const bundle = JSON.parse(
+        await exportSession({ session_id: session.id, format: "json" }, context)
+      );
+      bundle.session.scratchpadHistory = Array.from(
+        { length: revisions },
+        (_, i) => ({
+          name: "default",
+          revision: i + 1,
+          content: `${i}`.padEnd(size, "x"),
+          createdAt: new Date().toISOString(),
+        })
+      );
+      return bundle;
+    }
+
+    it("should keep the newest revisions per section", async () => {
+      const bundle = await exportWithHistory(25, 1);
+
+      const session = await importAndGet({ content: JSON.stringify(bundle) });
+
+      const revisions = session.scratchpadHistory.map((r) => r.revision);
+      expect(revisions).toHaveLength(20);
+      expect(revisions[0]).toBe(6);
+      expect(revisions[19]).toBe(25);
+    });
+
+    it("should limit the size of history and facts", async () => {
+      const limits = {
+        ...DEFAULT_SESSION_LIMITS,
+        maxScratchpadLength: 100,
+        maxFactLength: 100,
+      };
+      const history = await exportWithHistory(20, 101);
+      const facts = await exportWithHistory(0, 0);
+      facts.session.facts = {
+        big: {
+          value: "x".repeat(100),
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+      };
+
+      for (const bundle of [history, facts]) {
+        const result = JSON.parse(
+          await importSession(
+            { content: JSON.stringify(bundle) },
+            { ...context, limits }
+          )
+        );
+        expect(result.code).toBe("QUOTA_EXCEEDED");
+      }
+      expect(await store.count()).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { InMemorySessionStore } from "../../storage/InMemorySessionStore.js";
+import { ResponseEncoder } from "../../utils/encoder.js";
+import { SessionLimits } from "../../utils/limits.js";
+import { ToolContext, initSession } from "../../tools/session.js";
+import {
+  writeScratchpad,
+  appendScratchpad,
+  patchScratchpad,
+} from "../../tools/scratchpad.js";
+import { addTodo, updateTodo } from "../../tools/todo.js";
+import { batchTodos } from "../../tools/batch.js";
+import { addTodoNote } from "../../tools/notes.js";
+import { setFact } from "../../tools/facts.js";
+
+describe("size limits and quotas", () => {
+  let store: InMemorySessionStore;
+  let encoder: ResponseEncoder;
+
+  const limits: SessionLimits = {
+    maxScratchpadLength: 20,
+    maxTodos: 2,
+    maxTagLength: 5,
+    maxNotesPerTodo: 2,
+    maxNoteLength: 10,
+    maxFacts: 2,
+    maxFactLength: 20,
+    maxSessionsPerUser: 0,
+    maxSessionTtlHours: 0,
+  };
+
+  beforeEach(() => {
+    store = new InMemorySessionStore({ ttlHours: 1, maxSessionsPerUser: 1 });
+    encoder = new ResponseEncoder("json");
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+  });
+
+  function createContext(userId?: string): ToolContext {
+    return { store, encoder, userId, limits };
+  }
+
+  describe("scratchpad length", () => {
+    it("should reject writes and appends beyond the limit", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      const tooLong = JSON.parse(
+        await writeScratchpad(
+          { session_id: session.id, content: "x".repeat(21) },
+          context
+        )
+      );
+      expect(tooLong.code).toBe("QUOTA_EXCEEDED");
+
+      await writeScratchpad(
+        { session_id: session.id, content: "x".repeat(15) },
+        context
+      );
+      // The limit covers all sections together
+      const append = JSON.parse(
+        await appendScratchpad(
+          { session_id: session.id, name: "findings", content: "y".repeat(6) },
+          context
+        )
+      );
+      expect(append.code).toBe("QUOTA_EXCEEDED");
+
+      const stored = await store.get(session.id);
+      expect(stored?.scratchpad).toBe("x".repeat(15));
+      expect(stored?.scratchpads).toEqual({});
+    });
+
+    it("should allow shrinking an oversized scratchpad", async () => {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: "x".repeat(30) });
+
+      const result = JSON.parse(
+        await patchScratchpad(
+          {
+            session_id: session.id,
+            search: "x".repeat(30),
+            replacement: "x".repeat(25),
+          },
+          createContext()
+        )
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.content_length).toBe(25);
+    });
+  });
+
+  describe("todos", () => {
+    it("should limit the number of todos per session", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      await addTodo({ session_id: session.id, title: "One" }, context);
+      await addTodo({ session_id: session.id, title: "Two" }, context);
+      const third = JSON.parse(
+        await addTodo({ session_id: session.id, title: "Three" }, context)
+      );
+
+      expect(third.code).toBe("QUOTA_EXCEEDED");
+      expect((await store.get(session.id))?.todos).toHaveLength(2);
+    });
+
+    it("should reject batches that would exceed the limit", async () => {
+      const session = await store.create();
+
+      const result = JSON.parse(
+        await batchTodos(
+          {
+            session_id: session.id,
+            operations: ["A", "B", "C"].map((title) => ({
+              op: "add" as const,
+              title,
+            })),
+          },
+          createContext()
+        )
+      );
+
+      expect(result.code).toBe("QUOTA_EXCEEDED");
+      expect((await store.get(session.id))?.todos).toEqual([]);
+    });
+
+    it("should limit the length of new tags", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      const added = JSON.parse(
+        await addTodo(
+          { session_id: session.id, title: "Tagged", tags: ["toolong"] },
+          context
+        )
+      );
+      expect(added.code).toBe("QUOTA_EXCEEDED");
+
+      // Existing long tags don't block other changes
+      const todo = JSON.parse(
+        await addTodo({ session_id: session.id, title: "Tagged" }, context)
+      );
+      const stored = await store.get(session.id);
+      await store.update(session.id, {
+        todos: stored!.todos.map((t) => ({ ...t, tags: ["legacy-tag"] })),
+      });
+
+      const updated = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: todo.id, add_tags: ["ok"] },
+          context
+        )
+      );
+      expect(updated.tags).toEqual(["legacy-tag", "ok"]);
+    });
+  });
+
+  describe("notes", () => {
+    it("should limit the number and length of notes per todo", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const todo = JSON.parse(
+        await addTodo({ session_id: session.id, title: "Step" }, context)
+      );
+      const note = (text: string) =>
+        addTodoNote({ session_id: session.id, todo_id: todo.id, text }, context);
+
+      expect(JSON.parse(await note("x".repeat(11))).code).toBe(
+        "QUOTA_EXCEEDED"
+      );
+      await note("First");
+      await note("Second");
+      expect(JSON.parse(await note("Third")).code).toBe("QUOTA_EXCEEDED");
+
+      const stored = await store.get(session.id);
+      expect(stored?.todos[0].notes).toHaveLength(2);
+    });
+  });
+
+  describe("facts", () => {
+    it("should limit the number and size of facts", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const set = (key: string, value: unknown) =>
+        setFact({ session_id: session.id, key, value }, context);
+
+      expect(JSON.parse(await set("big", "x".repeat(20))).code).toBe(
+        "QUOTA_EXCEEDED"
+      );
+      await set("a", 1);
+      await set("b", 2);
+      expect(JSON.parse(await set("c", 3)).code).toBe("QUOTA_EXCEEDED");
+
+      // Existing keys can still be replaced
+      expect(JSON.parse(await set("a", 10)).success).toBe(true);
+      expect(Object.keys((await store.get(session.id))!.facts)).toEqual([
+        "a",
+        "b",
+      ]);
+    });
+  });
+
+  describe("sessions per user", () => {
+    it("should return QUOTA_EXCEEDED from init_session", async () => {
+      const context = createContext("user-1");
+
+      const first = JSON.parse(await initSession({}, context));
+      expect(first.session_id).toBeDefined();
+
+      const second = JSON.parse(await initSession({}, context));
+      expect(second.code).toBe("QUOTA_EXCEEDED");
+    });
+  });
+});
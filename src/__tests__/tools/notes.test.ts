@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { InMemorySessionStore } from "../../storage/InMemorySessionStore.js";
+import { ResponseEncoder } from "../../utils/encoder.js";
+import { ToolContext } from "../../tools/session.js";
+import { addTodo, listTodos } from "../../tools/todo.js";
+import { addTodoNote, listTodoNotes } from "../../tools/notes.js";
+
+describe("todo note tools", () => {
+  let store: InMemorySessionStore;
+  let encoder: ResponseEncoder;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore({ ttlHours: 1 });
+    encoder = new ResponseEncoder("json");
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+  });
+
+  function createContext(userId?: string): ToolContext {
+    return { store, encoder, userId };
+  }
+
+  async function createTodo(sessionId: string, context: ToolContext) {
+    const result = await addTodo(
+      { session_id: sessionId, title: "Call the API" },
+      context
+    );
+    return JSON.parse(result).id as string;
+  }
+
+  describe("add_todo_note", () => {
+    it("should append notes with author and timestamp", async () => {
+      const session = await store.create("user-123");
+      const context = createContext("user-123");
+      const todoId = await createTodo(session.id, context);
+
+      await addTodoNote(
+        { session_id: session.id, todo_id: todoId, text: "Started" },
+        context
+      );
+      const result = await addTodoNote(
+        { session_id: session.id, todo_id: todoId, text: "Hit a rate limit" },
+        context
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.note_count).toBe(2);
+
+      const notes = (await store.get(session.id, "user-123"))!.todos[0].notes;
+      expect(notes?.map((n) => n.text)).toEqual(["Started", "Hit a rate limit"]);
+      expect(notes?.[0].author).toBe("user-123");
+      expect(notes?.[0].createdAt).toBeInstanceOf(Date);
+    });
+
+    it("should leave author unset without a user ID", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const todoId = await createTodo(session.id, context);
+
+      await addTodoNote(
+        { session_id: session.id, todo_id: todoId, text: "Anonymous" },
+        context
+      );
+
+      const notes = (await store.get(session.id))!.todos[0].notes;
+      expect(notes?.[0].author).toBeUndefined();
+    });
+
+    it("should return error for non-existent todo", async () => {
+      const session = await store.create();
+
+      const result = await addTodoNote(
+        { session_id: session.id, todo_id: "missing", text: "Hello" },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("TODO_NOT_FOUND");
+    });
+
+    it("should return error for non-existent session", async () => {
+      const result = await addTodoNote(
+        { session_id: "non-existent", todo_id: "missing", text: "Hello" },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should validate userId", async () => {
+      const session = await store.create("user-123");
+      const todoId = await createTodo(session.id, createContext("user-123"));
+
+      const result = await addTodoNote(
+        { session_id: session.id, todo_id: todoId, text: "Hello" },
+        createContext("wrong-user")
+      );
+
+      expect(JSON.parse(result).code).toBe("USER_ID_MISMATCH");
+    });
+  });
+
+  describe("list_todo_notes", () => {
+    it("should list notes oldest first", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const todoId = await createTodo(session.id, context);
+      await addTodoNote(
+        { session_id: session.id, todo_id: todoId, text: "First" },
+        context
+      );
+      await addTodoNote(
+        { session_id: session.id, todo_id: todoId, text: "Second" },
+        context
+      );
+
+      const parsed = JSON.parse(
+        await listTodoNotes({ session_id: session.id, todo_id: todoId }, context)
+      );
+
+      expect(parsed.todo_id).toBe(todoId);
+      expect(parsed.note_count).toBe(2);
+      expect(parsed.notes[0].created_at).toBeDefined();
+      expect(parsed.notes.map((n: { text: string }) => n.text)).toEqual([
+        "First",
+        "Second",
+      ]);
+    });
+
+    it("should return an empty list for todos without notes", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const todoId = await createTodo(session.id, context);
+
+      const parsed = JSON.parse(
+        await listTodoNotes({ session_id: session.id, todo_id: todoId }, context)
+      );
+
+      expect(parsed.notes).toEqual([]);
+    });
+
+    it("should return error for non-existent todo", async () => {
+      const session = await store.create();
+
+      const result = await listTodoNotes(
+        { session_id: session.id, todo_id: "missing" },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("TODO_NOT_FOUND");
+    });
+
+    it("should output notes in TONL format", async () => {
+      const session = await store.create("user-1");
+      const context: ToolContext = {
+        store,
+        encoder: new ResponseEncoder("tonl"),
+        userId: "user-1",
+      };
+      const todoId = await createTodo(session.id, createContext("user-1"));
+      await addTodoNote(
+        { session_id: session.id, todo_id: todoId, text: "Looks good" },
+        context
+      );
+
+      const result = await listTodoNotes(
+        { session_id: session.id, todo_id: todoId },
+        context
+      );
+
+      expect(result).toContain(`todoId: ${todoId}`);
+      expect(result).toContain("[1]{createdAt, author, text}");
+      expect(result).toContain("user-1");
+      expect(result).toContain("Looks good");
+    });
+  });
+
+  describe("note count in list_todos", () => {
+    it("should show the note count in JSON and TONL", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const todoId = await createTodo(session.id, context);
+      await addTodo({ session_id: session.id, title: "Quiet" }, context);
+      await addTodoNote(
+        { session_id: session.id, todo_id: todoId, text: "Noted" },
+        context
+      );
+
+      const parsed = JSON.parse(
+        await listTodos({ session_id: session.id }, context)
+      );
+      expect(parsed[0].noteCount).toBe(1);
+      expect(parsed[1].noteCount).toBeUndefined();
+
+      const tonl = await listTodos(
+        { session_id: session.id },
+        { store, encoder: new ResponseEncoder("tonl") }
+      );
+      expect(tonl).toContain("[2]{id, title, status, tags, createdAt, notes}");
+    });
+  });
+});
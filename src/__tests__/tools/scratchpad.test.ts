@@ -2,7 +2,15 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { InMemorySessionStore } from "../../storage/InMemorySessionStore.js";
 import { ResponseEncoder } from "../../utils/encoder.js";
 import { ToolContext } from "../../tools/session.js";
-import { readScratchpad, writeScratchpad } from "../../tools/scratchpad.js";
+import {
+  readScratchpad,
+  writeScratchpad,
+  appendScratchpad,
+  patchScratchpad,
+  listScratchpads,
+  scratchpadOutline,
+} from "../../tools/scratchpad.js";
+import { hashContent } from "../../utils/hash.js";
 
 describe("scratchpad tools", () => {
   let store: InMemorySessionStore;
@@ -95,6 +103,7 @@ describe("scratchpad tools", () => {
 
       expect(parsed.success).toBe(true);
       expect(parsed.content_length).toBe(11);
+      expect(parsed.content_hash).toBe(hashContent("New content"));
 
       // Verify content was saved
       const updated = await store.get(session.id);
@@ -162,6 +171,522 @@ Some details here`;
     });
   });
 
+  describe("append_scratchpad", () => {
+    it("should append with a newline separator", async () => {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: "Line 1" });
+      const context = createContext();
+
+      const result = await appendScratchpad(
+        { session_id: session.id, content: "Line 2" },
+        context
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.content_length).toBe(13);
+      expect(parsed.content_hash).toBe(hashContent("Line 1\nLine 2"));
+
+      const updated = await store.get(session.id);
+      expect(updated?.scratchpad).toBe("Line 1\nLine 2");
+    });
+
+    it("should not add a separator to an empty scratchpad", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      await appendScratchpad(
+        { session_id: session.id, content: "First" },
+        context
+      );
+
+      const updated = await store.get(session.id);
+      expect(updated?.scratchpad).toBe("First");
+    });
+
+    it("should prepend with a custom separator", async () => {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: "Body" });
+      const context = createContext();
+
+      await appendScratchpad(
+        {
+          session_id: session.id,
+          content: "# Title",
+          position: "start",
+          separator: "\n\n",
+        },
+        context
+      );
+
+      const updated = await store.get(session.id);
+      expect(updated?.scratchpad).toBe("# Title\n\nBody");
+    });
+
+    it("should not lose parallel appends", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) =>
+          appendScratchpad(
+            { session_id: session.id, content: `entry ${i}` },
+            context
+          )
+        )
+      );
+
+      const updated = await store.get(session.id);
+      expect(updated?.scratchpad.split("\n")).toHaveLength(10);
+    });
+
+    it("should return error for non-existent session", async () => {
+      const result = await appendScratchpad(
+        { session_id: "non-existent", content: "test" },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should validate userId for session with userId", async () => {
+      const session = await store.create("user-123");
+
+      const result = await appendScratchpad(
+        { session_id: session.id, content: "test" },
+        createContext("wrong-user")
+      );
+
+      expect(JSON.parse(result).code).toBe("USER_ID_MISMATCH");
+    });
+  });
+
+  describe("patch_scratchpad", () => {
+    const notes = "# Plan\n- step one\n- step two\n- step three";
+
+    async function createNotesSession() {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: notes });
+      return session;
+    }
+
+    it("should replace a unique search match", async () => {
+      const session = await createNotesSession();
+
+      const result = await patchScratchpad(
+        {
+          session_id: session.id,
+          search: "step two",
+          replacement: "step 2 (done)",
+        },
+        createContext()
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.replacements).toBe(1);
+      const updated = await store.get(session.id);
+      expect(updated?.scratchpad).toBe(
+        "# Plan\n- step one\n- step 2 (done)\n- step three"
+      );
+      expect(parsed.content_hash).toBe(hashContent(updated!.scratchpad));
+    });
+
+    it("should reject ambiguous matches unless replace_all is set", async () => {
+      const session = await createNotesSession();
+      const context = createContext();
+
+      const ambiguous = JSON.parse(
+        await patchScratchpad(
+          { session_id: session.id, search: "- step", replacement: "* step" },
+          context
+        )
+      );
+      expect(ambiguous.code).toBe("PATCH_AMBIGUOUS");
+      expect((await store.get(session.id))?.scratchpad).toBe(notes);
+
+      const all = JSON.parse(
+        await patchScratchpad(
+          {
+            session_id: session.id,
+            search: "- step",
+            replacement: "* step",
+            replace_all: true,
+          },
+          context
+        )
+      );
+      expect(all.replacements).toBe(3);
+      expect((await store.get(session.id))?.scratchpad).not.toContain("- step");
+    });
+
+    it("should report missing search text", async () => {
+      const session = await createNotesSession();
+
+      const result = await patchScratchpad(
+        { session_id: session.id, search: "step four", replacement: "" },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("PATCH_NO_MATCH");
+    });
+
+    it("should replace, delete and insert line ranges", async () => {
+      const session = await createNotesSession();
+      const context = createContext();
+
+      await patchScratchpad(
+        {
+          session_id: session.id,
+          start_line: 2,
+          end_line: 3,
+          replacement: "- steps one and two",
+        },
+        context
+      );
+      expect((await store.get(session.id))?.scratchpad).toBe(
+        "# Plan\n- steps one and two\n- step three"
+      );
+
+      await patchScratchpad(
+        { session_id: session.id, start_line: 3, replacement: "" },
+        context
+      );
+      expect((await store.get(session.id))?.scratchpad).toBe(
+        "# Plan\n- steps one and two"
+      );
+
+      await patchScratchpad(
+        {
+          session_id: session.id,
+          start_line: 2,
+          end_line: 1,
+          replacement: "Context first",
+        },
+        context
+      );
+      expect((await store.get(session.id))?.scratchpad).toBe(
+        "# Plan\nContext first\n- steps one and two"
+      );
+    });
+
+    it("should reject out of range lines and ambiguous modes", async () => {
+      const session = await createNotesSession();
+      const context = createContext();
+
+      const outOfRange = JSON.parse(
+        await patchScratchpad(
+          { session_id: session.id, start_line: 6, replacement: "x" },
+          context
+        )
+      );
+      expect(outOfRange.code).toBe("INVALID_LINE_RANGE");
+
+      const bothModes = JSON.parse(
+        await patchScratchpad(
+          {
+            session_id: session.id,
+            search: "Plan",
+            start_line: 1,
+            replacement: "x",
+          },
+          context
+        )
+      );
+      expect(bothModes.code).toBe("INVALID_INPUT");
+
+      const noMode = JSON.parse(
+        await patchScratchpad({ session_id: session.id, replacement: "x" }, context)
+      );
+      expect(noMode.code).toBe("INVALID_INPUT");
+    });
+
+    it("should return error for non-existent session", async () => {
+      const result = await patchScratchpad(
+        { session_id: "non-existent", search: "a", replacement: "b" },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("SESSION_NOT_FOUND");
+    });
+  });
+
+  describe("named scratchpads", () => {
+    it("should keep named sections separate from the default one", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      await writeScratchpad(
+        { session_id: session.id, content: "Main notes" },
+        context
+      );
+      await writeScratchpad(
+        { session_id: session.id, name: "findings", content: "API is slow" },
+        context
+      );
+      await appendScratchpad(
+        { session_id: session.id, name: "findings", content: "Cache helps" },
+        context
+      );
+
+      const findings = JSON.parse(
+        await readScratchpad(
+          { session_id: session.id, name: "findings" },
+          context
+        )
+      );
+      expect(findings.name).toBe("findings");
+      expect(findings.content).toBe("API is slow\nCache helps");
+
+      const main = JSON.parse(
+        await readScratchpad({ session_id: session.id }, context)
+      );
+      expect(main.content).toBe("Main notes");
+
+      const updated = await store.get(session.id);
+      expect(updated?.scratchpad).toBe("Main notes");
+      expect(updated?.scratchpads).toEqual({
+        findings: "API is slow\nCache helps",
+      });
+    });
+
+    it("should treat 'default' as the original scratchpad", async () => {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: "Legacy content" });
+      const context = createContext();
+
+      const parsed = JSON.parse(
+        await readScratchpad({ session_id: session.id, name: "default" }, context)
+      );
+
+      expect(parsed.content).toBe("Legacy content");
+    });
+
+    it("should patch a named section", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeScratchpad(
+        { session_id: session.id, name: "decisions", content: "Use Redis" },
+        context
+      );
+
+      await patchScratchpad(
+        {
+          session_id: session.id,
+          name: "decisions",
+          search: "Redis",
+          replacement: "Postgres",
+        },
+        context
+      );
+
+      const updated = await store.get(session.id);
+      expect(updated?.scratchpads.decisions).toBe("Use Postgres");
+    });
+
+    it("should return error for unknown sections on read and patch", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      const read = JSON.parse(
+        await readScratchpad({ session_id: session.id, name: "blockers" }, context)
+      );
+      expect(read.code).toBe("SCRATCHPAD_NOT_FOUND");
+
+      const patch = JSON.parse(
+        await patchScratchpad(
+          {
+            session_id: session.id,
+            name: "blockers",
+            search: "a",
+            replacement: "b",
+          },
+          context
+        )
+      );
+      expect(patch.code).toBe("SCRATCHPAD_NOT_FOUND");
+      expect((await store.get(session.id))?.scratchpads).toEqual({});
+    });
+
+    it("should not treat Object members as sections", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      const read = JSON.parse(
+        await readScratchpad(
+          { session_id: session.id, name: "constructor" },
+          context
+        )
+      );
+      expect(read.code).toBe("SCRATCHPAD_NOT_FOUND");
+
+      await appendScratchpad(
+        { session_id: session.id, name: "toString", content: "hi" },
+        context
+      );
+      expect((await store.get(session.id))?.scratchpads).toEqual({
+        toString: "hi",
+      });
+    });
+
+    it("should list sections with their sizes", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeScratchpad(
+        { session_id: session.id, name: "findings", content: "12345" },
+        context
+      );
+      await writeScratchpad(
+        { session_id: session.id, name: "blockers", content: "" },
+        context
+      );
+
+      const parsed = JSON.parse(
+        await listScratchpads({ session_id: session.id }, context)
+      );
+
+      expect(parsed.scratchpads).toEqual([
+        { name: "default", length: 0 },
+        { name: "blockers", length: 0 },
+        { name: "findings", length: 5 },
+      ]);
+    });
+
+    it("should return error for non-existent session when listing", async () => {
+      const result = await listScratchpads(
+        { session_id: "non-existent" },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("SESSION_NOT_FOUND");
+    });
+  });
+
+  describe("partial reads", () => {
+    const doc = [
+      "# Plan",
+      "intro",
+      "## Findings",
+      "finding 1",
+      "finding 2",
+      "### Details",
+      "detail",
+      "## Decisions",
+      "```",
+      "# not a heading",
+      "```",
+      "decision",
+    ].join("\n");
+
+    it("should read a section by heading, including subsections", async () => {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: doc });
+
+      const result = await readScratchpad(
+        { session_id: session.id, section: "findings" },
+        createContext()
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.content).toBe(
+        "## Findings\nfinding 1\nfinding 2\n### Details\ndetail"
+      );
+      expect(parsed.start_line).toBe(3);
+      expect(parsed.end_line).toBe(7);
+      expect(parsed.total_lines).toBe(12);
+      expect(parsed.total_length).toBe(doc.length);
+      expect(parsed.truncated).toBe(false);
+    });
+
+    it("should read a line window within a section", async () => {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: doc });
+
+      const result = await readScratchpad(
+        { session_id: session.id, section: "## Findings", offset: 1, limit: 2 },
+        createContext()
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.content).toBe("finding 1\nfinding 2");
+      expect(parsed.start_line).toBe(4);
+      expect(parsed.end_line).toBe(5);
+    });
+
+    it("should truncate to max_chars with a marker", async () => {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: "abcdefghij" });
+
+      const result = await readScratchpad(
+        { session_id: session.id, max_chars: 4 },
+        createContext()
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.content).toBe("abcd\n[... truncated 6 characters ...]");
+      expect(parsed.truncated).toBe(true);
+      expect(parsed.total_length).toBe(10);
+    });
+
+    it("should not report a window for full reads", async () => {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: doc });
+
+      const parsed = JSON.parse(
+        await readScratchpad({ session_id: session.id }, createContext())
+      );
+
+      expect(parsed.content).toBe(doc);
+      expect(parsed.start_line).toBeUndefined();
+      expect(parsed.truncated).toBeUndefined();
+    });
+
+    it("should return error for unknown section headings", async () => {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: doc });
+
+      const result = await readScratchpad(
+        { session_id: session.id, section: "not a heading" },
+        createContext()
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.error).toContain("Section not found");
+      expect(parsed.code).toBe("SECTION_NOT_FOUND");
+    });
+
+    it("should outline headings, ignoring fenced code", async () => {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: doc });
+
+      const result = await scratchpadOutline(
+        { session_id: session.id },
+        createContext()
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.name).toBe("default");
+      expect(parsed.total_lines).toBe(12);
+      expect(parsed.headings).toHaveLength(1);
+      const [plan] = parsed.headings;
+      expect(plan).toMatchObject({ title: "Plan", line: 1, end_line: 12 });
+      expect(plan.children.map((h: { title: string }) => h.title)).toEqual([
+        "Findings",
+        "Decisions",
+      ]);
+      expect(plan.children[0]).toMatchObject({ line: 3, end_line: 7 });
+      expect(plan.children[0].children[0].title).toBe("Details");
+    });
+
+    it("should return error for non-existent session when outlining", async () => {
+      const result = await scratchpadOutline(
+        { session_id: "non-existent" },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("SESSION_NOT_FOUND");
+    });
+  });
+
   describe("TONL format", () => {
     it("should output scratchpad in TONL format", async () => {
       const tonlEncoder = new ResponseEncoder("tonl");
@@ -191,5 +716,50 @@ Some details here`;
       expect(result).toContain("success: true");
       expect(result).toContain("message: Scratchpad updated successfully");
     });
+
+    it("should output named sections and the section list in TONL format", async () => {
+      const tonlEncoder = new ResponseEncoder("tonl");
+      const session = await store.create();
+      const context: ToolContext = { store, encoder: tonlEncoder };
+      await writeScratchpad(
+        { session_id: session.id, name: "findings", content: "Found it" },
+        context
+      );
+
+      const read = await readScratchpad(
+        { session_id: session.id, name: "findings" },
+        context
+      );
+      expect(read).toContain("{sessionId, name, contentLength, content}");
+      expect(read).toContain("name: findings");
+
+      const list = await listScratchpads({ session_id: session.id }, context);
+      expect(list).toContain("[2]{name, length}");
+      expect(list).toContain("findings");
+    });
+
+    it("should output partial reads and outlines in TONL format", async () => {
+      const tonlEncoder = new ResponseEncoder("tonl");
+      const session = await store.create();
+      await store.update(session.id, {
+        scratchpad: "# Plan\nintro\n## Findings\nfound",
+      });
+      const context: ToolContext = { store, encoder: tonlEncoder };
+
+      const read = await readScratchpad(
+        { session_id: session.id, section: "Findings" },
+        context
+      );
+      expect(read).toContain(
+        "{sessionId, contentLength, startLine, endLine, totalLines, totalLength, truncated, content}"
+      );
+      expect(read).toContain("startLine: 3");
+      expect(read).toContain("truncated: false");
+
+      const outline = await scratchpadOutline({ session_id: session.id }, context);
+      expect(outline).toContain("{sessionId, name, totalLines, headings}");
+      expect(outline).toContain("[2]{line, endLine, level, title}");
+      expect(outline).toMatch(/3\s+4\s+2\s+ {2}Findings/);
+    });
   });
 });
@@ -0,0 +1,300 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { InMemorySessionStore } from "../../storage/InMemorySessionStore.js";
+import { ResponseEncoder } from "../../utils/encoder.js";
+import { ToolContext } from "../../tools/session.js";
+import {
+  writeScratchpad,
+  appendScratchpad,
+  readScratchpad,
+} from "../../tools/scratchpad.js";
+import {
+  scratchpadHistory,
+  readScratchpadRevision,
+  diffScratchpad,
+  restoreScratchpad,
+} from "../../tools/scratchpadHistory.js";
+
+describe("scratchpad history tools", () => {
+  let store: InMemorySessionStore;
+  let encoder: ResponseEncoder;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore({ ttlHours: 1 });
+    encoder = new ResponseEncoder("json");
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+    delete process.env.SCRATCHPAD_HISTORY_LIMIT;
+  });
+
+  function createContext(userId?: string): ToolContext {
+    return { store, encoder, userId };
+  }
+
+  async function writeVersions(
+    sessionId: string,
+    context: ToolContext,
+    versions: string[],
+    name?: string
+  ) {
+    for (const content of versions) {
+      await writeScratchpad({ session_id: sessionId, name, content }, context);
+    }
+  }
+
+  describe("scratchpad_history", () => {
+    it("should record a revision for every change", async () => {
+      const session = await store.create("user-1");
+      const context = createContext("user-1");
+      await writeVersions(session.id, context, ["one", "one\ntwo"]);
+      await appendScratchpad(
+        { session_id: session.id, content: "three" },
+        context
+      );
+
+      const parsed = JSON.parse(
+        await scratchpadHistory({ session_id: session.id }, context)
+      );
+
+      expect(parsed.name).toBe("default");
+      expect(parsed.revisions.map((r: { revision: number }) => r.revision)).toEqual([
+        1, 2, 3,
+      ]);
+      expect(parsed.revisions[2].length).toBe("one\ntwo\nthree".length);
+      expect(parsed.revisions[0].author).toBe("user-1");
+      expect(parsed.revisions[0].created_at).toBeDefined();
+    });
+
+    it("should not record unchanged content", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeVersions(session.id, context, ["same", "same"]);
+
+      const parsed = JSON.parse(
+        await scratchpadHistory({ session_id: session.id }, context)
+      );
+
+      expect(parsed.revisions).toHaveLength(1);
+    });
+
+    it("should keep only the most recent revisions", async () => {
+      process.env.SCRATCHPAD_HISTORY_LIMIT = "3";
+      const session = await store.create();
+      const context = createContext();
+      await writeVersions(session.id, context, ["a", "b", "c", "d", "e"]);
+
+      const parsed = JSON.parse(
+        await scratchpadHistory({ session_id: session.id }, context)
+      );
+
+      expect(parsed.revisions.map((r: { revision: number }) => r.revision)).toEqual([
+        3, 4, 5,
+      ]);
+    });
+
+    it("should keep separate histories per section", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeVersions(session.id, context, ["main"]);
+      await writeVersions(session.id, context, ["f1", "f2"], "findings");
+
+      const findings = JSON.parse(
+        await scratchpadHistory(
+          { session_id: session.id, name: "findings" },
+          context
+        )
+      );
+      const main = JSON.parse(
+        await scratchpadHistory({ session_id: session.id }, context)
+      );
+
+      expect(findings.revisions).toHaveLength(2);
+      expect(main.revisions).toHaveLength(1);
+    });
+
+    it("should save content from before history as a first revision", async () => {
+      const session = await store.create();
+      await store.update(session.id, { scratchpad: "Legacy notes" });
+      const context = createContext();
+      await writeVersions(session.id, context, ["Overwritten"]);
+
+      const first = JSON.parse(
+        await readScratchpadRevision(
+          { session_id: session.id, revision: 1 },
+          context
+        )
+      );
+
+      expect(first.content).toBe("Legacy notes");
+    });
+
+    it("should return error for non-existent session", async () => {
+      const result = await scratchpadHistory(
+        { session_id: "non-existent" },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("SESSION_NOT_FOUND");
+    });
+  });
+
+  describe("read_scratchpad_revision", () => {
+    it("should read an earlier revision", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeVersions(session.id, context, ["first", "second"]);
+
+      const parsed = JSON.parse(
+        await readScratchpadRevision(
+          { session_id: session.id, revision: 1 },
+          context
+        )
+      );
+
+      expect(parsed.revision).toBe(1);
+      expect(parsed.content).toBe("first");
+    });
+
+    it("should return error for unknown revisions", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeVersions(session.id, context, ["first"]);
+
+      const parsed = JSON.parse(
+        await readScratchpadRevision(
+          { session_id: session.id, revision: 7 },
+          context
+        )
+      );
+
+      expect(parsed.code).toBe("REVISION_NOT_FOUND");
+    });
+  });
+
+  describe("diff_scratchpad", () => {
+    it("should diff two revisions", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeVersions(session.id, context, [
+        "# Plan\n- a\n- b",
+        "# Plan\n- a\n- B\n- c",
+      ]);
+
+      const parsed = JSON.parse(
+        await diffScratchpad(
+          { session_id: session.id, from_revision: 1, to_revision: 2 },
+          context
+        )
+      );
+
+      expect(parsed.changed).toBe(true);
+      expect(parsed.diff).toBe(
+        "@@ -1,3 +1,4 @@\n # Plan\n - a\n-- b\n+- B\n+- c"
+      );
+    });
+
+    it("should diff against the current content by default", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeVersions(session.id, context, ["same"]);
+
+      const parsed = JSON.parse(
+        await diffScratchpad(
+          { session_id: session.id, from_revision: 1 },
+          context
+        )
+      );
+
+      expect(parsed.to).toBe("current");
+      expect(parsed.changed).toBe(false);
+      expect(parsed.diff).toBe("");
+    });
+
+    it("should output diffs in TONL format", async () => {
+      const session = await store.create();
+      const context: ToolContext = {
+        store,
+        encoder: new ResponseEncoder("tonl"),
+      };
+      await writeVersions(session.id, context, ["old", "new"]);
+
+      const result = await diffScratchpad(
+        { session_id: session.id, from_revision: 1, to_revision: 2 },
+        context
+      );
+
+      expect(result).toContain("{sessionId, name, from, to, changed, diff}");
+      expect(result).toContain("-old\n+new");
+    });
+  });
+
+  describe("restore_scratchpad", () => {
+    it("should restore an earlier revision as a new revision", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeVersions(session.id, context, ["good", "oops"]);
+
+      const result = JSON.parse(
+        await restoreScratchpad(
+          { session_id: session.id, revision: 1 },
+          context
+        )
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.restored_revision).toBe(1);
+
+      const current = JSON.parse(
+        await readScratchpad({ session_id: session.id }, context)
+      );
+      expect(current.content).toBe("good");
+
+      const history = JSON.parse(
+        await scratchpadHistory({ session_id: session.id }, context)
+      );
+      expect(history.revisions).toHaveLength(3);
+    });
+
+    it("should restore named sections", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeVersions(session.id, context, ["v1", "v2"], "decisions");
+
+      await restoreScratchpad(
+        { session_id: session.id, name: "decisions", revision: 1 },
+        context
+      );
+
+      const updated = await store.get(session.id);
+      expect(updated?.scratchpads.decisions).toBe("v1");
+    });
+
+    it("should return error for unknown revisions without changing content", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeVersions(session.id, context, ["keep"]);
+
+      const parsed = JSON.parse(
+        await restoreScratchpad(
+          { session_id: session.id, revision: 5 },
+          context
+        )
+      );
+
+      expect(parsed.code).toBe("REVISION_NOT_FOUND");
+      expect((await store.get(session.id))?.scratchpad).toBe("keep");
+    });
+
+    it("should validate userId", async () => {
+      const session = await store.create("user-123");
+
+      const result = await restoreScratchpad(
+        { session_id: session.id, revision: 1 },
+        createContext("wrong-user")
+      );
+
+      expect(JSON.parse(result).code).toBe("USER_ID_MISMATCH");
+    });
+  });
+});
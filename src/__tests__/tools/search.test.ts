@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { InMemorySessionStore } from "../../storage/InMemorySessionStore.js";
+import { ResponseEncoder } from "../../utils/encoder.js";
+import { ToolContext } from "../../tools/session.js";
+import { addTodo } from "../../tools/todo.js";
+import { addTodoNote } from "../../tools/notes.js";
+import { writeScratchpad } from "../../tools/scratchpad.js";
+import { searchSession } from "../../tools/search.js";
+
+describe("search_session tool", () => {
+  let store: InMemorySessionStore;
+  let encoder: ResponseEncoder;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore({ ttlHours: 1 });
+    encoder = new ResponseEncoder("json");
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+  });
+
+  function createContext(userId?: string): ToolContext {
+    return { store, encoder, userId };
+  }
+
+  async function createSession(context: ToolContext) {
+    const session = await store.create(context.userId);
+    await writeScratchpad(
+      {
+        session_id: session.id,
+        content: "# Notes\nline 2\nUse Redis for sessions\nline 4\nline 5",
+      },
+      context
+    );
+    await writeScratchpad(
+      { session_id: session.id, name: "findings", content: "redis is fast" },
+      context
+    );
+    const todo = await addTodo(
+      {
+        session_id: session.id,
+        title: "Set up Redis",
+        description: "Docker compose\nwith a redis volume",
+      },
+      context
+    );
+    const todoId = JSON.parse(todo).id as string;
+    await addTodo({ session_id: session.id, title: "Write docs" }, context);
+    await addTodoNote(
+      { session_id: session.id, todo_id: todoId, text: "redis 7 works" },
+      context
+    );
+    return { sessionId: session.id, todoId };
+  }
+
+  it("should find scratchpad lines with context and todo fields", async () => {
+    const context = createContext();
+    const { sessionId, todoId } = await createSession(context);
+
+    const result = await searchSession(
+      { session_id: sessionId, query: "redis", context_lines: 1 },
+      context
+    );
+    const parsed = JSON.parse(result);
+
+    expect(parsed.match_count).toBe(5);
+    expect(parsed.truncated).toBe(false);
+    expect(parsed.scratchpad).toEqual([
+      {
+        name: "default",
+        line: 3,
+        text: "Use Redis for sessions",
+        before: ["line 2"],
+        after: ["line 4"],
+      },
+      {
+        name: "findings",
+        line: 1,
+        text: "redis is fast",
+        before: [],
+        after: [],
+      },
+    ]);
+    expect(parsed.todos).toEqual([
+      { todo_id: todoId, field: "title", text: "Set up Redis" },
+      { todo_id: todoId, field: "description", text: "with a redis volume" },
+      { todo_id: todoId, field: "note", text: "redis 7 works" },
+    ]);
+  });
+
+  it("should support case-sensitive, regex and scoped searches", async () => {
+    const context = createContext();
+    const { sessionId } = await createSession(context);
+
+    const caseSensitive = JSON.parse(
+      await searchSession(
+        { session_id: sessionId, query: "Redis", case_sensitive: true },
+        context
+      )
+    );
+    expect(caseSensitive.match_count).toBe(2);
+
+    const regex = JSON.parse(
+      await searchSession(
+        { session_id: sessionId, query: "^line \\d$", regex: true },
+        context
+      )
+    );
+    expect(regex.scratchpad.map((m: { line: number }) => m.line)).toEqual([
+      2, 4, 5,
+    ]);
+
+    const todosOnly = JSON.parse(
+      await searchSession(
+        { session_id: sessionId, query: "redis", scope: "todos" },
+        context
+      )
+    );
+    expect(todosOnly.scratchpad).toEqual([]);
+    expect(todosOnly.todos).toHaveLength(3);
+  });
+
+  it("should treat the query literally unless regex is set", async () => {
+    const context = createContext();
+    const { sessionId } = await createSession(context);
+
+    const result = await searchSession(
+      { session_id: sessionId, query: "line.*" },
+      context
+    );
+
+    expect(JSON.parse(result).match_count).toBe(0);
+  });
+
+  it("should stop at max_results and report truncation", async () => {
+    const context = createContext();
+    const { sessionId } = await createSession(context);
+
+    const result = await searchSession(
+      { session_id: sessionId, query: "redis", max_results: 2 },
+      context
+    );
+    const parsed = JSON.parse(result);
+
+    expect(parsed.match_count).toBe(2);
+    expect(parsed.truncated).toBe(true);
+  });
+
+  it("should reject invalid regular expressions", async () => {
+    const context = createContext();
+    const { sessionId } = await createSession(context);
+
+    const result = await searchSession(
+      { session_id: sessionId, query: "(unclosed", regex: true },
+      context
+    );
+
+    expect(JSON.parse(result).code).toBe("INVALID_INPUT");
+  });
+
+  it("should reject regular expressions that can backtrack catastrophically", async () => {
+    const context = createContext();
+    const { sessionId } = await createSession(context);
+    const unsafe = [
+      "(a+)+$",
+      "(.*)*x",
+      "((ab)*c)+",
+      "(?:x?y?)*z",
+      "(\\w{2,})+",
+      "(a|a)*$",
+      "(?:x|(y))+z",
+      "(a)\\1",
+      "a".repeat(201),
+    ];
+
+    for (const query of unsafe) {
+      const result = JSON.parse(
+        await searchSession({ session_id: sessionId, query, regex: true }, context)
+      );
+      expect(result.code).toBe("INVALID_INPUT");
+    }
+
+    // Repeated groups without inner quantifiers or alternatives, and literal
+    // text, are fine
+    for (const query of [
+      "(ab)+",
+      "[a+|b]+",
+      "\\(a+\\)+",
+      "(?<word>\\w+) x",
+      "(a|b) c+",
+    ]) {
+      const result = JSON.parse(
+        await searchSession({ session_id: sessionId, query, regex: true }, context)
+      );
+      expect(result.code).toBeUndefined();
+    }
+    const literal = JSON.parse(
+      await searchSession({ session_id: sessionId, query: "(a+)+$" }, context)
+    );
+    expect(literal.code).toBeUndefined();
+  });
+
+  it("should return error for non-existent session", async () => {
+    const result = await searchSession(
+      { session_id: "non-existent", query: "x" },
+      createContext()
+    );
+
+    expect(JSON.parse(result).code).toBe("SESSION_NOT_FOUND");
+  });
+
+  it("should validate userId for session with userId", async () => {
+    const { sessionId } = await createSession(createContext("user-123"));
+
+    const result = await searchSession(
+      { session_id: sessionId, query: "redis" },
+      createContext("other-user")
+    );
+
+    expect(JSON.parse(result).code).toBe("USER_ID_MISMATCH");
+  });
+
+  it("should output grep-style rows in TONL format", async () => {
+    const context = createContext();
+    const { sessionId, todoId } = await createSession(context);
+
+    const result = await searchSession(
+      { session_id: sessionId, query: "line [24]", regex: true },
+      { ...context, encoder: new ResponseEncoder("tonl") }
+    );
+
+    expect(result).toContain(
+      "{sessionId, query, matchCount, truncated, scratchpad, todos}"
+    );
+    expect(result).toContain("matchCount: 2");
+    // Overlapping context is shown once
+    expect(result).toContain("[5]{name, line, text}");
+    expect(result).toMatch(/default\s+2:\s+line 2/);
+    expect(result).toMatch(/default\s+3-\s+Use Redis for sessions/);
+    expect(result).toContain("[0]{todoId, field, text}");
+    expect(result).not.toContain(todoId);
+  });
+});
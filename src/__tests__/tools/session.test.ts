@@ -1,7 +1,20 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { InMemorySessionStore } from "../../storage/InMemorySessionStore.js";
 import { ResponseEncoder } from "../../utils/encoder.js";
-import { initSession, ToolContext } from "../../tools/session.js";
+import {
+  initSession,
+  listSessions,
+  deleteSession,
+  setSessionTitle,
+  closeSession,
+  extendSession,
+  forkSession,
+  ToolContext,
+} from "../../tools/session.js";
+import { addTodo, updateTodo, listTodos } from "../../tools/todo.js";
+import { readScratchpad, writeScratchpad } from "../../tools/scratchpad.js";
+import { setFact } from "../../tools/facts.js";
+import { DEFAULT_SESSION_LIMITS } from "../../utils/limits.js";
 
 describe("init_session tool", () => {
   let store: InMemorySessionStore;
@@ -63,6 +76,15 @@ describe("init_session tool", () => {
 
       expect(parsed.user_id).toBeUndefined();
     });
+
+    it("should store an optional title", async () => {
+      const context = createContext();
+      const result = await initSession({ title: "Refactor auth" }, context);
+      const parsed = JSON.parse(result);
+
+      expect(parsed.title).toBe("Refactor auth");
+      expect((await store.get(parsed.session_id))?.title).toBe("Refactor auth");
+    });
   });
 
   describe("TONL format", () => {
@@ -72,7 +94,7 @@ describe("init_session tool", () => {
 
       const result = await initSession({}, context);
 
-      expect(result).toContain("{id, userId, scratchpadLength, todoCount, createdAt, lastModified}");
+      expect(result).toContain("{id, userId, scratchpadLength, todoCount, createdAt, lastModified, expiresAt}");
       expect(result).toContain("userId: user-123");
       expect(result).toContain("scratchpadLength: 0");
       expect(result).toContain("todoCount: 0");
@@ -103,3 +125,455 @@ describe("init_session tool", () => {
     });
   });
 });
+
+describe("list_sessions tool", () => {
+  let store: InMemorySessionStore;
+  let encoder: ResponseEncoder;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore({ ttlHours: 1 });
+    encoder = new ResponseEncoder("json");
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+  });
+
+  function createContext(userId?: string): ToolContext {
+    return { store, encoder, userId };
+  }
+
+  it("should list only the caller's sessions with summaries", async () => {
+    const context = createContext("user-1");
+    const older = await store.create("user-1", { title: "Older" });
+    const newer = await store.create("user-1", { title: "Newer" });
+    await store.create("user-2");
+    await store.create();
+
+    const todo = JSON.parse(
+      await addTodo({ session_id: newer.id, title: "Step" }, context)
+    );
+    await addTodo({ session_id: newer.id, title: "Other" }, context);
+    await updateTodo(
+      { session_id: newer.id, todo_id: todo.id, status: "done" },
+      context
+    );
+    await writeScratchpad(
+      { session_id: newer.id, name: "notes", content: "12345" },
+      context
+    );
+
+    const parsed = JSON.parse(await listSessions({}, context));
+
+    expect(parsed.user_id).toBe("user-1");
+    expect(parsed.count).toBe(2);
+    expect(parsed.sessions.map((s: { session_id: string }) => s.session_id)).toEqual([
+      newer.id,
+      older.id,
+    ]);
+    expect(parsed.sessions[0]).toMatchObject({
+      title: "Newer",
+      todo_count: 2,
+      open_todo_count: 1,
+      scratchpad_length: 5,
+    });
+    expect(parsed.sessions[0].created_at).toBeDefined();
+    expect(parsed.sessions[0].last_modified).toBeDefined();
+  });
+
+  it("should drop deleted and expired sessions", async () => {
+    const shortTtlStore = new InMemorySessionStore({ ttlHours: 0.0001 });
+    const context: ToolContext = {
+      store: shortTtlStore,
+      encoder,
+      userId: "user-1",
+    };
+
+    const deleted = await shortTtlStore.create("user-1");
+    await shortTtlStore.create("user-1");
+    await shortTtlStore.delete(deleted.id, "user-1");
+    expect(JSON.parse(await listSessions({}, context)).count).toBe(1);
+
+    // Wait for expiration
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(JSON.parse(await listSessions({}, context)).count).toBe(0);
+    expect((await shortTtlStore.usage()).users).toBe(0);
+
+    shortTtlStore.stopCleanup();
+  });
+
+  it("should require X-User-ID", async () => {
+    const result = await listSessions({}, createContext());
+
+    expect(JSON.parse(result).code).toBe("USER_ID_REQUIRED");
+  });
+
+  it("should output sessions in TONL format", async () => {
+    await store.create("user-1", { title: "Refactor auth" });
+    const context: ToolContext = {
+      store,
+      encoder: new ResponseEncoder("tonl"),
+      userId: "user-1",
+    };
+
+    const result = await listSessions({}, context);
+
+    expect(result).toContain("sessionCount: 1");
+    expect(result).toContain(
+      "[1]{id, title, todos, open, scratchpadLength, createdAt, lastModified, closed}"
+    );
+    expect(result).toContain("Refactor auth");
+  });
+});
+
+describe("session management tools", () => {
+  let store: InMemorySessionStore;
+  let encoder: ResponseEncoder;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore({ ttlHours: 1 });
+    encoder = new ResponseEncoder("json");
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+  });
+
+  function createContext(userId?: string): ToolContext {
+    return { store, encoder, userId };
+  }
+
+  describe("delete_session", () => {
+    it("should delete the session", async () => {
+      const session = await store.create("user-1");
+      const context = createContext("user-1");
+
+      const result = JSON.parse(
+        await deleteSession({ session_id: session.id }, context)
+      );
+      expect(result.success).toBe(true);
+      expect(await store.get(session.id, "user-1")).toBeNull();
+
+      const again = JSON.parse(
+        await deleteSession({ session_id: session.id }, context)
+      );
+      expect(again.code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should validate userId", async () => {
+      const session = await store.create("user-1");
+
+      const result = JSON.parse(
+        await deleteSession({ session_id: session.id }, createContext("user-2"))
+      );
+
+      expect(result.code).toBe("USER_ID_MISMATCH");
+      expect(await store.get(session.id, "user-1")).not.toBeNull();
+    });
+  });
+
+  describe("set_session_title", () => {
+    it("should rename the session", async () => {
+      const session = await store.create(undefined, { title: "Old" });
+
+      const result = JSON.parse(
+        await setSessionTitle(
+          { session_id: session.id, title: "New" },
+          createContext()
+        )
+      );
+
+      expect(result.title).toBe("New");
+      expect((await store.get(session.id))?.title).toBe("New");
+    });
+
+    it("should return error for non-existent session", async () => {
+      const result = JSON.parse(
+        await setSessionTitle(
+          { session_id: "non-existent", title: "New" },
+          createContext()
+        )
+      );
+
+      expect(result.code).toBe("SESSION_NOT_FOUND");
+    });
+  });
+
+  describe("close_session", () => {
+    it("should make the session read-only", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await writeScratchpad(
+        { session_id: session.id, content: "Findings" },
+        context
+      );
+
+      const closed = JSON.parse(
+        await closeSession({ session_id: session.id }, context)
+      );
+      expect(closed.message).toBe("Session closed");
+      expect(closed.closed_at).toBeDefined();
+
+      const writes = [
+        await writeScratchpad({ session_id: session.id, content: "x" }, context),
+        await addTodo({ session_id: session.id, title: "Step" }, context),
+        await setFact({ session_id: session.id, key: "k", value: 1 }, context),
+        await setSessionTitle({ session_id: session.id, title: "T" }, context),
+      ];
+      for (const result of writes) {
+        expect(JSON.parse(result).code).toBe("SESSION_CLOSED");
+      }
+
+      // Reads still work
+      const scratchpad = JSON.parse(
+        await readScratchpad({ session_id: session.id }, context)
+      );
+      expect(scratchpad.content).toBe("Findings");
+      const todos = JSON.parse(
+        await listTodos({ session_id: session.id }, context)
+      );
+      expect(todos).toEqual([]);
+    });
+
+    it("should keep the original closing time when closed again", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      const first = JSON.parse(
+        await closeSession({ session_id: session.id }, context)
+      );
+      const second = JSON.parse(
+        await closeSession({ session_id: session.id }, context)
+      );
+
+      expect(second.success).toBe(true);
+      expect(second.message).toBe("Session already closed");
+      expect(second.closed_at).toBe(first.closed_at);
+    });
+
+    it("should allow deleting a closed session", async () => {
+      const session = await store.create("user-1");
+      const context = createContext("user-1");
+      await closeSession({ session_id: session.id }, context);
+
+      const listed = JSON.parse(await listSessions({}, context));
+      expect(listed.sessions[0].closed_at).toBeDefined();
+
+      const result = JSON.parse(
+        await deleteSession({ session_id: session.id }, context)
+      );
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("extend_session", () => {
+    const limits = { ...DEFAULT_SESSION_LIMITS, maxSessionTtlHours: 72 };
+
+    it("should create sessions with a TTL or pin", async () => {
+      const context: ToolContext = { store, encoder, limits };
+
+      const long = JSON.parse(await initSession({ ttl_hours: 48 }, context));
+      const hoursLeft =
+        (new Date(long.expires_at).getTime() - Date.now()) / (60 * 60 * 1000);
+      expect(hoursLeft).toBeGreaterThan(47);
+      expect(long.pinned).toBe(false);
+
+      const pinned = JSON.parse(await initSession({ pin: true }, context));
+      expect(pinned.expires_at).toBeNull();
+      expect(pinned.pinned).toBe(true);
+
+      const tooLong = JSON.parse(await initSession({ ttl_hours: 73 }, context));
+      expect(tooLong.code).toBe("QUOTA_EXCEEDED");
+    });
+
+    it("should extend, pin and unpin a session", async () => {
+      const session = await store.create();
+      const context: ToolContext = { store, encoder, limits };
+
+      const extended = JSON.parse(
+        await extendSession({ session_id: session.id, ttl_hours: 72 }, context)
+      );
+      expect(new Date(extended.expires_at).getTime()).toBeGreaterThan(
+        session.expiresAt!.getTime()
+      );
+
+      const pinned = JSON.parse(
+        await extendSession({ session_id: session.id, pin: true }, context)
+      );
+      expect(pinned.expires_at).toBeNull();
+
+      // Unpinning restarts the TTL set before
+      const unpinned = JSON.parse(
+        await extendSession({ session_id: session.id, pin: false }, context)
+      );
+      const hoursLeft =
+        (new Date(unpinned.expires_at).getTime() - Date.now()) /
+        (60 * 60 * 1000);
+      expect(hoursLeft).toBeGreaterThan(71);
+
+      const tooLong = JSON.parse(
+        await extendSession({ session_id: session.id, ttl_hours: 100 }, context)
+      );
+      expect(tooLong.code).toBe("QUOTA_EXCEEDED");
+    });
+
+    it("should extend closed sessions", async () => {
+      const session = await store.create("user-1");
+      const context = createContext("user-1");
+      await closeSession({ session_id: session.id }, context);
+
+      const result = JSON.parse(
+        await extendSession({ session_id: session.id, pin: true }, context)
+      );
+
+      expect(result.pinned).toBe(true);
+    });
+
+    it("should validate userId", async () => {
+      const session = await store.create("user-1");
+
+      const result = JSON.parse(
+        await extendSession({ session_id: session.id }, createContext("user-2"))
+      );
+
+      expect(result.code).toBe("USER_ID_MISMATCH");
+    });
+  });
+
+  describe("fork_session", () => {
+    it("should deep-copy scratchpads and todos into a new session", async () => {
+      const source = await store.create("user-1", { title: "Approach A" });
+      const context = createContext("user-1");
+      await writeScratchpad(
+        { session_id: source.id, content: "Plan" },
+        context
+      );
+      await writeScratchpad(
+        { session_id: source.id, name: "notes", content: "Notes" },
+        context
+      );
+      const todo = JSON.parse(
+        await addTodo({ session_id: source.id, title: "Step", tags: ["a"] }, context)
+      );
+
+      const fork = JSON.parse(
+        await forkSession({ session_id: source.id }, context)
+      );
+
+      expect(fork.session_id).not.toBe(source.id);
+      expect(fork.parent_session_id).toBe(source.id);
+      expect(fork.title).toBe("Approach A");
+      expect(fork.user_id).toBe("user-1");
+      expect(fork.scratchpad).toBe("Plan");
+      expect(fork.todos[0].id).toBe(todo.id);
+
+      // Changing the fork leaves the original untouched
+      await updateTodo(
+        {
+          session_id: fork.session_id,
+          todo_id: todo.id,
+          status: "done",
+          add_tags: ["b"],
+        },
+        context
+      );
+      const original = await store.get(source.id, "user-1");
+      expect(original?.todos[0].status).toBe("pending");
+      expect(original?.todos[0].tags).toEqual(["a"]);
+      expect((await store.get(fork.session_id, "user-1"))?.scratchpads).toEqual({
+        notes: "Notes",
+      });
+    });
+
+    it("should keep only open todos with pending_only", async () => {
+      const source = await store.create();
+      const context = createContext();
+      const done = JSON.parse(
+        await addTodo({ session_id: source.id, title: "Done" }, context)
+      );
+      const subtask = JSON.parse(
+        await addTodo(
+          { session_id: source.id, title: "Subtask", parent_id: done.id },
+          context
+        )
+      );
+      const next = JSON.parse(
+        await addTodo(
+          { session_id: source.id, title: "Next", depends_on: [done.id] },
+          context
+        )
+      );
+      await updateTodo(
+        { session_id: source.id, todo_id: done.id, status: "done" },
+        context
+      );
+
+      const fork = JSON.parse(
+        await forkSession(
+          { session_id: source.id, title: "Approach B", pending_only: true },
+          context
+        )
+      );
+
+      expect(fork.title).toBe("Approach B");
+      expect(fork.todos.map((t: { id: string }) => t.id)).toEqual([
+        subtask.id,
+        next.id,
+      ]);
+      const todos = (await store.get(fork.session_id))!.todos;
+      expect(todos[0].parentId).toBeUndefined();
+      expect(todos[1].dependsOn).toBeUndefined();
+    });
+
+    it("should fork closed sessions into open ones", async () => {
+      const source = await store.create();
+      const context = createContext();
+      await closeSession({ session_id: source.id }, context);
+
+      const fork = JSON.parse(
+        await forkSession({ session_id: source.id }, context)
+      );
+      const result = JSON.parse(
+        await addTodo({ session_id: fork.session_id, title: "Step" }, context)
+      );
+
+      expect(result.id).toBeDefined();
+    });
+
+    it("should check the copy against the limits before creating it", async () => {
+      const source = await store.create("user-1");
+      const context = createContext("user-1");
+      await writeScratchpad(
+        { session_id: source.id, content: "x".repeat(20) },
+        context
+      );
+      await addTodo({ session_id: source.id, title: "One" }, context);
+      await addTodo({ session_id: source.id, title: "Two" }, context);
+
+      const limited = [
+        { ...DEFAULT_SESSION_LIMITS, maxScratchpadLength: 10 },
+        { ...DEFAULT_SESSION_LIMITS, maxTodos: 1 },
+      ];
+      for (const limits of limited) {
+        const result = JSON.parse(
+          await forkSession({ session_id: source.id }, { ...context, limits })
+        );
+        expect(result.code).toBe("QUOTA_EXCEEDED");
+      }
+
+      // Nothing is left behind
+      expect(await store.count()).toBe(1);
+    });
+
+    it("should validate userId of the original", async () => {
+      const source = await store.create("user-1");
+
+      const result = JSON.parse(
+        await forkSession({ session_id: source.id }, createContext("user-2"))
+      );
+
+      expect(result.code).toBe("USER_ID_MISMATCH");
+      expect(await store.count()).toBe(1);
+    });
+  });
+});
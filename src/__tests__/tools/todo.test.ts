@@ -7,6 +7,8 @@ import {
   listTodos,
   updateTodo,
   deleteTodo,
+  nextTodos,
+  reorderTodos,
 } from "../../tools/todo.js";
 
 describe("todo tools", () => {
@@ -169,6 +171,31 @@ describe("todo tools", () => {
       expect(parsed[0].status).toBe("done");
     });
 
+    it("should filter by the extended statuses", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await setupTodos(session.id, context);
+      const todoId = (await store.get(session.id))!.todos[0].id;
+      await updateTodo(
+        { session_id: session.id, todo_id: todoId, status: "in_progress" },
+        context
+      );
+
+      const inProgress = JSON.parse(
+        await listTodos(
+          { session_id: session.id, filter: "in_progress" },
+          context
+        )
+      );
+      expect(inProgress.length).toBe(1);
+      expect(inProgress[0].id).toBe(todoId);
+
+      const open = JSON.parse(
+        await listTodos({ session_id: session.id, filter: "open" }, context)
+      );
+      expect(open.length).toBe(2);
+    });
+
     it("should default to all filter", async () => {
       const session = await store.create();
       const context = createContext();
@@ -201,6 +228,124 @@ describe("todo tools", () => {
     });
   });
 
+  describe("list_todos search filters", () => {
+    async function setupTagged(sessionId: string, context: ToolContext) {
+      await addTodo(
+        {
+          session_id: sessionId,
+          title: "Set up database",
+          description: "Postgres schema",
+          tags: ["backend", "infra"],
+        },
+        context
+      );
+      await addTodo(
+        { session_id: sessionId, title: "Build login form", tags: ["frontend"] },
+        context
+      );
+      await addTodo(
+        {
+          session_id: sessionId,
+          title: "Write API docs",
+          description: "Cover the login endpoint",
+          tags: ["backend", "docs"],
+        },
+        context
+      );
+    }
+
+    function titles(result: string): string[] {
+      return JSON.parse(result).map((t: { title: string }) => t.title);
+    }
+
+    it("should filter by any, all and excluded tags", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await setupTagged(session.id, context);
+
+      const any = await listTodos(
+        { session_id: session.id, tags_any: ["frontend", "docs"] },
+        context
+      );
+      expect(titles(any)).toEqual(["Build login form", "Write API docs"]);
+
+      const all = await listTodos(
+        { session_id: session.id, tags_all: ["backend", "infra"] },
+        context
+      );
+      expect(titles(all)).toEqual(["Set up database"]);
+
+      const excluded = await listTodos(
+        {
+          session_id: session.id,
+          tags_any: ["backend"],
+          exclude_tags: ["docs"],
+        },
+        context
+      );
+      expect(titles(excluded)).toEqual(["Set up database"]);
+    });
+
+    it("should match query case-insensitively in title and description", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await setupTagged(session.id, context);
+
+      const result = await listTodos(
+        { session_id: session.id, query: "LOGIN" },
+        context
+      );
+
+      expect(titles(result)).toEqual(["Build login form", "Write API docs"]);
+    });
+
+    it("should compose search filters with the status filter", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await setupTagged(session.id, context);
+      const docsId = (await store.get(session.id))!.todos[2].id;
+      await updateTodo(
+        { session_id: session.id, todo_id: docsId, status: "done" },
+        context
+      );
+
+      const result = await listTodos(
+        { session_id: session.id, filter: "pending", tags_any: ["backend"] },
+        context
+      );
+
+      expect(titles(result)).toEqual(["Set up database"]);
+    });
+
+    it("should filter by creation time", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await setupTagged(session.id, context);
+      await store.update(session.id, {
+        todos: (await store.get(session.id))!.todos.map((todo, i) => ({
+          ...todo,
+          createdAt: new Date(`2025-01-1${i + 1}T12:00:00Z`),
+        })),
+      });
+
+      const after = await listTodos(
+        { session_id: session.id, created_after: "2025-01-12" },
+        context
+      );
+      expect(titles(after)).toEqual(["Build login form", "Write API docs"]);
+
+      const between = await listTodos(
+        {
+          session_id: session.id,
+          created_after: "2025-01-12",
+          created_before: "2025-01-12T23:59:59Z",
+        },
+        context
+      );
+      expect(titles(between)).toEqual(["Build login form"]);
+    });
+  });
+
   describe("update_todo", () => {
     it("should update todo status to done", async () => {
       const session = await store.create();
@@ -244,6 +389,174 @@ describe("todo tools", () => {
       expect(updated?.todos[0].status).toBe("pending");
     });
 
+    it("should update title and description without changing ID", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const added = JSON.parse(
+        await addTodo(
+          { session_id: session.id, title: "Draft", description: "Old" },
+          context
+        )
+      );
+
+      const result = await updateTodo(
+        {
+          session_id: session.id,
+          todo_id: added.id,
+          title: "Refined",
+          description: "New description",
+        },
+        context
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.id).toBe(added.id);
+      expect(parsed.createdAt).toBe(added.createdAt);
+      expect(parsed.title).toBe("Refined");
+      expect(parsed.description).toBe("New description");
+      expect(parsed.status).toBe("pending");
+
+      const updated = await store.get(session.id);
+      expect(updated?.todos[0].title).toBe("Refined");
+    });
+
+    it("should replace, add and remove tags", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const added = JSON.parse(
+        await addTodo(
+          { session_id: session.id, title: "Tagged", tags: ["a", "b"] },
+          context
+        )
+      );
+
+      const adjusted = JSON.parse(
+        await updateTodo(
+          {
+            session_id: session.id,
+            todo_id: added.id,
+            add_tags: ["b", "c"],
+            remove_tags: ["a"],
+          },
+          context
+        )
+      );
+      expect(adjusted.tags).toEqual(["b", "c"]);
+
+      const replaced = JSON.parse(
+        await updateTodo(
+          {
+            session_id: session.id,
+            todo_id: added.id,
+            tags: ["x", "y"],
+            add_tags: ["z"],
+            remove_tags: ["y"],
+          },
+          context
+        )
+      );
+      expect(replaced.tags).toEqual(["x", "z"]);
+    });
+
+    it("should move through in_progress to done", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await addTodo({ session_id: session.id, title: "Test" }, context);
+      const todoId = (await store.get(session.id))!.todos[0].id;
+
+      const started = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: todoId, status: "in_progress" },
+          context
+        )
+      );
+      expect(started.status).toBe("in_progress");
+
+      const finished = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: todoId, status: "done" },
+          context
+        )
+      );
+      expect(finished.status).toBe("done");
+    });
+
+    it("should require a reason when blocking and clear it when unblocking", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await addTodo({ session_id: session.id, title: "Test" }, context);
+      const todoId = (await store.get(session.id))!.todos[0].id;
+
+      const missingReason = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: todoId, status: "blocked" },
+          context
+        )
+      );
+      expect(missingReason.code).toBe("INVALID_INPUT");
+
+      const blocked = JSON.parse(
+        await updateTodo(
+          {
+            session_id: session.id,
+            todo_id: todoId,
+            status: "blocked",
+            blocked_reason: "Waiting for API key",
+          },
+          context
+        )
+      );
+      expect(blocked.status).toBe("blocked");
+      expect(blocked.blockedReason).toBe("Waiting for API key");
+
+      const resumed = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: todoId, status: "in_progress" },
+          context
+        )
+      );
+      expect(resumed.status).toBe("in_progress");
+      expect(resumed.blockedReason).toBeUndefined();
+    });
+
+    it("should reject disallowed status transitions", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await addTodo({ session_id: session.id, title: "Test" }, context);
+      const todoId = (await store.get(session.id))!.todos[0].id;
+
+      await updateTodo(
+        { session_id: session.id, todo_id: todoId, status: "cancelled" },
+        context
+      );
+
+      const result = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: todoId, status: "done" },
+          context
+        )
+      );
+      expect(result.code).toBe("INVALID_STATUS_TRANSITION");
+
+      const updated = await store.get(session.id);
+      expect(updated?.todos[0].status).toBe("cancelled");
+    });
+
+    it("should return error when no changes are provided", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await addTodo({ session_id: session.id, title: "Test" }, context);
+      const todoId = (await store.get(session.id))!.todos[0].id;
+
+      const result = await updateTodo(
+        { session_id: session.id, todo_id: todoId },
+        context
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.code).toBe("INVALID_INPUT");
+    });
+
     it("should return error for non-existent todo", async () => {
       const session = await store.create();
       const context = createContext();
@@ -373,6 +686,757 @@ describe("todo tools", () => {
     });
   });
 
+  describe("subtasks", () => {
+    async function setupTree(sessionId: string, context: ToolContext) {
+      const parent = JSON.parse(
+        await addTodo({ session_id: sessionId, title: "Parent" }, context)
+      );
+      const child1 = JSON.parse(
+        await addTodo(
+          { session_id: sessionId, title: "Child 1", parent_id: parent.id },
+          context
+        )
+      );
+      const child2 = JSON.parse(
+        await addTodo(
+          { session_id: sessionId, title: "Child 2", parent_id: parent.id },
+          context
+        )
+      );
+      const grandchild = JSON.parse(
+        await addTodo(
+          { session_id: sessionId, title: "Grandchild", parent_id: child1.id },
+          context
+        )
+      );
+      return { parent, child1, child2, grandchild };
+    }
+
+    it("should add a subtask with parentId", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const { parent, child1 } = await setupTree(session.id, context);
+
+      expect(child1.parentId).toBe(parent.id);
+    });
+
+    it("should return error for non-existent parent", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      const result = await addTodo(
+        { session_id: session.id, title: "Orphan", parent_id: "missing" },
+        context
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.code).toBe("TODO_NOT_FOUND");
+    });
+
+    it("should list todos as a nested tree with rollup progress", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const { child2, grandchild } = await setupTree(session.id, context);
+
+      await updateTodo(
+        { session_id: session.id, todo_id: grandchild.id, status: "done" },
+        context
+      );
+      await updateTodo(
+        { session_id: session.id, todo_id: child2.id, status: "cancelled" },
+        context
+      );
+
+      const tree = JSON.parse(
+        await listTodos({ session_id: session.id, view: "tree" }, context)
+      );
+
+      expect(tree.length).toBe(1);
+      expect(tree[0].title).toBe("Parent");
+      expect(tree[0].progress).toBe(100);
+      expect(tree[0].subtasks.map((t: { title: string }) => t.title)).toEqual([
+        "Child 1",
+        "Child 2",
+      ]);
+      expect(tree[0].subtasks[0].progress).toBe(100);
+      expect(tree[0].subtasks[0].subtasks[0].title).toBe("Grandchild");
+    });
+
+    it("should include rollup progress in flat listings", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const { parent, child2 } = await setupTree(session.id, context);
+
+      await updateTodo(
+        { session_id: session.id, todo_id: child2.id, status: "done" },
+        context
+      );
+
+      const todos = JSON.parse(
+        await listTodos({ session_id: session.id }, context)
+      );
+      const listedParent = todos.find((t: { id: string }) => t.id === parent.id);
+
+      expect(todos.length).toBe(4);
+      expect(listedParent.progress).toBe(50);
+    });
+
+    it("should delete subtasks with their parent by default", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const { parent } = await setupTree(session.id, context);
+      await addTodo({ session_id: session.id, title: "Unrelated" }, context);
+
+      const result = JSON.parse(
+        await deleteTodo({ session_id: session.id, todo_id: parent.id }, context)
+      );
+
+      expect(result.deleted_subtasks).toBe(3);
+      const updated = await store.get(session.id);
+      expect(updated?.todos.map((t) => t.title)).toEqual(["Unrelated"]);
+    });
+
+    it("should move subtasks up when deleting without cascade", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const { parent, child1, grandchild } = await setupTree(
+        session.id,
+        context
+      );
+
+      await deleteTodo(
+        { session_id: session.id, todo_id: child1.id, cascade: false },
+        context
+      );
+
+      const updated = await store.get(session.id);
+      expect(updated?.todos.length).toBe(3);
+      expect(
+        updated?.todos.find((t) => t.id === grandchild.id)?.parentId
+      ).toBe(parent.id);
+    });
+
+    it("should indent subtasks in TONL tree view", async () => {
+      const tonlEncoder = new ResponseEncoder("tonl");
+      const session = await store.create();
+      const context: ToolContext = { store, encoder: tonlEncoder };
+      await setupTree(session.id, createContext());
+
+      const result = await listTodos(
+        { session_id: session.id, view: "tree" },
+        context
+      );
+
+      expect(result).toContain("[4]{id, title, status, tags, createdAt, progress}");
+      expect(result).toContain("   Parent ");
+      expect(result).toContain("     Child 1 ");
+      expect(result).toContain("       Grandchild ");
+      expect(result).toContain("0%");
+    });
+  });
+
+  describe("dependencies", () => {
+    async function addTask(
+      sessionId: string,
+      title: string,
+      dependsOn?: string[]
+    ) {
+      return JSON.parse(
+        await addTodo(
+          { session_id: sessionId, title, depends_on: dependsOn },
+          createContext()
+        )
+      );
+    }
+
+    it("should store prerequisites on add", async () => {
+      const session = await store.create();
+      const a = await addTask(session.id, "A");
+      const b = await addTask(session.id, "B", [a.id, a.id]);
+
+      expect(b.dependsOn).toEqual([a.id]);
+    });
+
+    it("should reject unknown prerequisites", async () => {
+      const session = await store.create();
+
+      const result = await addTask(session.id, "B", ["missing"]);
+
+      expect(result.code).toBe("INVALID_DEPENDENCY");
+      expect((await store.get(session.id))?.todos.length).toBe(0);
+    });
+
+    it("should reject dependency cycles on update", async () => {
+      const session = await store.create();
+      const a = await addTask(session.id, "A");
+      const b = await addTask(session.id, "B", [a.id]);
+      const c = await addTask(session.id, "C", [b.id]);
+
+      const cycle = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: a.id, depends_on: [c.id] },
+          createContext()
+        )
+      );
+      expect(cycle.code).toBe("DEPENDENCY_CYCLE");
+
+      const self = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: a.id, depends_on: [a.id] },
+          createContext()
+        )
+      );
+      expect(self.code).toBe("DEPENDENCY_CYCLE");
+    });
+
+    it("should not mark done while prerequisites are open", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const a = await addTask(session.id, "A");
+      const b = await addTask(session.id, "B", [a.id]);
+
+      const blocked = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: b.id, status: "done" },
+          context
+        )
+      );
+      expect(blocked.code).toBe("DEPENDENCIES_PENDING");
+
+      await updateTodo(
+        { session_id: session.id, todo_id: a.id, status: "done" },
+        context
+      );
+      const done = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: b.id, status: "done" },
+          context
+        )
+      );
+      expect(done.status).toBe("done");
+    });
+
+    it("should drop deleted todos from prerequisites", async () => {
+      const session = await store.create();
+      const a = await addTask(session.id, "A");
+      const b = await addTask(session.id, "B", [a.id]);
+
+      await deleteTodo(
+        { session_id: session.id, todo_id: a.id },
+        createContext()
+      );
+
+      const updated = await store.get(session.id);
+      expect(updated?.todos.find((t) => t.id === b.id)?.dependsOn).toEqual([]);
+    });
+
+    it("should list actionable todos with next_todos", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const a = await addTask(session.id, "A");
+      const b = await addTask(session.id, "B", [a.id]);
+      const c = await addTask(session.id, "C");
+      await addTask(session.id, "D", [b.id, c.id]);
+
+      const first = JSON.parse(
+        await nextTodos({ session_id: session.id }, context)
+      );
+      expect(first.map((t: { title: string }) => t.title)).toEqual(["A", "C"]);
+
+      await updateTodo(
+        { session_id: session.id, todo_id: a.id, status: "done" },
+        context
+      );
+      await updateTodo(
+        { session_id: session.id, todo_id: c.id, status: "cancelled" },
+        context
+      );
+
+      const second = JSON.parse(
+        await nextTodos({ session_id: session.id, limit: 1 }, context)
+      );
+      expect(second.map((t: { title: string }) => t.title)).toEqual(["B"]);
+    });
+
+    it("should return error for non-existent session in next_todos", async () => {
+      const result = JSON.parse(
+        await nextTodos({ session_id: "non-existent" }, createContext())
+      );
+
+      expect(result.code).toBe("SESSION_NOT_FOUND");
+    });
+  });
+
+  describe("priority and due dates", () => {
+    async function setupPlan(sessionId: string, context: ToolContext) {
+      await addTodo(
+        { session_id: sessionId, title: "Write docs", priority: "p2" },
+        context
+      );
+      await addTodo(
+        {
+          session_id: sessionId,
+          title: "Fix outage",
+          priority: "p0",
+          due_at: "2025-01-20",
+        },
+        context
+      );
+      await addTodo(
+        {
+          session_id: sessionId,
+          title: "Backlog idea",
+          due_at: "2025-01-19T08:00:00Z",
+        },
+        context
+      );
+    }
+
+    function titles(result: string): string[] {
+      return JSON.parse(result).map((t: { title: string }) => t.title);
+    }
+
+    it("should store priority and due date", async () => {
+      const session = await store.create();
+      const context = createContext();
+
+      const result = JSON.parse(
+        await addTodo(
+          {
+            session_id: session.id,
+            title: "Urgent",
+            priority: "p0",
+            due_at: "2025-01-20",
+          },
+          context
+        )
+      );
+
+      expect(result.priority).toBe("p0");
+      expect(result.dueAt).toBe("2025-01-20T00:00:00.000Z");
+    });
+
+    it("should update and clear priority and due date", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await setupPlan(session.id, context);
+      const todoId = (await store.get(session.id))!.todos[1].id;
+
+      const updated = JSON.parse(
+        await updateTodo(
+          {
+            session_id: session.id,
+            todo_id: todoId,
+            priority: "p1",
+            due_at: null,
+          },
+          context
+        )
+      );
+      expect(updated.priority).toBe("p1");
+      expect(updated.dueAt).toBeUndefined();
+
+      const cleared = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: todoId, priority: null },
+          context
+        )
+      );
+      expect(cleared.priority).toBeUndefined();
+    });
+
+    it("should sort by priority with unprioritized todos last", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await setupPlan(session.id, context);
+
+      const asc = await listTodos(
+        { session_id: session.id, sort_by: "priority" },
+        context
+      );
+      expect(titles(asc)).toEqual(["Fix outage", "Write docs", "Backlog idea"]);
+
+      const desc = await listTodos(
+        { session_id: session.id, sort_by: "priority", order: "desc" },
+        context
+      );
+      expect(titles(desc)).toEqual(["Write docs", "Fix outage", "Backlog idea"]);
+    });
+
+    it("should sort by due date and title", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await setupPlan(session.id, context);
+
+      const byDue = await listTodos(
+        { session_id: session.id, sort_by: "due" },
+        context
+      );
+      expect(titles(byDue)).toEqual(["Backlog idea", "Fix outage", "Write docs"]);
+
+      const byTitle = await listTodos(
+        { session_id: session.id, sort_by: "title", order: "desc" },
+        context
+      );
+      expect(titles(byTitle)).toEqual([
+        "Write docs",
+        "Fix outage",
+        "Backlog idea",
+      ]);
+    });
+
+    it("should order next_todos by priority", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await setupPlan(session.id, context);
+
+      const result = await nextTodos({ session_id: session.id }, context);
+
+      expect(titles(result)).toEqual(["Fix outage", "Write docs", "Backlog idea"]);
+    });
+
+    it("should render priority and due columns in TONL", async () => {
+      const tonlEncoder = new ResponseEncoder("tonl");
+      const session = await store.create();
+      const context: ToolContext = { store, encoder: tonlEncoder };
+      await setupPlan(session.id, createContext());
+
+      const result = await listTodos({ session_id: session.id }, context);
+
+      expect(result).toContain(
+        "[3]{id, title, status, tags, createdAt, priority, dueAt}"
+      );
+      expect(result).toContain("p0");
+      expect(result).toContain("2025-01-20");
+    });
+  });
+
+  describe("outcomes", () => {
+    it("should record outcome and completion time when marking done", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const todo = JSON.parse(
+        await addTodo({ session_id: session.id, title: "Research" }, context)
+      );
+
+      const parsed = JSON.parse(
+        await updateTodo(
+          {
+            session_id: session.id,
+            todo_id: todo.id,
+            status: "done",
+            outcome: "Found 3 relevant papers",
+          },
+          context
+        )
+      );
+
+      expect(parsed.outcome).toBe("Found 3 relevant papers");
+      expect(parsed.completedAt).toBeDefined();
+
+      const stored = (await store.get(session.id))!.todos[0];
+      expect(stored.completedAt).toBeInstanceOf(Date);
+    });
+
+    it("should record an error note on failed todos", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const todo = JSON.parse(
+        await addTodo({ session_id: session.id, title: "Fetch data" }, context)
+      );
+
+      const parsed = JSON.parse(
+        await updateTodo(
+          {
+            session_id: session.id,
+            todo_id: todo.id,
+            status: "cancelled",
+            error: "API returned 403",
+          },
+          context
+        )
+      );
+
+      expect(parsed.status).toBe("cancelled");
+      expect(parsed.error).toBe("API returned 403");
+      expect(parsed.completedAt).toBeDefined();
+    });
+
+    it("should clear completedAt when reopening and keep notes until cleared", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const todo = JSON.parse(
+        await addTodo({ session_id: session.id, title: "Draft" }, context)
+      );
+      await updateTodo(
+        {
+          session_id: session.id,
+          todo_id: todo.id,
+          status: "done",
+          outcome: "First draft",
+        },
+        context
+      );
+
+      const reopened = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: todo.id, status: "in_progress" },
+          context
+        )
+      );
+      expect(reopened.completedAt).toBeUndefined();
+      expect(reopened.outcome).toBe("First draft");
+
+      const cleared = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: todo.id, outcome: null },
+          context
+        )
+      );
+      expect(cleared.outcome).toBeUndefined();
+    });
+
+    it("should keep completedAt when only the outcome changes", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const todo = JSON.parse(
+        await addTodo({ session_id: session.id, title: "Summarize" }, context)
+      );
+      const done = JSON.parse(
+        await updateTodo(
+          { session_id: session.id, todo_id: todo.id, status: "done" },
+          context
+        )
+      );
+
+      const updated = JSON.parse(
+        await updateTodo(
+          {
+            session_id: session.id,
+            todo_id: todo.id,
+            outcome: "Summary in scratchpad",
+          },
+          context
+        )
+      );
+
+      expect(updated.completedAt).toBe(done.completedAt);
+    });
+
+    it("should show outcome columns in TONL lists when requested", async () => {
+      const session = await store.create();
+      const context: ToolContext = {
+        store,
+        encoder: new ResponseEncoder("tonl"),
+      };
+      await addTodo({ session_id: session.id, title: "Open" }, context);
+      await addTodo({ session_id: session.id, title: "Finished" }, context);
+      const finishedId = (await store.get(session.id))!.todos[1].id;
+      await updateTodo(
+        {
+          session_id: session.id,
+          todo_id: finishedId,
+          status: "done",
+          outcome: "Shipped",
+        },
+        context
+      );
+
+      const plain = await listTodos({ session_id: session.id }, context);
+      expect(plain).not.toContain("Shipped");
+
+      const log = await listTodos(
+        { session_id: session.id, include_outcome: true },
+        context
+      );
+      expect(log).toContain(
+        "[2]{id, title, status, tags, createdAt, completedAt, outcome}"
+      );
+      expect(log).toContain("Shipped");
+    });
+  });
+
+  describe("ordering", () => {
+    async function setupSteps(sessionId: string, context: ToolContext) {
+      const ids: string[] = [];
+      for (const title of ["Step A", "Step B", "Step C"]) {
+        ids.push(
+          JSON.parse(await addTodo({ session_id: sessionId, title }, context)).id
+        );
+      }
+      return ids;
+    }
+
+    async function listTitles(sessionId: string, context: ToolContext) {
+      const result = await listTodos({ session_id: sessionId }, context);
+      return JSON.parse(result).map((t: { title: string }) => t.title);
+    }
+
+    it("should append new todos at the end of the plan", async () => {
+      const session = await store.create();
+      const context = createContext();
+      await setupSteps(session.id, context);
+
+      const updated = await store.get(session.id);
+      expect(updated?.todos.map((t) => t.position)).toEqual([0, 1, 2]);
+    });
+
+    it("should move a todo before or after another", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const [a, , c] = await setupSteps(session.id, context);
+
+      await reorderTodos(
+        { session_id: session.id, todo_id: c, before_id: a },
+        context
+      );
+      expect(await listTitles(session.id, context)).toEqual([
+        "Step C",
+        "Step A",
+        "Step B",
+      ]);
+
+      const result = await reorderTodos(
+        { session_id: session.id, todo_id: c, after_id: a },
+        context
+      );
+      expect(
+        JSON.parse(result).map((t: { position: number }) => t.position)
+      ).toEqual([0, 1, 2]);
+      expect(await listTitles(session.id, context)).toEqual([
+        "Step A",
+        "Step C",
+        "Step B",
+      ]);
+    });
+
+    it("should apply a full ordering", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const [a, b, c] = await setupSteps(session.id, context);
+
+      await reorderTodos(
+        { session_id: session.id, ordered_ids: [b, c, a] },
+        context
+      );
+
+      expect(await listTitles(session.id, context)).toEqual([
+        "Step B",
+        "Step C",
+        "Step A",
+      ]);
+    });
+
+    it("should keep plan order over creation order unless sorted", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const [a, b, c] = await setupSteps(session.id, context);
+      await reorderTodos(
+        { session_id: session.id, ordered_ids: [c, b, a] },
+        context
+      );
+      await store.update(session.id, {
+        todos: (await store.get(session.id))!.todos.map((todo) => ({
+          ...todo,
+          createdAt: new Date(`2025-01-1${[a, b, c].indexOf(todo.id)}T12:00:00Z`),
+        })),
+      });
+
+      const created = await listTodos(
+        { session_id: session.id, sort_by: "created" },
+        context
+      );
+      expect(JSON.parse(created).map((t: { id: string }) => t.id)).toEqual([
+        a,
+        b,
+        c,
+      ]);
+
+      await addTodo({ session_id: session.id, title: "Step D" }, context);
+      expect(await listTitles(session.id, context)).toEqual([
+        "Step C",
+        "Step B",
+        "Step A",
+        "Step D",
+      ]);
+    });
+
+    it("should order subtasks among their siblings in tree view", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const parent = JSON.parse(
+        await addTodo({ session_id: session.id, title: "Parent" }, context)
+      );
+      const first = JSON.parse(
+        await addTodo(
+          { session_id: session.id, title: "First", parent_id: parent.id },
+          context
+        )
+      );
+      const second = JSON.parse(
+        await addTodo(
+          { session_id: session.id, title: "Second", parent_id: parent.id },
+          context
+        )
+      );
+
+      await reorderTodos(
+        { session_id: session.id, todo_id: second.id, before_id: first.id },
+        context
+      );
+      const tree = JSON.parse(
+        await listTodos({ session_id: session.id, view: "tree" }, context)
+      );
+
+      expect(
+        tree[0].subtasks.map((t: { title: string }) => t.title)
+      ).toEqual(["Second", "First"]);
+    });
+
+    it("should reject incomplete or invalid reorder requests", async () => {
+      const session = await store.create();
+      const context = createContext();
+      const [a, b] = await setupSteps(session.id, context);
+
+      const cases = [
+        { todo_id: a },
+        { todo_id: a, before_id: b, after_id: b },
+        { todo_id: a, before_id: a },
+        { ordered_ids: [a, b] },
+        { ordered_ids: [a, a, b] },
+        {},
+      ];
+      for (const changes of cases) {
+        const parsed = JSON.parse(
+          await reorderTodos({ session_id: session.id, ...changes }, context)
+        );
+        expect(parsed.code).toBe("INVALID_INPUT");
+      }
+
+      const unknown = JSON.parse(
+        await reorderTodos(
+          { session_id: session.id, todo_id: a, after_id: "missing" },
+          context
+        )
+      );
+      expect(unknown.code).toBe("TODO_NOT_FOUND");
+      expect(await listTitles(session.id, context)).toEqual([
+        "Step A",
+        "Step B",
+        "Step C",
+      ]);
+    });
+
+    it("should return error for non-existent session", async () => {
+      const result = await reorderTodos(
+        { session_id: "non-existent", ordered_ids: [] },
+        createContext()
+      );
+
+      expect(JSON.parse(result).code).toBe("SESSION_NOT_FOUND");
+    });
+  });
+
   describe("TONL format", () => {
     it("should output todo list in TONL format", async () => {
       const tonlEncoder = new ResponseEncoder("tonl");
@@ -411,5 +1475,26 @@ describe("todo tools", () => {
       expect(result).toContain("tags: [tag1,tag2]");
       expect(result).toContain("status: pending");
     });
+
+    it("should output updated todo in TONL format", async () => {
+      const tonlEncoder = new ResponseEncoder("tonl");
+      const session = await store.create();
+      const context: ToolContext = { store, encoder: tonlEncoder };
+      await addTodo({ session_id: session.id, title: "Before" }, context);
+      const todoId = (await store.get(session.id))!.todos[0].id;
+
+      const result = await updateTodo(
+        {
+          session_id: session.id,
+          todo_id: todoId,
+          title: "After",
+          add_tags: ["refined"],
+        },
+        context
+      );
+
+      expect(result).toContain("title: After");
+      expect(result).toContain("tags: [refined]");
+    });
   });
 });
@@ -7,10 +7,37 @@ import {
   getStorageType,
   StorageFactoryResult,
 } from "./storage/factory.js";
+import { parseExpiryPolicy } from "./storage/expiry.js";
+import { UserIdMismatchError } from "./storage/types.js";
 import { ResponseEncoder, getResponseFormat } from "./utils/encoder.js";
+import { getSessionLimits } from "./utils/limits.js";
+import { summarizeSession } from "./utils/sessions.js";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportSessionAs,
+} from "./utils/sessionExport.js";
 import {
   initSessionTool,
   InitSessionInputSchema,
+  listSessionsTool,
+  ListSessionsInputSchema,
+  deleteSessionTool,
+  DeleteSessionInputSchema,
+  setSessionTitleTool,
+  SetSessionTitleInputSchema,
+  closeSessionTool,
+  CloseSessionInputSchema,
+  extendSessionTool,
+  ExtendSessionInputSchema,
+  forkSessionTool,
+  ForkSessionInputSchema,
+  listChildSessionsTool,
+  ListChildSessionsInputSchema,
+  exportSessionTool,
+  ExportSessionInputSchema,
+  importSessionTool,
+  ImportSessionInputSchema,
   ToolContext,
 } from "./tools/session.js";
 import {
@@ -18,7 +45,25 @@ import {
   ReadScratchpadInputSchema,
   writeScratchpadTool,
   WriteScratchpadInputSchema,
+  appendScratchpadTool,
+  AppendScratchpadInputSchema,
+  patchScratchpadTool,
+  PatchScratchpadInputSchema,
+  listScratchpadsTool,
+  ListScratchpadsInputSchema,
+  scratchpadOutlineTool,
+  ScratchpadOutlineInputSchema,
 } from "./tools/scratchpad.js";
+import {
+  scratchpadHistoryTool,
+  ScratchpadHistoryInputSchema,
+  readScratchpadRevisionTool,
+  ReadScratchpadRevisionInputSchema,
+  diffScratchpadTool,
+  DiffScratchpadInputSchema,
+  restoreScratchpadTool,
+  RestoreScratchpadInputSchema,
+} from "./tools/scratchpadHistory.js";
 import {
   addTodoTool,
   AddTodoInputSchema,
@@ -28,14 +73,43 @@ import {
   UpdateTodoInputSchema,
   deleteTodoTool,
   DeleteTodoInputSchema,
+  nextTodosTool,
+  NextTodosInputSchema,
+  reorderTodosTool,
+  ReorderTodosInputSchema,
 } from "./tools/todo.js";
+import { batchTodosTool, BatchTodosInputSchema } from "./tools/batch.js";
+import {
+  addTodoNoteTool,
+  AddTodoNoteInputSchema,
+  listTodoNotesTool,
+  ListTodoNotesInputSchema,
+} from "./tools/notes.js";
+import {
+  searchSessionTool,
+  SearchSessionInputSchema,
+} from "./tools/search.js";
+import {
+  setFactTool,
+  SetFactInputSchema,
+  getFactTool,
+  GetFactInputSchema,
+  listFactsTool,
+  ListFactsInputSchema,
+  deleteFactTool,
+  DeleteFactInputSchema,
+} from "./tools/facts.js";
 
 // Configuration from environment
 const PORT = parseInt(process.env.PORT || "3000", 10);
 const HOST = process.env.HOST || "localhost";
 const SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS || "24", 10);
+const SESSION_EXPIRY_POLICY = parseExpiryPolicy(
+  process.env.SESSION_EXPIRY_POLICY
+);
 const NANOID_LENGTH = parseInt(process.env.NANOID_LENGTH || "21", 10);
 const STORAGE_TYPE = getStorageType();
+const LIMITS = getSessionLimits();
 
 // Keep-alive interval for SSE connections (30 seconds, well under the 60s client timeout)
 const KEEP_ALIVE_INTERVAL_MS = 30000;
@@ -46,6 +120,9 @@ let storage: StorageFactoryResult;
 // Initialize encoder
 const encoder = new ResponseEncoder();
 
+// HTTP endpoints other than /mcp always respond with JSON
+const jsonEncoder = new ResponseEncoder("json");
+
 /**
  * Extract X-User-ID header from request
  */
@@ -65,9 +142,66 @@ function createToolContext(req: IncomingMessage): ToolContext {
     store: storage.store,
     encoder: encoder,
     userId: extractUserId(req),
+    limits: LIMITS,
   };
 }
 
+/**
+ * Respond with a session export (GET /sessions/:id/export?format=md|json)
+ * The session must be accessible with the request's X-User-ID.
+ */
+async function handleExportRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  sessionId: string,
+  format: string
+): Promise<void> {
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(
+      jsonEncoder.encodeError(
+        `Unknown export format: ${format} (expected ${EXPORT_FORMATS.join(" or ")})`,
+        "INVALID_INPUT"
+      )
+    );
+    return;
+  }
+
+  try {
+    const session = await storage.store.get(sessionId, extractUserId(req));
+
+    if (!session) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(
+        jsonEncoder.encodeError(
+          `Session not found: ${sessionId}`,
+          "SESSION_NOT_FOUND"
+        )
+      );
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type":
+        format === "json" ? "application/json" : "text/markdown; charset=utf-8",
+      "Content-Disposition": `attachment; filename="session-${session.id}.${format}"`,
+    });
+    res.end(exportSessionAs(session, format as ExportFormat));
+  } catch (error) {
+    if (error instanceof UserIdMismatchError) {
+      res.writeHead(403, { "Content-Type": "application/json" });
+      res.end(
+        jsonEncoder.encodeError(
+          "User ID mismatch - access denied",
+          "USER_ID_MISMATCH"
+        )
+      );
+      return;
+    }
+    throw error;
+  }
+}
+
 // Store the current request for tool handlers
 let currentRequest: IncomingMessage | null = null;
 
@@ -95,6 +229,141 @@ function createMcpServer(): McpServer {
     }
   );
 
+  // Register list_sessions tool
+  server.tool(
+    listSessionsTool.name,
+    listSessionsTool.description,
+    ListSessionsInputSchema.shape,
+    async (params) => {
+      const validated = ListSessionsInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await listSessionsTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register delete_session tool
+  server.tool(
+    deleteSessionTool.name,
+    deleteSessionTool.description,
+    DeleteSessionInputSchema.shape,
+    async (params) => {
+      const validated = DeleteSessionInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await deleteSessionTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register set_session_title tool
+  server.tool(
+    setSessionTitleTool.name,
+    setSessionTitleTool.description,
+    SetSessionTitleInputSchema.shape,
+    async (params) => {
+      const validated = SetSessionTitleInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await setSessionTitleTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register close_session tool
+  server.tool(
+    closeSessionTool.name,
+    closeSessionTool.description,
+    CloseSessionInputSchema.shape,
+    async (params) => {
+      const validated = CloseSessionInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await closeSessionTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register extend_session tool
+  server.tool(
+    extendSessionTool.name,
+    extendSessionTool.description,
+    ExtendSessionInputSchema.shape,
+    async (params) => {
+      const validated = ExtendSessionInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await extendSessionTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register fork_session tool
+  server.tool(
+    forkSessionTool.name,
+    forkSessionTool.description,
+    ForkSessionInputSchema.shape,
+    async (params) => {
+      const validated = ForkSessionInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await forkSessionTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register list_child_sessions tool
+  server.tool(
+    listChildSessionsTool.name,
+    listChildSessionsTool.description,
+    ListChildSessionsInputSchema.shape,
+    async (params) => {
+      const validated = ListChildSessionsInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await listChildSessionsTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register export_session tool
+  server.tool(
+    exportSessionTool.name,
+    exportSessionTool.description,
+    ExportSessionInputSchema.shape,
+    async (params) => {
+      const validated = ExportSessionInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await exportSessionTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register import_session tool
+  server.tool(
+    importSessionTool.name,
+    importSessionTool.description,
+    ImportSessionInputSchema.shape,
+    async (params) => {
+      const validated = ImportSessionInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await importSessionTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
   // Register read_scratchpad tool
   server.tool(
     readScratchpadTool.name,
@@ -125,6 +394,126 @@ function createMcpServer(): McpServer {
     }
   );
 
+  // Register append_scratchpad tool
+  server.tool(
+    appendScratchpadTool.name,
+    appendScratchpadTool.description,
+    AppendScratchpadInputSchema.shape,
+    async (params) => {
+      const validated = AppendScratchpadInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await appendScratchpadTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register patch_scratchpad tool
+  server.tool(
+    patchScratchpadTool.name,
+    patchScratchpadTool.description,
+    PatchScratchpadInputSchema.shape,
+    async (params) => {
+      const validated = PatchScratchpadInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await patchScratchpadTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register list_scratchpads tool
+  server.tool(
+    listScratchpadsTool.name,
+    listScratchpadsTool.description,
+    ListScratchpadsInputSchema.shape,
+    async (params) => {
+      const validated = ListScratchpadsInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await listScratchpadsTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register scratchpad_outline tool
+  server.tool(
+    scratchpadOutlineTool.name,
+    scratchpadOutlineTool.description,
+    ScratchpadOutlineInputSchema.shape,
+    async (params) => {
+      const validated = ScratchpadOutlineInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await scratchpadOutlineTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register scratchpad_history tool
+  server.tool(
+    scratchpadHistoryTool.name,
+    scratchpadHistoryTool.description,
+    ScratchpadHistoryInputSchema.shape,
+    async (params) => {
+      const validated = ScratchpadHistoryInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await scratchpadHistoryTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register read_scratchpad_revision tool
+  server.tool(
+    readScratchpadRevisionTool.name,
+    readScratchpadRevisionTool.description,
+    ReadScratchpadRevisionInputSchema.shape,
+    async (params) => {
+      const validated = ReadScratchpadRevisionInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await readScratchpadRevisionTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register diff_scratchpad tool
+  server.tool(
+    diffScratchpadTool.name,
+    diffScratchpadTool.description,
+    DiffScratchpadInputSchema.shape,
+    async (params) => {
+      const validated = DiffScratchpadInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await diffScratchpadTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register restore_scratchpad tool
+  server.tool(
+    restoreScratchpadTool.name,
+    restoreScratchpadTool.description,
+    RestoreScratchpadInputSchema.shape,
+    async (params) => {
+      const validated = RestoreScratchpadInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await restoreScratchpadTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
   // Register add_todo tool
   server.tool(
     addTodoTool.name,
@@ -185,6 +574,156 @@ function createMcpServer(): McpServer {
     }
   );
 
+  // Register next_todos tool
+  server.tool(
+    nextTodosTool.name,
+    nextTodosTool.description,
+    NextTodosInputSchema.shape,
+    async (params) => {
+      const validated = NextTodosInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await nextTodosTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register reorder_todos tool
+  server.tool(
+    reorderTodosTool.name,
+    reorderTodosTool.description,
+    ReorderTodosInputSchema.shape,
+    async (params) => {
+      const validated = ReorderTodosInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await reorderTodosTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register batch_todos tool
+  server.tool(
+    batchTodosTool.name,
+    batchTodosTool.description,
+    BatchTodosInputSchema.shape,
+    async (params) => {
+      const validated = BatchTodosInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await batchTodosTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register add_todo_note tool
+  server.tool(
+    addTodoNoteTool.name,
+    addTodoNoteTool.description,
+    AddTodoNoteInputSchema.shape,
+    async (params) => {
+      const validated = AddTodoNoteInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await addTodoNoteTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register list_todo_notes tool
+  server.tool(
+    listTodoNotesTool.name,
+    listTodoNotesTool.description,
+    ListTodoNotesInputSchema.shape,
+    async (params) => {
+      const validated = ListTodoNotesInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await listTodoNotesTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register search_session tool
+  server.tool(
+    searchSessionTool.name,
+    searchSessionTool.description,
+    SearchSessionInputSchema.shape,
+    async (params) => {
+      const validated = SearchSessionInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await searchSessionTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register set_fact tool
+  server.tool(
+    setFactTool.name,
+    setFactTool.description,
+    SetFactInputSchema.shape,
+    async (params) => {
+      const validated = SetFactInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await setFactTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register get_fact tool
+  server.tool(
+    getFactTool.name,
+    getFactTool.description,
+    GetFactInputSchema.shape,
+    async (params) => {
+      const validated = GetFactInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await getFactTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register list_facts tool
+  server.tool(
+    listFactsTool.name,
+    listFactsTool.description,
+    ListFactsInputSchema.shape,
+    async (params) => {
+      const validated = ListFactsInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await listFactsTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
+  // Register delete_fact tool
+  server.tool(
+    deleteFactTool.name,
+    deleteFactTool.description,
+    DeleteFactInputSchema.shape,
+    async (params) => {
+      const validated = DeleteFactInputSchema.parse(params);
+      const context = createToolContext(currentRequest!);
+      const result = await deleteFactTool.handler(validated, context);
+      return {
+        content: [{ type: "text" as const, text: result }],
+      };
+    }
+  );
+
   return server;
 }
 
@@ -208,7 +747,7 @@ async function handleRequest(
 
   // Health check endpoint
   if (req.method === "GET" && req.url === "/health") {
-    const sessionCount = await storage.store.count();
+    const usage = await storage.store.usage();
     res.writeHead(200, { "Content-Type": "application/json" });
     res.end(
       JSON.stringify({
@@ -218,14 +757,87 @@ async function handleRequest(
           type: storage.type,
           connected: storage.isConnected(),
         },
-        sessions: sessionCount,
+        sessions: usage.sessions,
         format: getResponseFormat(),
         ttl_hours: SESSION_TTL_HOURS,
+        expiry_policy: SESSION_EXPIRY_POLICY,
+        usage: {
+          users: usage.users,
+          busiest_user_sessions: usage.busiestUserSessions,
+        },
+        limits: {
+          max_scratchpad_length: LIMITS.maxScratchpadLength,
+          max_todos_per_session: LIMITS.maxTodos,
+          max_tag_length: LIMITS.maxTagLength,
+          max_notes_per_todo: LIMITS.maxNotesPerTodo,
+          max_note_length: LIMITS.maxNoteLength,
+          max_facts_per_session: LIMITS.maxFacts,
+          max_fact_length: LIMITS.maxFactLength,
+          max_sessions_per_user: LIMITS.maxSessionsPerUser,
+          max_session_ttl_hours: LIMITS.maxSessionTtlHours,
+        },
       })
     );
     return;
   }
 
+  // Sessions of the caller's X-User-ID
+  if (
+    req.method === "GET" &&
+    req.url?.startsWith("/sessions") &&
+    new URL(req.url, "http://localhost").pathname === "/sessions"
+  ) {
+    const userId = extractUserId(req);
+
+    if (userId === undefined) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        jsonEncoder.encodeError(
+          "X-User-ID header is required",
+          "USER_ID_REQUIRED"
+        )
+      );
+      return;
+    }
+
+    const sessions = await storage.store.listByUser(userId);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      jsonEncoder.encodeSessionList(userId, sessions.map(summarizeSession))
+    );
+    return;
+  }
+
+  // Export of a session
+  if (req.method === "GET" && req.url?.startsWith("/sessions/")) {
+    const url = new URL(req.url, "http://localhost");
+    const match = /^\/sessions\/([^/]+)\/export$/.exec(url.pathname);
+
+    if (match) {
+      let sessionId: string;
+      try {
+        sessionId = decodeURIComponent(match[1]);
+      } catch {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          jsonEncoder.encodeError(
+            `Invalid session ID: ${match[1]}`,
+            "INVALID_INPUT"
+          )
+        );
+        return;
+      }
+
+      await handleExportRequest(
+        req,
+        res,
+        sessionId,
+        url.searchParams.get("format") ?? "md"
+      );
+      return;
+    }
+  }
+
   // MCP endpoint
   if (req.url === "/mcp" || req.url === "/") {
     let keepAliveInterval: NodeJS.Timeout | null = null;
@@ -344,22 +956,56 @@ async function main(): Promise<void> {
     console.log(`\n🚀 Ephemeral Scratchpad & Todo MCP Server`);
     console.log(`   Running at http://${HOST}:${PORT}`);
     console.log(`\n📡 Endpoints:`);
-    console.log(`   MCP:    http://${HOST}:${PORT}/mcp`);
-    console.log(`   Health: http://${HOST}:${PORT}/health`);
+    console.log(`   MCP:      http://${HOST}:${PORT}/mcp`);
+    console.log(`   Health:   http://${HOST}:${PORT}/health`);
+    console.log(`   Sessions: http://${HOST}:${PORT}/sessions (X-User-ID)`);
+    console.log(`   Export:   http://${HOST}:${PORT}/sessions/:id/export?format=md|json`);
     console.log(`\n⚙️  Configuration:`);
     console.log(`   Storage Type:    ${STORAGE_TYPE}`);
     console.log(`   Response Format: ${getResponseFormat()}`);
-    console.log(`   Session TTL:     ${SESSION_TTL_HOURS} hours`);
+    console.log(
+      `   Session TTL:     ${SESSION_TTL_HOURS} hours (${SESSION_EXPIRY_POLICY})`
+    );
     console.log(`   NanoID Length:   ${NANOID_LENGTH}`);
+    console.log(
+      `   Limits:          ${LIMITS.maxScratchpadLength} scratchpad chars, ${LIMITS.maxTodos} todos, ${LIMITS.maxTagLength} tag chars, ${LIMITS.maxNoteLength} note chars, ${LIMITS.maxFacts} facts, ${LIMITS.maxSessionsPerUser} sessions/user (0 = unlimited)`
+    );
     console.log(`   Keep-alive:      ${KEEP_ALIVE_INTERVAL_MS / 1000}s interval`);
     console.log(`\n🔧 Available Tools:`);
     console.log(`   - ${initSessionTool.name}`);
+    console.log(`   - ${listSessionsTool.name}`);
+    console.log(`   - ${deleteSessionTool.name}`);
+    console.log(`   - ${setSessionTitleTool.name}`);
+    console.log(`   - ${closeSessionTool.name}`);
+    console.log(`   - ${extendSessionTool.name}`);
+    console.log(`   - ${forkSessionTool.name}`);
+    console.log(`   - ${listChildSessionsTool.name}`);
+    console.log(`   - ${exportSessionTool.name}`);
+    console.log(`   - ${importSessionTool.name}`);
     console.log(`   - ${readScratchpadTool.name}`);
     console.log(`   - ${writeScratchpadTool.name}`);
+    console.log(`   - ${appendScratchpadTool.name}`);
+    console.log(`   - ${patchScratchpadTool.name}`);
+    console.log(`   - ${listScratchpadsTool.name}`);
+    console.log(`   - ${scratchpadOutlineTool.name}`);
+    console.log(`   - ${scratchpadHistoryTool.name}`);
+    console.log(`   - ${readScratchpadRevisionTool.name}`);
+    console.log(`   - ${diffScratchpadTool.name}`);
+    console.log(`   - ${restoreScratchpadTool.name}`);
     console.log(`   - ${addTodoTool.name}`);
     console.log(`   - ${listTodosTool.name}`);
     console.log(`   - ${updateTodoTool.name}`);
     console.log(`   - ${deleteTodoTool.name}`);
+    console.log(`   - ${nextTodosTool.name}`);
+    console.log(`   - ${reorderTodosTool.name}`);
+    console.log(`   - ${batchTodosTool.name}`);
+    console.log(`   - ${addTodoNoteTool.name}`);
+    console.log(`   - ${listTodoNotesTool.name}`);
+    console.log(`   - ${searchSessionTool.name}`);
+    console.log(`   - ${setFactTool.name}`);
+    console.log(`   - ${getFactTool.name}`);
+    console.log(`   - ${listFactsTool.name}`);
+    console.log(`   - ${deleteFactTool.name}`);
     console.log(`\n💡 Tip: Set X-User-ID header for session-user binding security`);
   });
 
@@ -3,8 +3,20 @@ import {
   Session,
   SessionStore,
   SessionNotFoundError,
+  SessionClosedError,
   UserIdMismatchError,
+  QuotaExceededError,
+  StoreUsage,
+  CreateSessionOptions,
+  SessionManagedField,
+  SessionExpiryOptions,
 } from "./types.js";
+import {
+  ExpiryPolicy,
+  ExpirySettings,
+  getExpiresAt,
+  isExpired,
+} from "./expiry.js";
 
 /**
  * Configuration for InMemorySessionStore
@@ -16,6 +28,18 @@ export interface InMemorySessionStoreConfig {
    */
   ttlHours?: number;
 
+  /**
+   * How activity affects expiry
+   * @default "sliding"
+   */
+  expiryPolicy?: ExpiryPolicy;
+
+  /**
+   * Longest lifetime in hours under the "capped" policy (0 = no cap)
+   * @default 0
+   */
+  maxLifetimeHours?: number;
+
   /**
    * Cleanup interval in milliseconds
    * @default 3600000 (1 hour)
@@ -27,27 +51,70 @@ export interface InMemorySessionStoreConfig {
    * @default 21
    */
   nanoidLength?: number;
+
+  /**
+   * Maximum live sessions per user ID (0 = unlimited)
+   * @default 0
+   */
+  maxSessionsPerUser?: number;
+}
+
+/**
+ * Add a session to an index entry (user or parent session)
+ */
+function addToIndex(
+  index: Map<string, Set<string>>,
+  key: string,
+  sessionId: string
+): void {
+  const ids = index.get(key) ?? new Set<string>();
+  ids.add(sessionId);
+  index.set(key, ids);
+}
+
+/**
+ * Remove a session from an index entry, dropping the entry once empty
+ */
+function removeFromIndex(
+  index: Map<string, Set<string>>,
+  key: string,
+  sessionId: string
+): void {
+  const ids = index.get(key);
+  ids?.delete(sessionId);
+  if (ids?.size === 0) {
+    index.delete(key);
+  }
 }
 
 /**
  * In-memory implementation of SessionStore
  * Features:
  * - NanoID generation with collision check
- * - Background TTL cleanup
+ * - Background TTL cleanup with a configurable expiry policy
+ * - Per-session TTL overrides and pinning
  * - Optional User ID validation
+ * - Per-user and per-parent session indexes
  */
 export class InMemorySessionStore implements SessionStore {
   private sessions: Map<string, Session> = new Map();
+  private userSessions: Map<string, Set<string>> = new Map();
+  private childSessions: Map<string, Set<string>> = new Map();
   private cleanupInterval: ReturnType<typeof setInterval> | null = null;
-  private readonly ttlMs: number;
+  private readonly expiry: ExpirySettings;
   private readonly cleanupIntervalMs: number;
   private readonly nanoidLength: number;
+  private readonly maxSessionsPerUser: number;
 
   constructor(config: InMemorySessionStoreConfig = {}) {
-    const ttlHours = config.ttlHours ?? 24;
-    this.ttlMs = ttlHours * 60 * 60 * 1000;
+    this.expiry = {
+      policy: config.expiryPolicy ?? "sliding",
+      ttlHours: config.ttlHours ?? 24,
+      maxLifetimeHours: config.maxLifetimeHours ?? 0,
+    };
     this.cleanupIntervalMs = config.cleanupIntervalMs ?? 60 * 60 * 1000; // 1 hour
     this.nanoidLength = config.nanoidLength ?? 21;
+    this.maxSessionsPerUser = config.maxSessionsPerUser ?? 0;
   }
 
   /**
@@ -86,28 +153,91 @@ export class InMemorySessionStore implements SessionStore {
   }
 
   /**
-   * Check if a session is expired
+   * Remove a session and its entries in the indexes
+   */
+  private removeSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    this.sessions.delete(sessionId);
+
+    if (session?.userId !== undefined) {
+      removeFromIndex(this.userSessions, session.userId, sessionId);
+    }
+    if (session?.parentSessionId !== undefined) {
+      removeFromIndex(this.childSessions, session.parentSessionId, sessionId);
+    }
+  }
+
+  /**
+   * Get the live sessions of a user, removing expired ones
    */
-  private isExpired(session: Session): boolean {
-    const now = Date.now();
-    const sessionAge = now - session.lastModified.getTime();
-    return sessionAge > this.ttlMs;
+  private getUserSessions(userId: string): Session[] {
+    return this.getIndexedSessions(this.userSessions, userId);
+  }
+
+  /**
+   * Get the live sessions of an index entry, removing expired ones
+   */
+  private getIndexedSessions(
+    index: Map<string, Set<string>>,
+    key: string
+  ): Session[] {
+    const live: Session[] = [];
+
+    for (const id of index.get(key) ?? []) {
+      const session = this.sessions.get(id);
+      if (session && !isExpired(session)) {
+        live.push(session);
+      } else {
+        this.removeSession(id);
+      }
+    }
+
+    return live;
   }
 
-  async create(userId?: string): Promise<Session> {
+  async create(
+    userId?: string,
+    options: CreateSessionOptions = {}
+  ): Promise<Session> {
+    if (userId !== undefined && this.maxSessionsPerUser > 0) {
+      const active = this.getUserSessions(userId).length;
+      if (active >= this.maxSessionsPerUser) {
+        throw new QuotaExceededError(
+          `User already has ${active} sessions, the limit is ${this.maxSessionsPerUser}`
+        );
+      }
+    }
+
     const id = await this.generateUniqueId();
     const now = new Date();
 
     const session: Session = {
       id,
       userId,
-      scratchpad: "",
-      todos: [],
+      title: options.title,
+      parentSessionId: options.parentSessionId,
+      parentTodoId: options.parentTodoId,
+      scratchpad: options.content?.scratchpad ?? "",
+      scratchpads: options.content?.scratchpads ?? {},
+      scratchpadHistory: options.content?.scratchpadHistory ?? [],
+      facts: options.content?.facts ?? {},
+      todos: options.content?.todos ?? [],
+      ttlHours: options.ttlHours,
+      pinned: options.pinned,
       createdAt: now,
       lastModified: now,
     };
+    session.expiresAt = getExpiresAt(session, "create", this.expiry);
 
     this.sessions.set(id, session);
+
+    if (userId !== undefined) {
+      addToIndex(this.userSessions, userId, id);
+    }
+    if (options.parentSessionId !== undefined) {
+      addToIndex(this.childSessions, options.parentSessionId, id);
+    }
+
     return session;
   }
 
@@ -119,8 +249,8 @@ export class InMemorySessionStore implements SessionStore {
     }
 
     // Check if expired
-    if (this.isExpired(session)) {
-      this.sessions.delete(sessionId);
+    if (isExpired(session)) {
+      this.removeSession(sessionId);
       return null;
     }
 
@@ -132,7 +262,7 @@ export class InMemorySessionStore implements SessionStore {
 
   async update(
     sessionId: string,
-    updates: Partial<Omit<Session, "id" | "createdAt">>,
+    updates: Partial<Omit<Session, "id" | "createdAt" | SessionManagedField>>,
     userId?: string
   ): Promise<void> {
     const session = await this.get(sessionId, userId);
@@ -141,16 +271,51 @@ export class InMemorySessionStore implements SessionStore {
       throw new SessionNotFoundError(sessionId);
     }
 
+    if (session.closedAt !== undefined) {
+      throw new SessionClosedError(sessionId);
+    }
+
     // Apply updates
     const updatedSession: Session = {
       ...session,
       ...updates,
       lastModified: new Date(),
     };
+    updatedSession.expiresAt = getExpiresAt(
+      updatedSession,
+      "update",
+      this.expiry
+    );
 
     this.sessions.set(sessionId, updatedSession);
   }
 
+  async extend(
+    sessionId: string,
+    options: SessionExpiryOptions,
+    userId?: string
+  ): Promise<Session> {
+    const session = await this.get(sessionId, userId);
+
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    const extendedSession: Session = {
+      ...session,
+      ttlHours: options.ttlHours ?? session.ttlHours,
+      pinned: options.pinned ?? session.pinned,
+    };
+    extendedSession.expiresAt = getExpiresAt(
+      extendedSession,
+      "extend",
+      this.expiry
+    );
+
+    this.sessions.set(sessionId, extendedSession);
+    return extendedSession;
+  }
+
   async delete(sessionId: string, userId?: string): Promise<void> {
     const session = await this.get(sessionId, userId);
 
@@ -158,7 +323,7 @@ export class InMemorySessionStore implements SessionStore {
       throw new SessionNotFoundError(sessionId);
     }
 
-    this.sessions.delete(sessionId);
+    this.removeSession(sessionId);
   }
 
   async exists(sessionId: string): Promise<boolean> {
@@ -168,8 +333,8 @@ export class InMemorySessionStore implements SessionStore {
     }
 
     // Also check expiration
-    if (this.isExpired(session)) {
-      this.sessions.delete(sessionId);
+    if (isExpired(session)) {
+      this.removeSession(sessionId);
       return false;
     }
 
@@ -180,12 +345,35 @@ export class InMemorySessionStore implements SessionStore {
     return this.sessions.size;
   }
 
+  async listByUser(userId: string): Promise<Session[]> {
+    return this.getUserSessions(userId).sort(
+      (a, b) => b.lastModified.getTime() - a.lastModified.getTime()
+    );
+  }
+
+  async listChildren(parentSessionId: string): Promise<Session[]> {
+    return this.getIndexedSessions(this.childSessions, parentSessionId).sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  async usage(): Promise<StoreUsage> {
+    const counts = [...this.userSessions.keys()]
+      .map((userId) => this.getUserSessions(userId).length)
+      .filter((count) => count > 0);
+    return {
+      sessions: this.sessions.size,
+      users: counts.length,
+      busiestUserSessions: Math.max(0, ...counts),
+    };
+  }
+
   async cleanup(): Promise<number> {
     let cleanedCount = 0;
 
     for (const [sessionId, session] of this.sessions.entries()) {
-      if (this.isExpired(session)) {
-        this.sessions.delete(sessionId);
+      if (isExpired(session)) {
+        this.removeSession(sessionId);
         cleanedCount++;
       }
     }
@@ -203,7 +391,7 @@ export class InMemorySessionStore implements SessionStore {
     }
 
     console.log(
-      `[SessionStore] Starting background cleanup (interval: ${this.cleanupIntervalMs}ms, TTL: ${this.ttlMs}ms)`
+      `[SessionStore] Starting background cleanup (interval: ${this.cleanupIntervalMs}ms, TTL: ${this.expiry.ttlHours}h, policy: ${this.expiry.policy})`
     );
 
     this.cleanupInterval = setInterval(() => {
@@ -229,5 +417,7 @@ export class InMemorySessionStore implements SessionStore {
    */
   async clear(): Promise<void> {
     this.sessions.clear();
+    this.userSessions.clear();
+    this.childSessions.clear();
   }
 }
@@ -4,8 +4,25 @@ import {
   Session,
   SessionStore,
   SessionNotFoundError,
+  SessionClosedError,
   UserIdMismatchError,
+  QuotaExceededError,
+  StoreUsage,
+  CreateSessionOptions,
+  SessionManagedField,
+  SessionExpiryOptions,
 } from "./types.js";
+import {
+  ExpiryPolicy,
+  ExpirySettings,
+  getExpiresAt,
+  isExpired,
+} from "./expiry.js";
+import {
+  SerializedSession,
+  toSerializedSession,
+  fromSerializedSession,
+} from "./serialization.js";
 
 /**
  * Configuration for RedisSessionStore
@@ -34,6 +51,18 @@ export interface RedisSessionStoreConfig {
    */
   ttlHours?: number;
 
+  /**
+   * How activity affects expiry
+   * @default "sliding"
+   */
+  expiryPolicy?: ExpiryPolicy;
+
+  /**
+   * Longest lifetime in hours under the "capped" policy (0 = no cap)
+   * @default 0
+   */
+  maxLifetimeHours?: number;
+
   /**
    * Key prefix for Redis keys
    * @default "mcp:session:"
@@ -45,51 +74,64 @@ export interface RedisSessionStoreConfig {
    * @default 21
    */
   nanoidLength?: number;
-}
 
-/**
- * Serializable session format for Redis storage
- */
-interface SerializedSession {
-  id: string;
-  userId?: string;
-  scratchpad: string;
-  todos: Array<{
-    id: string;
-    title: string;
-    description: string;
-    tags: string[];
-    status: string;
-    createdAt: string;
-  }>;
-  createdAt: string;
-  lastModified: string;
+  /**
+   * Key prefix for the per-user session indexes (sorted sets of session IDs
+   * scored by expiry time). Must not start with keyPrefix.
+   * @default "mcp:user-sessions:"
+   */
+  userIndexPrefix?: string;
+
+  /**
+   * Key prefix for the per-parent indexes of child sessions (sorted sets
+   * like the user indexes). Must not start with keyPrefix.
+   * @default "mcp:session-children:"
+   */
+  childIndexPrefix?: string;
+
+  /**
+   * Maximum live sessions per user ID (0 = unlimited)
+   * @default 0
+   */
+  maxSessionsPerUser?: number;
 }
 
 /**
  * Redis implementation of SessionStore
  * Features:
- * - Native Redis TTL (no background cleanup needed)
+ * - Native Redis TTL (no background cleanup needed), set from the
+ *   session's expiry time under the configured expiry policy
+ * - Per-session TTL overrides and pinning (keys without expiry)
  * - JSON serialization for session data
  * - Key prefix for namespacing
  * - NanoID collision check via EXISTS
  */
 export class RedisSessionStore implements SessionStore {
   private client: Redis;
-  private readonly ttlSeconds: number;
+  private readonly expiry: ExpirySettings;
   private readonly keyPrefix: string;
   private readonly nanoidLength: number;
+  private readonly userIndexPrefix: string;
+  private readonly childIndexPrefix: string;
+  private readonly maxSessionsPerUser: number;
   private isConnected: boolean = false;
 
   constructor(config: RedisSessionStoreConfig = {}) {
     const host = config.host ?? "localhost";
     const port = config.port ?? 6379;
     const password = config.password;
-    const ttlHours = config.ttlHours ?? 24;
 
-    this.ttlSeconds = ttlHours * 60 * 60;
+    this.expiry = {
+      policy: config.expiryPolicy ?? "sliding",
+      ttlHours: config.ttlHours ?? 24,
+      maxLifetimeHours: config.maxLifetimeHours ?? 0,
+    };
     this.keyPrefix = config.keyPrefix ?? "mcp:session:";
     this.nanoidLength = config.nanoidLength ?? 21;
+    this.userIndexPrefix = config.userIndexPrefix ?? "mcp:user-sessions:";
+    this.childIndexPrefix =
+      config.childIndexPrefix ?? "mcp:session-children:";
+    this.maxSessionsPerUser = config.maxSessionsPerUser ?? 0;
 
     this.client = new Redis({
       host,
@@ -152,6 +194,112 @@ export class RedisSessionStore implements SessionStore {
     return `${this.keyPrefix}${sessionId}`;
   }
 
+  /**
+   * Get the Redis key of a user's session index
+   */
+  private getUserIndexKey(userId: string): string {
+    return `${this.userIndexPrefix}${userId}`;
+  }
+
+  /**
+   * Get the Redis key of a session's index of child sessions
+   */
+  private getChildIndexKey(parentSessionId: string): string {
+    return `${this.childIndexPrefix}${parentSessionId}`;
+  }
+
+  /**
+   * Get the keys of the indexes a session belongs to
+   */
+  private getIndexKeys(session: Session): string[] {
+    const keys: string[] = [];
+    if (session.userId !== undefined) {
+      keys.push(this.getUserIndexKey(session.userId));
+    }
+    if (session.parentSessionId !== undefined) {
+      keys.push(this.getChildIndexKey(session.parentSessionId));
+    }
+    return keys;
+  }
+
+  /**
+   * Get the remaining TTL in whole seconds (at least 1, as SETEX requires)
+   */
+  private secondsUntil(expiresAt: Date): number {
+    return Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / 1000));
+  }
+
+  /**
+   * Store a session, expiring the key at the session's expiry time
+   */
+  private async writeSession(session: Session): Promise<void> {
+    const key = this.getKey(session.id);
+    const data = this.serializeSession(session);
+
+    if (session.expiresAt === undefined) {
+      // SET without expiry also clears a previous TTL
+      await this.client.set(key, data);
+    } else {
+      // SETEX sets value with TTL in one atomic operation
+      await this.client.setex(key, this.secondsUntil(session.expiresAt), data);
+    }
+  }
+
+  /**
+   * Add or re-score a session in its user and parent indexes. The score is
+   * the expiry time, and an index lives as long as its longest-lived session.
+   */
+  private async indexSession(session: Session): Promise<void> {
+    for (const indexKey of this.getIndexKeys(session)) {
+      const remaining = await this.client.ttl(indexKey); // -1: no expiry
+      await this.client.zadd(
+        indexKey,
+        session.expiresAt?.getTime() ?? "+inf",
+        session.id
+      );
+
+      if (session.expiresAt === undefined) {
+        await this.client.persist(indexKey);
+      } else if (remaining !== -1) {
+        const seconds = this.secondsUntil(session.expiresAt);
+        if (seconds > remaining) {
+          await this.client.expire(indexKey, seconds);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the live sessions of an index, dropping expired and missing ones
+   */
+  private async getIndexedSessions(indexKey: string): Promise<Session[]> {
+    await this.client.zremrangebyscore(indexKey, "-inf", Date.now());
+    const ids = await this.client.zrange(indexKey, 0, -1);
+
+    const sessions: Session[] = [];
+    for (const id of ids) {
+      const data = await this.client.get(this.getKey(id));
+      const session = data ? this.deserializeSession(data) : null;
+      if (session && !isExpired(session)) {
+        sessions.push(session);
+      } else {
+        // Deleted or expired without going through this store
+        await this.client.zrem(indexKey, id);
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Count a user's live sessions, dropping expired ones from the index
+   */
+  private async countUserSessions(userId: string): Promise<number> {
+    const indexKey = this.getUserIndexKey(userId);
+    await this.client.zremrangebyscore(indexKey, "-inf", Date.now());
+    return this.client.zcard(indexKey);
+  }
+
   /**
    * Generate a unique NanoID with collision check
    */
@@ -178,22 +326,7 @@ export class RedisSessionStore implements SessionStore {
    * Serialize a session for Redis storage
    */
   private serializeSession(session: Session): string {
-    const serialized: SerializedSession = {
-      id: session.id,
-      userId: session.userId,
-      scratchpad: session.scratchpad,
-      todos: session.todos.map((todo) => ({
-        id: todo.id,
-        title: todo.title,
-        description: todo.description,
-        tags: todo.tags,
-        status: todo.status,
-        createdAt: todo.createdAt.toISOString(),
-      })),
-      createdAt: session.createdAt.toISOString(),
-      lastModified: session.lastModified.toISOString(),
-    };
-    return JSON.stringify(serialized);
+    return JSON.stringify(toSerializedSession(session));
   }
 
   /**
@@ -201,21 +334,23 @@ export class RedisSessionStore implements SessionStore {
    */
   private deserializeSession(data: string): Session {
     const serialized: SerializedSession = JSON.parse(data);
-    return {
-      id: serialized.id,
-      userId: serialized.userId,
-      scratchpad: serialized.scratchpad,
-      todos: serialized.todos.map((todo) => ({
-        id: todo.id,
-        title: todo.title,
-        description: todo.description,
-        tags: todo.tags,
-        status: todo.status as "pending" | "done",
-        createdAt: new Date(todo.createdAt),
-      })),
-      createdAt: new Date(serialized.createdAt),
-      lastModified: new Date(serialized.lastModified),
-    };
+    const session = fromSerializedSession(serialized);
+    session.expiresAt ??= this.getLegacyExpiresAt(serialized);
+    return session;
+  }
+
+  /**
+   * Estimate the expiry of a session stored before TTL overrides, which
+   * expired one default TTL after creation
+   */
+  private getLegacyExpiresAt(serialized: SerializedSession): Date | undefined {
+    if (serialized.pinned) {
+      return undefined;
+    }
+    return new Date(
+      new Date(serialized.createdAt).getTime() +
+        this.expiry.ttlHours * 60 * 60 * 1000
+    );
   }
 
   /**
@@ -229,24 +364,42 @@ export class RedisSessionStore implements SessionStore {
     }
   }
 
-  async create(userId?: string): Promise<Session> {
+  async create(
+    userId?: string,
+    options: CreateSessionOptions = {}
+  ): Promise<Session> {
+    if (userId !== undefined && this.maxSessionsPerUser > 0) {
+      const active = await this.countUserSessions(userId);
+      if (active >= this.maxSessionsPerUser) {
+        throw new QuotaExceededError(
+          `User already has ${active} sessions, the limit is ${this.maxSessionsPerUser}`
+        );
+      }
+    }
+
     const id = await this.generateUniqueId();
     const now = new Date();
 
     const session: Session = {
       id,
       userId,
-      scratchpad: "",
-      todos: [],
+      title: options.title,
+      parentSessionId: options.parentSessionId,
+      parentTodoId: options.parentTodoId,
+      scratchpad: options.content?.scratchpad ?? "",
+      scratchpads: options.content?.scratchpads ?? {},
+      scratchpadHistory: options.content?.scratchpadHistory ?? [],
+      facts: options.content?.facts ?? {},
+      todos: options.content?.todos ?? [],
+      ttlHours: options.ttlHours,
+      pinned: options.pinned,
       createdAt: now,
       lastModified: now,
     };
+    session.expiresAt = getExpiresAt(session, "create", this.expiry);
 
-    const key = this.getKey(id);
-    const data = this.serializeSession(session);
-
-    // SETEX sets value with TTL in one atomic operation
-    await this.client.setex(key, this.ttlSeconds, data);
+    await this.writeSession(session);
+    await this.indexSession(session);
 
     return session;
   }
@@ -261,6 +414,12 @@ export class RedisSessionStore implements SessionStore {
 
     const session = this.deserializeSession(data);
 
+    // Key TTLs are rounded up to whole seconds, so the key can briefly
+    // outlive the session
+    if (isExpired(session)) {
+      return null;
+    }
+
     // Validate user ID
     this.validateUserId(session, userId);
 
@@ -269,7 +428,7 @@ export class RedisSessionStore implements SessionStore {
 
   async update(
     sessionId: string,
-    updates: Partial<Omit<Session, "id" | "createdAt">>,
+    updates: Partial<Omit<Session, "id" | "createdAt" | SessionManagedField>>,
     userId?: string
   ): Promise<void> {
     const session = await this.get(sessionId, userId);
@@ -278,21 +437,56 @@ export class RedisSessionStore implements SessionStore {
       throw new SessionNotFoundError(sessionId);
     }
 
+    if (session.closedAt !== undefined) {
+      throw new SessionClosedError(sessionId);
+    }
+
     // Apply updates
     const updatedSession: Session = {
       ...session,
       ...updates,
       lastModified: new Date(),
     };
+    updatedSession.expiresAt = getExpiresAt(
+      updatedSession,
+      "update",
+      this.expiry
+    );
 
-    const key = this.getKey(sessionId);
-    const data = this.serializeSession(updatedSession);
+    await this.writeSession(updatedSession);
+
+    // Keep the index scores in step with the key's TTL
+    if (updatedSession.expiresAt?.getTime() !== session.expiresAt?.getTime()) {
+      await this.indexSession(updatedSession);
+    }
+  }
 
-    // Get remaining TTL and set with updated data
-    const ttl = await this.client.ttl(key);
-    const newTtl = ttl > 0 ? ttl : this.ttlSeconds;
+  async extend(
+    sessionId: string,
+    options: SessionExpiryOptions,
+    userId?: string
+  ): Promise<Session> {
+    const session = await this.get(sessionId, userId);
+
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
 
-    await this.client.setex(key, newTtl, data);
+    const extendedSession: Session = {
+      ...session,
+      ttlHours: options.ttlHours ?? session.ttlHours,
+      pinned: options.pinned ?? session.pinned,
+    };
+    extendedSession.expiresAt = getExpiresAt(
+      extendedSession,
+      "extend",
+      this.expiry
+    );
+
+    await this.writeSession(extendedSession);
+    await this.indexSession(extendedSession);
+
+    return extendedSession;
   }
 
   async delete(sessionId: string, userId?: string): Promise<void> {
@@ -304,6 +498,10 @@ export class RedisSessionStore implements SessionStore {
 
     const key = this.getKey(sessionId);
     await this.client.del(key);
+
+    for (const indexKey of this.getIndexKeys(session)) {
+      await this.client.zrem(indexKey, sessionId);
+    }
   }
 
   async exists(sessionId: string): Promise<boolean> {
@@ -318,6 +516,40 @@ export class RedisSessionStore implements SessionStore {
     return keys.length;
   }
 
+  async listByUser(userId: string): Promise<Session[]> {
+    const sessions = await this.getIndexedSessions(
+      this.getUserIndexKey(userId)
+    );
+    return sessions.sort(
+      (a, b) => b.lastModified.getTime() - a.lastModified.getTime()
+    );
+  }
+
+  async listChildren(parentSessionId: string): Promise<Session[]> {
+    const sessions = await this.getIndexedSessions(
+      this.getChildIndexKey(parentSessionId)
+    );
+    return sessions.sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  async usage(): Promise<StoreUsage> {
+    const indexKeys = await this.client.keys(`${this.userIndexPrefix}*`);
+    const counts = await Promise.all(
+      indexKeys.map((indexKey) =>
+        this.countUserSessions(indexKey.slice(this.userIndexPrefix.length))
+      )
+    );
+    const active = counts.filter((count) => count > 0);
+
+    return {
+      sessions: await this.count(),
+      users: active.length,
+      busiestUserSessions: Math.max(0, ...active),
+    };
+  }
+
   /**
    * Cleanup is handled automatically by Redis TTL
    * This method is a no-op for Redis but kept for interface compatibility
@@ -334,7 +566,7 @@ export class RedisSessionStore implements SessionStore {
    */
   startCleanup(): void {
     console.log(
-      `[RedisSessionStore] Using native Redis TTL (${this.ttlSeconds}s) - no background cleanup needed`
+      `[RedisSessionStore] Using native Redis TTL (${this.expiry.ttlHours}h, policy: ${this.expiry.policy}) - no background cleanup needed`
     );
   }
 
@@ -350,8 +582,11 @@ export class RedisSessionStore implements SessionStore {
    * Clear all sessions (useful for testing)
    */
   async clear(): Promise<void> {
-    const pattern = `${this.keyPrefix}*`;
-    const keys = await this.client.keys(pattern);
+    const keys = [
+      ...(await this.client.keys(`${this.keyPrefix}*`)),
+      ...(await this.client.keys(`${this.userIndexPrefix}*`)),
+      ...(await this.client.keys(`${this.childIndexPrefix}*`)),
+    ];
 
     if (keys.length > 0) {
       await this.client.del(...keys);
@@ -0,0 +1,83 @@
+import { Session } from "./types.js";
+
+/**
+ * How session expiry reacts to activity:
+ * - sliding: every update restarts the TTL
+ * - absolute: a session expires one TTL after creation (or its last extend)
+ * - capped: sliding, but never later than maxLifetimeHours after creation
+ */
+export const EXPIRY_POLICIES = ["sliding", "absolute", "capped"] as const;
+export type ExpiryPolicy = (typeof EXPIRY_POLICIES)[number];
+
+/**
+ * Expiry settings of a store
+ */
+export interface ExpirySettings {
+  policy: ExpiryPolicy;
+  ttlHours: number; // Default TTL, sessions can override it
+  maxLifetimeHours: number; // Cap of the capped policy (0 = no cap)
+}
+
+/**
+ * Store operations that (re)compute the expiry time
+ */
+export type ExpiryEvent = "create" | "update" | "extend";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Parse an expiry policy, falling back to "sliding" if unset or unknown
+ */
+export function parseExpiryPolicy(value: string | undefined): ExpiryPolicy {
+  const policy = value?.toLowerCase() ?? "";
+  return (EXPIRY_POLICIES as readonly string[]).includes(policy)
+    ? (policy as ExpiryPolicy)
+    : "sliding";
+}
+
+/**
+ * Compute when a session expires after a store operation.
+ * Both stores use this, so a workload expires at the same time regardless
+ * of STORAGE_TYPE.
+ * @param session - The session as it will be stored
+ * @returns undefined for pinned sessions
+ */
+export function getExpiresAt(
+  session: Pick<Session, "ttlHours" | "pinned" | "expiresAt" | "createdAt">,
+  event: ExpiryEvent,
+  settings: ExpirySettings,
+  now: number = Date.now()
+): Date | undefined {
+  if (session.pinned) {
+    return undefined;
+  }
+
+  const ttlMs = (session.ttlHours ?? settings.ttlHours) * HOUR_MS;
+
+  if (event === "update" && settings.policy === "absolute") {
+    return session.expiresAt ?? new Date(session.createdAt.getTime() + ttlMs);
+  }
+
+  let expiresAt = now + ttlMs;
+
+  if (settings.policy === "capped" && settings.maxLifetimeHours > 0) {
+    const cap = session.createdAt.getTime() + settings.maxLifetimeHours * HOUR_MS;
+    expiresAt = Math.min(expiresAt, cap);
+  }
+
+  return new Date(expiresAt);
+}
+
+/**
+ * Check if a session is expired
+ */
+export function isExpired(
+  session: Pick<Session, "pinned" | "expiresAt">,
+  now: number = Date.now()
+): boolean {
+  return (
+    !session.pinned &&
+    session.expiresAt !== undefined &&
+    session.expiresAt.getTime() <= now
+  );
+}
@@ -7,6 +7,8 @@ import {
   RedisSessionStore,
   RedisSessionStoreConfig,
 } from "./RedisSessionStore.js";
+import { ExpiryPolicy, parseExpiryPolicy } from "./expiry.js";
+import { getSessionLimits } from "../utils/limits.js";
 
 /**
  * Supported storage types
@@ -29,12 +31,30 @@ export interface StorageFactoryConfig {
    */
   ttlHours?: number;
 
+  /**
+   * How activity affects expiry
+   * @default "sliding"
+   */
+  expiryPolicy?: ExpiryPolicy;
+
+  /**
+   * Longest lifetime in hours under the "capped" policy (0 = no cap)
+   * @default 0
+   */
+  maxLifetimeHours?: number;
+
   /**
    * Length of generated NanoIDs
    * @default 21
    */
   nanoidLength?: number;
 
+  /**
+   * Maximum live sessions per user ID (0 = unlimited)
+   * @default 0
+   */
+  maxSessionsPerUser?: number;
+
   /**
    * Redis-specific configuration (only used when type is "redis")
    */
@@ -84,11 +104,18 @@ export function getStorageConfigFromEnv(): StorageFactoryConfig {
   const type = getStorageType();
   const ttlHours = parseInt(process.env.SESSION_TTL_HOURS || "24", 10);
   const nanoidLength = parseInt(process.env.NANOID_LENGTH || "21", 10);
+  const maxLifetimeHours = parseInt(
+    process.env.SESSION_MAX_LIFETIME_HOURS || "0",
+    10
+  );
 
   const config: StorageFactoryConfig = {
     type,
     ttlHours,
+    expiryPolicy: parseExpiryPolicy(process.env.SESSION_EXPIRY_POLICY),
+    maxLifetimeHours: Number.isNaN(maxLifetimeHours) ? 0 : maxLifetimeHours,
     nanoidLength,
+    maxSessionsPerUser: getSessionLimits().maxSessionsPerUser,
   };
 
   if (type === "redis") {
@@ -117,7 +144,10 @@ export function createSessionStore(
         password: config.redis?.password,
         keyPrefix: config.redis?.keyPrefix,
         ttlHours: config.ttlHours,
+        expiryPolicy: config.expiryPolicy,
+        maxLifetimeHours: config.maxLifetimeHours,
         nanoidLength: config.nanoidLength,
+        maxSessionsPerUser: config.maxSessionsPerUser,
       };
 
       const store = new RedisSessionStore(redisConfig);
@@ -135,7 +165,10 @@ export function createSessionStore(
     default: {
       const memoryConfig: InMemorySessionStoreConfig = {
         ttlHours: config.ttlHours,
+        expiryPolicy: config.expiryPolicy,
+        maxLifetimeHours: config.maxLifetimeHours,
         nanoidLength: config.nanoidLength,
+        maxSessionsPerUser: config.maxSessionsPerUser,
       };
 
       const store = new InMemorySessionStore(memoryConfig);
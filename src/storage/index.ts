@@ -1,4 +1,5 @@
 export * from "./types.js";
 export * from "./InMemorySessionStore.js";
 export * from "./RedisSessionStore.js";
+export * from "./serialization.js";
 export * from "./factory.js";
@@ -0,0 +1,210 @@
+import {
+  Session,
+  TodoStatus,
+  TODO_STATUSES,
+  TodoPriority,
+  TODO_PRIORITIES,
+} from "./types.js";
+
+/**
+ * JSON-safe session format, used for Redis storage and session exports
+ * Dates are ISO strings. Optional fields may be missing in data written by
+ * older server versions.
+ */
+export interface SerializedSession {
+  id: string;
+  userId?: string;
+  title?: string;
+  parentSessionId?: string;
+  parentTodoId?: string;
+  scratchpad: string;
+  // Missing for sessions stored before named scratchpad sections
+  scratchpads?: Record<string, string>;
+  scratchpadHistory?: Array<{
+    name: string;
+    revision: number;
+    content: string;
+    author?: string;
+    createdAt: string;
+  }>;
+  // Missing for sessions stored before facts
+  facts?: Record<
+    string,
+    {
+      value: unknown;
+      schema?: Record<string, unknown>;
+      author?: string;
+      createdAt: string;
+      updatedAt: string;
+    }
+  >;
+  todos: Array<{
+    id: string;
+    title: string;
+    description: string;
+    tags: string[];
+    status: string;
+    blockedReason?: string;
+    parentId?: string;
+    dependsOn?: string[];
+    priority?: string;
+    dueAt?: string;
+    position?: number; // Missing for sessions stored before explicit ordering
+    outcome?: string;
+    error?: string;
+    completedAt?: string;
+    notes?: Array<{
+      author?: string;
+      text: string;
+      createdAt: string;
+    }>;
+    createdAt: string;
+  }>;
+  closedAt?: string;
+  ttlHours?: number;
+  pinned?: boolean;
+  expiresAt?: string; // Missing for pinned sessions and sessions stored before TTL overrides
+  createdAt: string;
+  lastModified: string;
+}
+
+/**
+ * Parse a stored todo status, falling back to "pending" for unknown values
+ * so sessions written by other server versions still load
+ */
+function parseTodoStatus(status: string): TodoStatus {
+  return (TODO_STATUSES as readonly string[]).includes(status)
+    ? (status as TodoStatus)
+    : "pending";
+}
+
+/**
+ * Parse a stored todo priority, dropping unknown values
+ */
+function parseTodoPriority(priority?: string): TodoPriority | undefined {
+  return (TODO_PRIORITIES as readonly string[]).includes(priority ?? "")
+    ? (priority as TodoPriority)
+    : undefined;
+}
+
+/**
+ * Convert a session to its serialized form
+ */
+export function toSerializedSession(session: Session): SerializedSession {
+  return {
+    id: session.id,
+    userId: session.userId,
+    title: session.title,
+    parentSessionId: session.parentSessionId,
+    parentTodoId: session.parentTodoId,
+    scratchpad: session.scratchpad,
+    scratchpads: session.scratchpads,
+    scratchpadHistory: session.scratchpadHistory.map((revision) => ({
+      ...revision,
+      createdAt: revision.createdAt.toISOString(),
+    })),
+    facts: Object.fromEntries(
+      Object.entries(session.facts).map(([key, fact]) => [
+        key,
+        {
+          ...fact,
+          createdAt: fact.createdAt.toISOString(),
+          updatedAt: fact.updatedAt.toISOString(),
+        },
+      ])
+    ),
+    todos: session.todos.map((todo) => ({
+      id: todo.id,
+      title: todo.title,
+      description: todo.description,
+      tags: todo.tags,
+      status: todo.status,
+      blockedReason: todo.blockedReason,
+      parentId: todo.parentId,
+      dependsOn: todo.dependsOn,
+      priority: todo.priority,
+      dueAt: todo.dueAt?.toISOString(),
+      position: todo.position,
+      outcome: todo.outcome,
+      error: todo.error,
+      completedAt: todo.completedAt?.toISOString(),
+      notes: todo.notes?.map((note) => ({
+        author: note.author,
+        text: note.text,
+        createdAt: note.createdAt.toISOString(),
+      })),
+      createdAt: todo.createdAt.toISOString(),
+    })),
+    closedAt: session.closedAt?.toISOString(),
+    ttlHours: session.ttlHours,
+    pinned: session.pinned,
+    expiresAt: session.expiresAt?.toISOString(),
+    createdAt: session.createdAt.toISOString(),
+    lastModified: session.lastModified.toISOString(),
+  };
+}
+
+/**
+ * Restore a session from its serialized form
+ * Unknown todo statuses and priorities fall back to defaults. expiresAt
+ * stays unset if the data has none.
+ */
+export function fromSerializedSession(serialized: SerializedSession): Session {
+  return {
+    id: serialized.id,
+    userId: serialized.userId,
+    title: serialized.title,
+    parentSessionId: serialized.parentSessionId,
+    parentTodoId: serialized.parentTodoId,
+    scratchpad: serialized.scratchpad,
+    scratchpads: serialized.scratchpads ?? {},
+    scratchpadHistory: (serialized.scratchpadHistory ?? []).map(
+      (revision) => ({
+        ...revision,
+        createdAt: new Date(revision.createdAt),
+      })
+    ),
+    facts: Object.fromEntries(
+      Object.entries(serialized.facts ?? {}).map(([key, fact]) => [
+        key,
+        {
+          ...fact,
+          createdAt: new Date(fact.createdAt),
+          updatedAt: new Date(fact.updatedAt),
+        },
+      ])
+    ),
+    todos: serialized.todos.map((todo, index) => ({
+      id: todo.id,
+      title: todo.title,
+      description: todo.description,
+      tags: todo.tags,
+      status: parseTodoStatus(todo.status),
+      blockedReason: todo.blockedReason,
+      parentId: todo.parentId,
+      dependsOn: todo.dependsOn,
+      priority: parseTodoPriority(todo.priority),
+      dueAt: todo.dueAt ? new Date(todo.dueAt) : undefined,
+      position: todo.position ?? index,
+      outcome: todo.outcome,
+      error: todo.error,
+      completedAt: todo.completedAt ? new Date(todo.completedAt) : undefined,
+      notes: todo.notes?.map((note) => ({
+        author: note.author,
+        text: note.text,
+        createdAt: new Date(note.createdAt),
+      })),
+      createdAt: new Date(todo.createdAt),
+    })),
+    closedAt: serialized.closedAt
+      ? new Date(serialized.closedAt)
+      : undefined,
+    ttlHours: serialized.ttlHours,
+    pinned: serialized.pinned,
+    expiresAt: serialized.expiresAt
+      ? new Date(serialized.expiresAt)
+      : undefined,
+    createdAt: new Date(serialized.createdAt),
+    lastModified: new Date(serialized.lastModified),
+  };
+}
@@ -1,7 +1,37 @@
+/**
+ * All todo statuses, in lifecycle order
+ */
+export const TODO_STATUSES = [
+  "pending",
+  "in_progress",
+  "blocked",
+  "done",
+  "cancelled",
+] as const;
+
 /**
  * Todo status enumeration
  */
-export type TodoStatus = "pending" | "done";
+export type TodoStatus = (typeof TODO_STATUSES)[number];
+
+/**
+ * Todo priorities, from most (p0) to least (p3) urgent
+ */
+export const TODO_PRIORITIES = ["p0", "p1", "p2", "p3"] as const;
+
+/**
+ * Todo priority enumeration
+ */
+export type TodoPriority = (typeof TODO_PRIORITIES)[number];
+
+/**
+ * Timestamped note attached to a todo
+ */
+export interface TodoNote {
+  author?: string; // User ID of the writer, from X-User-ID header
+  text: string;
+  createdAt: Date;
+}
 
 /**
  * Todo item within a session
@@ -12,7 +42,39 @@ export interface Todo {
   description: string;
   tags: string[];
   status: TodoStatus;
+  blockedReason?: string; // Set while status is "blocked"
+  parentId?: string; // Set for subtasks
+  dependsOn?: string[]; // IDs of todos that must be done first
+  priority?: TodoPriority;
+  dueAt?: Date;
+  position: number; // Execution order within the plan (lower comes first)
+  outcome?: string; // What was found or produced
+  error?: string; // Why the todo failed
+  completedAt?: Date; // Set while status is "done" or "cancelled"
+  notes?: TodoNote[]; // Comment thread, oldest first
+  createdAt: Date;
+}
+
+/**
+ * Saved version of a scratchpad section
+ */
+export interface ScratchpadRevision {
+  name: string; // Scratchpad section
+  revision: number; // Increasing per section, starting at 1
+  content: string;
+  author?: string; // User ID of the writer, from X-User-ID header
+  createdAt: Date;
+}
+
+/**
+ * A structured fact in the session's key-value memory
+ */
+export interface Fact {
+  value: unknown; // Any JSON value
+  schema?: Record<string, unknown>; // JSON schema the value must satisfy
+  author?: string; // User ID of the last writer, from X-User-ID header
   createdAt: Date;
+  updatedAt: Date;
 }
 
 /**
@@ -21,12 +83,33 @@ export interface Todo {
 export interface Session {
   id: string; // NanoID
   userId?: string; // Optional, from X-User-ID header
-  scratchpad: string;
+  title?: string; // Optional label shown by list_sessions
+  parentSessionId?: string; // Session this one was forked or delegated from
+  parentTodoId?: string; // Todo of the parent session this one works on
+  scratchpad: string; // The "default" scratchpad section
+  scratchpads: Record<string, string>; // Additional named sections
+  scratchpadHistory: ScratchpadRevision[]; // Recent revisions, oldest first
+  facts: Record<string, Fact>; // Key-value memory
   todos: Todo[];
+  closedAt?: Date; // Set by close_session; closed sessions are read-only
+  ttlHours?: number; // Overrides the server's SESSION_TTL_HOURS
+  pinned?: boolean; // Pinned sessions never expire
+  expiresAt?: Date; // Unset for pinned sessions
   createdAt: Date;
   lastModified: Date;
 }
 
+/**
+ * Session fields the store keeps indexes or expiry for, set only through
+ * create and extend
+ */
+export type SessionManagedField =
+  | "ttlHours"
+  | "pinned"
+  | "expiresAt"
+  | "parentSessionId"
+  | "parentTodoId";
+
 /**
  * Error thrown when session is not found
  */
@@ -47,6 +130,16 @@ export class UserIdMismatchError extends Error {
   }
 }
 
+/**
+ * Error thrown when a closed session is modified
+ */
+export class SessionClosedError extends Error {
+  constructor(sessionId: string) {
+    super(`Session is closed: ${sessionId}`);
+    this.name = "SessionClosedError";
+  }
+}
+
 /**
  * Error thrown when todo is not found
  */
@@ -57,6 +150,108 @@ export class TodoNotFoundError extends Error {
   }
 }
 
+/**
+ * Error thrown when a todo change is rejected (e.g. invalid status transition)
+ * The code is surfaced to clients as the error code of the tool response
+ */
+export class TodoValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string = "INVALID_INPUT"
+  ) {
+    super(message);
+    this.name = "TodoValidationError";
+  }
+}
+
+/**
+ * Error thrown when a scratchpad edit cannot be applied
+ * (e.g. search text not found or line range out of bounds)
+ */
+export class ScratchpadEditError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string = "INVALID_INPUT"
+  ) {
+    super(message);
+    this.name = "ScratchpadEditError";
+  }
+}
+
+/**
+ * Error thrown when a fact cannot be stored (e.g. value doesn't match its schema)
+ */
+export class FactValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string = "INVALID_INPUT"
+  ) {
+    super(message);
+    this.name = "FactValidationError";
+  }
+}
+
+/**
+ * Error thrown when imported session content is malformed or invalid
+ */
+export class SessionImportError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string = "INVALID_INPUT"
+  ) {
+    super(message);
+    this.name = "SessionImportError";
+  }
+}
+
+/**
+ * Error thrown when a change would exceed a configured size limit or quota
+ * (e.g. scratchpad length, todos per session, sessions per user)
+ */
+export class QuotaExceededError extends Error {
+  public readonly code = "QUOTA_EXCEEDED";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * Lifetime settings of a session
+ */
+export interface SessionExpiryOptions {
+  ttlHours?: number; // Omit for the current TTL (server default when new)
+  pinned?: boolean; // Omit to keep the current pin
+}
+
+/**
+ * Content a new session can start with instead of being empty
+ */
+export type SessionContent = Pick<
+  Session,
+  "scratchpad" | "scratchpads" | "scratchpadHistory" | "facts" | "todos"
+>;
+
+/**
+ * Optional settings for a new session
+ */
+export interface CreateSessionOptions extends SessionExpiryOptions {
+  title?: string;
+  parentSessionId?: string;
+  parentTodoId?: string; // Only with parentSessionId
+  content?: Partial<SessionContent>; // Written together with the session
+}
+
+/**
+ * Current storage usage (for health checks)
+ */
+export interface StoreUsage {
+  sessions: number;
+  users: number; // Distinct X-User-IDs with live sessions
+  busiestUserSessions: number; // Most live sessions held by a single user
+}
+
 /**
  * Abstract interface for session storage
  * Allows swapping implementations (InMemory, Redis, etc.)
@@ -65,9 +260,13 @@ export interface SessionStore {
   /**
    * Create a new session
    * @param userId - Optional user ID from X-User-ID header
+   * @param options - Optional settings such as the title, TTL, pin and
+   * initial content
    * @returns The created session
+   * @throws QuotaExceededError if the user already has the maximum number of
+   * live sessions
    */
-  create(userId?: string): Promise<Session>;
+  create(userId?: string, options?: CreateSessionOptions): Promise<Session>;
 
   /**
    * Get a session by ID
@@ -85,13 +284,30 @@ export interface SessionStore {
    * @param userId - Optional user ID for validation
    * @throws SessionNotFoundError if session doesn't exist
    * @throws UserIdMismatchError if session has userId and it doesn't match
+   * @throws SessionClosedError if the session is closed
    */
   update(
     sessionId: string,
-    updates: Partial<Omit<Session, "id" | "createdAt">>,
+    updates: Partial<Omit<Session, "id" | "createdAt" | SessionManagedField>>,
     userId?: string
   ): Promise<void>;
 
+  /**
+   * Change the lifetime of a session. The session then expires ttlHours
+   * from now, or never if it is pinned. Closed sessions can be extended.
+   * @param sessionId - The session ID
+   * @param options - New TTL and/or pin
+   * @param userId - Optional user ID for validation
+   * @returns The updated session
+   * @throws SessionNotFoundError if session doesn't exist
+   * @throws UserIdMismatchError if session has userId and it doesn't match
+   */
+  extend(
+    sessionId: string,
+    options: SessionExpiryOptions,
+    userId?: string
+  ): Promise<Session>;
+
   /**
    * Delete a session
    * @param sessionId - The session ID
@@ -101,6 +317,18 @@ export interface SessionStore {
    */
   delete(sessionId: string, userId?: string): Promise<void>;
 
+  /**
+   * List the live sessions of a user, most recently modified first
+   * @param userId - The user ID from X-User-ID header
+   */
+  listByUser(userId: string): Promise<Session[]>;
+
+  /**
+   * List the live sessions created with the given parent, oldest first
+   * @param parentSessionId - The parent session ID
+   */
+  listChildren(parentSessionId: string): Promise<Session[]>;
+
   /**
    * Check if a session ID exists
    * @param sessionId - The session ID to check
@@ -113,6 +341,11 @@ export interface SessionStore {
    */
   count(): Promise<number>;
 
+  /**
+   * Get session counts overall and per user (useful for monitoring)
+   */
+  usage(): Promise<StoreUsage>;
+
   /**
    * Cleanup expired sessions (called by background task)
    * @returns Number of sessions cleaned up
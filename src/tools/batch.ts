@@ -0,0 +1,252 @@
+import { z } from "zod";
+import {
+  Session,
+  TodoNotFoundError,
+  TodoValidationError,
+} from "../storage/types.js";
+import { ToolContext } from "./session.js";
+import {
+  AddTodoInputSchema,
+  UpdateTodoInputSchema,
+  DeleteTodoInputSchema,
+  addTodoToList,
+  updateTodoInList,
+  deleteTodoFromList,
+  encodeTodoError,
+  completeParentTodo,
+} from "./todo.js";
+import { getSessionLock } from "../utils/locks.js";
+import { BatchOperationResult } from "../utils/encoder.js";
+import { checkTodoLimits, getSessionLimits } from "../utils/limits.js";
+
+/**
+ * Schema for a single add operation within batch_todos
+ */
+const BatchAddOperationSchema = AddTodoInputSchema.omit({
+  session_id: true,
+}).extend({
+  op: z.literal("add"),
+  ref: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Temporary reference for the new todo - later operations can use '$<ref>' instead of its ID"
+    ),
+});
+
+/**
+ * Schema for a single update operation within batch_todos
+ */
+const BatchUpdateOperationSchema = UpdateTodoInputSchema.omit({
+  session_id: true,
+}).extend({
+  op: z.literal("update"),
+});
+
+/**
+ * Schema for a single delete operation within batch_todos
+ */
+const BatchDeleteOperationSchema = DeleteTodoInputSchema.omit({
+  session_id: true,
+}).extend({
+  op: z.literal("delete"),
+});
+
+/**
+ * Schema for batch_todos tool input
+ */
+export const BatchTodosInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  operations: z
+    .array(
+      z.discriminatedUnion("op", [
+        BatchAddOperationSchema,
+        BatchUpdateOperationSchema,
+        BatchDeleteOperationSchema,
+      ])
+    )
+    .min(1)
+    .describe("Operations to apply in order ('add', 'update' or 'delete')"),
+});
+
+export type BatchTodosInput = z.infer<typeof BatchTodosInputSchema>;
+
+type BatchOperation = BatchTodosInput["operations"][number];
+
+/**
+ * Resolve a todo ID that may be a '$<ref>' reference to a todo added
+ * earlier in the same batch
+ * @throws TodoValidationError for unknown references
+ */
+function resolveTodoId(value: string, refs: Map<string, string>): string {
+  if (!value.startsWith("$")) {
+    return value;
+  }
+
+  const id = refs.get(value.slice(1));
+  if (id === undefined) {
+    throw new TodoValidationError(
+      `Unknown reference: ${value}`,
+      "UNKNOWN_REFERENCE"
+    );
+  }
+  return id;
+}
+
+/**
+ * Apply a single batch operation to the working copy of a session
+ * @returns The updated session and the operation result
+ */
+function applyOperation(
+  session: Session,
+  operation: BatchOperation,
+  refs: Map<string, string>
+): { session: Session; result: BatchOperationResult } {
+  const resolve = (value: string) => resolveTodoId(value, refs);
+  const resolveAll = (values?: string[]) => values?.map(resolve);
+
+  switch (operation.op) {
+    case "add": {
+      const { ref, ...changes } = operation;
+      if (ref !== undefined && refs.has(ref)) {
+        throw new TodoValidationError(`Duplicate reference: ${ref}`);
+      }
+
+      const { todos, todo } = addTodoToList(session, {
+        ...changes,
+        parent_id:
+          changes.parent_id !== undefined
+            ? resolve(changes.parent_id)
+            : undefined,
+        depends_on: resolveAll(changes.depends_on),
+      });
+
+      if (ref !== undefined) {
+        refs.set(ref, todo.id);
+      }
+      return {
+        session: { ...session, todos },
+        result: { op: "add", ref, todo },
+      };
+    }
+
+    case "update": {
+      const { todo_id, ...changes } = operation;
+      const { todos, todo } = updateTodoInList(session, resolve(todo_id), {
+        ...changes,
+        depends_on: resolveAll(changes.depends_on),
+      });
+      return {
+        session: { ...session, todos },
+        result: { op: "update", todo },
+      };
+    }
+
+    case "delete": {
+      const { todos, todo } = deleteTodoFromList(
+        session,
+        resolve(operation.todo_id),
+        operation.cascade ?? true
+      );
+      return {
+        session: { ...session, todos },
+        result: { op: "delete", todo },
+      };
+    }
+  }
+}
+
+/**
+ * Apply a list of todo operations atomically.
+ * All operations run against a working copy under a single session lock and
+ * are persisted with one store update - if any operation fails, nothing is
+ * written.
+ */
+export async function batchTodos(
+  input: BatchTodosInput,
+  context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      const session = await context.store.get(input.session_id, context.userId);
+
+      if (!session) {
+        return context.encoder.encodeError(
+          `Session not found: ${input.session_id}`,
+          "SESSION_NOT_FOUND"
+        );
+      }
+
+      let working = session;
+      const refs = new Map<string, string>();
+      const results: BatchOperationResult[] = [];
+
+      for (const [index, operation] of input.operations.entries()) {
+        try {
+          const applied = applyOperation(working, operation, refs);
+          working = applied.session;
+          results.push(applied.result);
+        } catch (error) {
+          if (
+            error instanceof TodoNotFoundError ||
+            error instanceof TodoValidationError
+          ) {
+            const code =
+              error instanceof TodoValidationError
+                ? error.code
+                : "TODO_NOT_FOUND";
+            throw new TodoValidationError(
+              `Operation ${index + 1} (${operation.op}) failed: ${error.message}. No changes were applied.`,
+              code
+            );
+          }
+          throw error;
+        }
+      }
+
+      checkTodoLimits(
+        session.todos,
+        working.todos,
+        context.limits ?? getSessionLimits()
+      );
+
+      await context.store.update(
+        input.session_id,
+        { todos: working.todos },
+        context.userId
+      );
+      await completeParentTodo(working, context);
+
+      return context.encoder.encodeBatchResults(results);
+    } catch (error) {
+      return encodeTodoError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * Tool definition for MCP registration
+ */
+export const batchTodosTool = {
+  name: "batch_todos",
+  description: `Apply several todo operations in one atomic call.
+
+Use to seed or restructure a plan without one round-trip per todo. Each operation has
+an 'op' field plus the same fields as the matching tool (without session_id):
+- { op: 'add', title, ..., ref? }: like add_todo
+- { op: 'update', todo_id, ... }: like update_todo
+- { op: 'delete', todo_id, cascade? }: like delete_todo
+
+An add operation can set a 'ref' name; later operations can then use '$<ref>' wherever
+a todo ID is expected (todo_id, parent_id, depends_on).
+
+Operations are applied in order. If any operation fails, none are applied and the
+error names the failing operation.
+
+Returns the result of each operation (op, ref, id, title, status).`,
+  inputSchema: BatchTodosInputSchema,
+  handler: batchTodos,
+};
@@ -0,0 +1,329 @@
+import { z } from "zod";
+import {
+  Fact,
+  FactValidationError,
+  QuotaExceededError,
+  SessionNotFoundError,
+  SessionClosedError,
+  UserIdMismatchError,
+} from "../storage/types.js";
+import { ToolContext } from "./session.js";
+import { getSessionLock } from "../utils/locks.js";
+import {
+  FACT_KEY_PATTERN,
+  findFact,
+  validateFactValue,
+} from "../utils/facts.js";
+import { checkFactLimits, getSessionLimits } from "../utils/limits.js";
+
+/**
+ * Key of a fact
+ */
+const FactKeySchema = z
+  .string()
+  .regex(
+    FACT_KEY_PATTERN,
+    "Fact keys may only contain letters, digits, '.', '_', '-', ':' and '/' (max 128)"
+  )
+  .describe("The fact key, e.g. 'repo.path' or 'build:target'");
+
+/**
+ * Schema for set_fact tool input
+ */
+export const SetFactInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  key: FactKeySchema,
+  value: z
+    .unknown()
+    .refine((value) => value !== undefined, { message: "Required" })
+    .describe(
+      "The value: any JSON value (string, number, boolean, null, array or object)"
+    ),
+  schema: z
+    .record(z.unknown())
+    .optional()
+    .describe(
+      "JSON schema the value must satisfy. It is stored with the fact and applies to later updates until replaced"
+    ),
+});
+
+export type SetFactInput = z.infer<typeof SetFactInputSchema>;
+
+/**
+ * Schema for get_fact tool input
+ */
+export const GetFactInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  key: FactKeySchema,
+});
+
+export type GetFactInput = z.infer<typeof GetFactInputSchema>;
+
+/**
+ * Schema for list_facts tool input
+ */
+export const ListFactsInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  prefix: z
+    .string()
+    .optional()
+    .describe("Only list facts whose key starts with this prefix"),
+});
+
+export type ListFactsInput = z.infer<typeof ListFactsInputSchema>;
+
+/**
+ * Schema for delete_fact tool input
+ */
+export const DeleteFactInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  key: FactKeySchema,
+});
+
+export type DeleteFactInput = z.infer<typeof DeleteFactInputSchema>;
+
+/**
+ * Encode errors from fact operations
+ * Unknown errors are rethrown.
+ */
+function encodeFactError(
+  error: unknown,
+  sessionId: string,
+  context: ToolContext
+): string {
+  if (error instanceof SessionNotFoundError) {
+    return context.encoder.encodeError(
+      `Session not found: ${sessionId}`,
+      "SESSION_NOT_FOUND"
+    );
+  }
+  if (error instanceof UserIdMismatchError) {
+    return context.encoder.encodeError(
+      "User ID mismatch - access denied",
+      "USER_ID_MISMATCH"
+    );
+  }
+  if (error instanceof SessionClosedError) {
+    return context.encoder.encodeError(error.message, "SESSION_CLOSED");
+  }
+  if (
+    error instanceof FactValidationError ||
+    error instanceof QuotaExceededError
+  ) {
+    return context.encoder.encodeError(error.message, error.code);
+  }
+  throw error;
+}
+
+/**
+ * Build the error for a missing fact
+ */
+function factNotFound(key: string): FactValidationError {
+  return new FactValidationError(`Fact not found: ${key}`, "FACT_NOT_FOUND");
+}
+
+/**
+ * Create or replace a fact.
+ * The value is checked against the given schema, or the schema already
+ * declared for the key.
+ * Uses mutex lock to prevent race conditions with parallel calls.
+ */
+export async function setFact(
+  input: SetFactInput,
+  context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      const session = await context.store.get(input.session_id, context.userId);
+
+      if (!session) {
+        return context.encoder.encodeError(
+          `Session not found: ${input.session_id}`,
+          "SESSION_NOT_FOUND"
+        );
+      }
+
+      const existing = findFact(session.facts, input.key);
+      const schema = input.schema ?? existing?.schema;
+
+      if (schema) {
+        validateFactValue(input.key, input.value, schema);
+      }
+
+      const now = new Date();
+      const fact: Fact = {
+        value: input.value,
+        schema,
+        author: context.userId,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      const facts = { ...session.facts, [input.key]: fact };
+      checkFactLimits(
+        session.facts,
+        facts,
+        context.limits ?? getSessionLimits()
+      );
+
+      await context.store.update(input.session_id, { facts }, context.userId);
+
+      return context.encoder.encodeSuccess(
+        existing ? "Fact updated" : "Fact created",
+        {
+          key: input.key,
+          has_schema: schema !== undefined,
+          updated_at: now.toISOString(),
+        }
+      );
+    } catch (error) {
+      return encodeFactError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * Read a single fact
+ */
+export async function getFact(
+  input: GetFactInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const session = await context.store.get(input.session_id, context.userId);
+
+    if (!session) {
+      return context.encoder.encodeError(
+        `Session not found: ${input.session_id}`,
+        "SESSION_NOT_FOUND"
+      );
+    }
+
+    const fact = findFact(session.facts, input.key);
+
+    if (!fact) {
+      throw factNotFound(input.key);
+    }
+
+    return context.encoder.encodeFact(session.id, input.key, fact);
+  } catch (error) {
+    return encodeFactError(error, input.session_id, context);
+  }
+}
+
+/**
+ * List the facts of a session, sorted by key
+ */
+export async function listFacts(
+  input: ListFactsInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const session = await context.store.get(input.session_id, context.userId);
+
+    if (!session) {
+      return context.encoder.encodeError(
+        `Session not found: ${input.session_id}`,
+        "SESSION_NOT_FOUND"
+      );
+    }
+
+    const prefix = input.prefix ?? "";
+    const keys = Object.keys(session.facts)
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+
+    return context.encoder.encodeFactList(
+      session.id,
+      keys.map((key) => [key, session.facts[key]])
+    );
+  } catch (error) {
+    return encodeFactError(error, input.session_id, context);
+  }
+}
+
+/**
+ * Delete a fact
+ * Uses mutex lock to prevent race conditions with parallel calls.
+ */
+export async function deleteFact(
+  input: DeleteFactInput,
+  context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      const session = await context.store.get(input.session_id, context.userId);
+
+      if (!session) {
+        return context.encoder.encodeError(
+          `Session not found: ${input.session_id}`,
+          "SESSION_NOT_FOUND"
+        );
+      }
+
+      if (!findFact(session.facts, input.key)) {
+        throw factNotFound(input.key);
+      }
+
+      const facts = { ...session.facts };
+      delete facts[input.key];
+      await context.store.update(input.session_id, { facts }, context.userId);
+
+      return context.encoder.encodeSuccess("Fact deleted", {
+        key: input.key,
+      });
+    } catch (error) {
+      return encodeFactError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * Tool definitions for MCP registration
+ */
+export const setFactTool = {
+  name: "set_fact",
+  description: `Store a fact in the session's key-value memory.
+
+Use for things that must be looked up exactly later - file paths, IDs, chosen
+options - instead of burying them in the scratchpad. Values are any JSON value.
+
+Pass a JSON schema to have values checked; it is kept with the fact and applies
+to later updates of the same key.
+
+Returns whether the fact was created or updated.`,
+  inputSchema: SetFactInputSchema,
+  handler: setFact,
+};
+
+export const getFactTool = {
+  name: "get_fact",
+  description: `Read a fact from the session's key-value memory.
+
+Returns the value, its schema (if declared) and when it was last updated.`,
+  inputSchema: GetFactInputSchema,
+  handler: getFact,
+};
+
+export const listFactsTool = {
+  name: "list_facts",
+  description: `List the facts in the session's key-value memory, sorted by key.
+
+Use prefix to list a group of facts, e.g. "repo.".
+
+Returns each key with its value.`,
+  inputSchema: ListFactsInputSchema,
+  handler: listFacts,
+};
+
+export const deleteFactTool = {
+  name: "delete_fact",
+  description: `Delete a fact from the session's key-value memory.
+
+Returns success or FACT_NOT_FOUND.`,
+  inputSchema: DeleteFactInputSchema,
+  handler: deleteFact,
+};
@@ -1,3 +1,8 @@
 export * from "./session.js";
 export * from "./scratchpad.js";
+export * from "./scratchpadHistory.js";
 export * from "./todo.js";
+export * from "./batch.js";
+export * from "./notes.js";
+export * from "./search.js";
+export * from "./facts.js";
@@ -0,0 +1,153 @@
+import { z } from "zod";
+import {
+  TodoNote,
+  TodoNotFoundError,
+  UserIdMismatchError,
+} from "../storage/types.js";
+import { ToolContext } from "./session.js";
+import { encodeTodoError } from "./todo.js";
+import { getSessionLock } from "../utils/locks.js";
+import { checkTodoLimits, getSessionLimits } from "../utils/limits.js";
+
+/**
+ * Schema for add_todo_note tool input
+ */
+export const AddTodoNoteInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  todo_id: z.string().describe("The ID of the todo to comment on"),
+  text: z.string().min(1).describe("The note text"),
+});
+
+export type AddTodoNoteInput = z.infer<typeof AddTodoNoteInputSchema>;
+
+/**
+ * Schema for list_todo_notes tool input
+ */
+export const ListTodoNotesInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  todo_id: z.string().describe("The ID of the todo whose notes to list"),
+});
+
+export type ListTodoNotesInput = z.infer<typeof ListTodoNotesInputSchema>;
+
+/**
+ * Append a note to a todo's comment thread.
+ * The author is the user ID of the request, if any.
+ * Uses mutex lock to prevent race conditions with parallel calls.
+ */
+export async function addTodoNote(
+  input: AddTodoNoteInput,
+  context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      const session = await context.store.get(input.session_id, context.userId);
+
+      if (!session) {
+        return context.encoder.encodeError(
+          `Session not found: ${input.session_id}`,
+          "SESSION_NOT_FOUND"
+        );
+      }
+
+      const todoIndex = session.todos.findIndex((t) => t.id === input.todo_id);
+
+      if (todoIndex === -1) {
+        throw new TodoNotFoundError(input.todo_id, input.session_id);
+      }
+
+      const note: TodoNote = {
+        author: context.userId,
+        text: input.text,
+        createdAt: new Date(),
+      };
+      const todo = session.todos[todoIndex];
+      const notes = [...(todo.notes ?? []), note];
+
+      const todos = [...session.todos];
+      todos[todoIndex] = { ...todo, notes };
+      checkTodoLimits(
+        session.todos,
+        todos,
+        context.limits ?? getSessionLimits()
+      );
+
+      await context.store.update(input.session_id, { todos }, context.userId);
+
+      return context.encoder.encodeSuccess("Note added", {
+        todo_id: todo.id,
+        note_count: notes.length,
+        created_at: note.createdAt.toISOString(),
+      });
+    } catch (error) {
+      return encodeTodoError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * List the notes of a todo, oldest first
+ */
+export async function listTodoNotes(
+  input: ListTodoNotesInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const session = await context.store.get(input.session_id, context.userId);
+
+    if (!session) {
+      return context.encoder.encodeError(
+        `Session not found: ${input.session_id}`,
+        "SESSION_NOT_FOUND"
+      );
+    }
+
+    const todo = session.todos.find((t) => t.id === input.todo_id);
+
+    if (!todo) {
+      return context.encoder.encodeError(
+        `Todo not found: ${input.todo_id} in session: ${input.session_id}`,
+        "TODO_NOT_FOUND"
+      );
+    }
+
+    return context.encoder.encodeTodoNotes(todo.id, todo.notes ?? []);
+  } catch (error) {
+    if (error instanceof UserIdMismatchError) {
+      return context.encoder.encodeError(
+        "User ID mismatch - access denied",
+        "USER_ID_MISMATCH"
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Tool definitions for MCP registration
+ */
+export const addTodoNoteTool = {
+  name: "add_todo_note",
+  description: `Attach a timestamped note to a todo.
+
+Use for progress updates, findings or review comments on a specific step instead of
+rewriting its description. Notes are append-only; the author is taken from the
+X-User-ID header when present.
+
+Returns the todo ID and its new note count.`,
+  inputSchema: AddTodoNoteInputSchema,
+  handler: addTodoNote,
+};
+
+export const listTodoNotesTool = {
+  name: "list_todo_notes",
+  description: `List the notes attached to a todo, oldest first.
+
+list_todos shows how many notes each todo has.
+
+Returns the notes with author and timestamp.`,
+  inputSchema: ListTodoNotesInputSchema,
+  handler: listTodoNotes,
+};
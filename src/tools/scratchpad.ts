@@ -1,12 +1,75 @@
 import { z } from "zod";
-import { SessionNotFoundError, UserIdMismatchError } from "../storage/types.js";
+import {
+  QuotaExceededError,
+  ScratchpadEditError,
+  Session,
+  SessionNotFoundError,
+  SessionClosedError,
+  UserIdMismatchError,
+} from "../storage/types.js";
 import { ToolContext } from "./session.js";
+import { getSessionLock } from "../utils/locks.js";
+import { hashContent } from "../utils/hash.js";
+import { buildOutline, findSection, parseHeadings } from "../utils/markdown.js";
+import { ScratchpadWindow } from "../utils/encoder.js";
+import { checkScratchpadLimits, getSessionLimits } from "../utils/limits.js";
+import {
+  DEFAULT_SCRATCHPAD,
+  SCRATCHPAD_NAME_PATTERN,
+  getScratchpadContent,
+  listScratchpads as listScratchpadInfos,
+  recordScratchpadRevision,
+  setScratchpadContent,
+} from "../utils/scratchpads.js";
+
+/**
+ * Optional scratchpad section name, shared by all scratchpad tools
+ */
+export const ScratchpadNameSchema = z
+  .string()
+  .regex(
+    SCRATCHPAD_NAME_PATTERN,
+    "Use 1-64 letters, digits, '-' or '_'"
+  )
+  .optional()
+  .default(DEFAULT_SCRATCHPAD)
+  .describe(
+    "Scratchpad section, e.g. 'findings', 'decisions' or 'blockers' (default: 'default')"
+  );
 
 /**
  * Schema for read_scratchpad tool input
  */
 export const ReadScratchpadInputSchema = z.object({
   session_id: z.string().describe("The session ID returned by init_session"),
+  name: ScratchpadNameSchema,
+  section: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Only read the section under this Markdown heading (e.g. 'Findings'), including subsections"
+    ),
+  offset: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe("Number of lines to skip (default: 0)"),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Maximum number of lines to return"),
+  max_chars: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Cut the content after this many characters, adding a truncation marker"
+    ),
 });
 
 export type ReadScratchpadInput = z.infer<typeof ReadScratchpadInputSchema>;
@@ -19,12 +82,347 @@ export const WriteScratchpadInputSchema = z.object({
   content: z
     .string()
     .describe("The content to write to the scratchpad (replaces existing content)"),
+  name: ScratchpadNameSchema,
 });
 
 export type WriteScratchpadInput = z.infer<typeof WriteScratchpadInputSchema>;
 
 /**
- * Read the scratchpad content for a session
+ * Schema for append_scratchpad tool input
+ */
+export const AppendScratchpadInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  content: z.string().min(1).describe("The content to add to the scratchpad"),
+  name: ScratchpadNameSchema,
+  position: z
+    .enum(["end", "start"])
+    .optional()
+    .default("end")
+    .describe("'end' (default) appends, 'start' prepends"),
+  separator: z
+    .string()
+    .optional()
+    .default("\n")
+    .describe(
+      "Inserted between existing and new content when the scratchpad is not empty (default: newline)"
+    ),
+});
+
+export type AppendScratchpadInput = z.infer<typeof AppendScratchpadInputSchema>;
+
+/**
+ * Schema for patch_scratchpad tool input
+ */
+export const PatchScratchpadInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  name: ScratchpadNameSchema,
+  search: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Exact text to replace (use instead of start_line)"),
+  replace_all: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Replace every occurrence of search (default: false, search must match exactly once)"
+    ),
+  start_line: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("First line to replace, 1-based (use instead of search)"),
+  end_line: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe(
+      "Last line to replace, inclusive (default: start_line). Use start_line - 1 to insert before start_line"
+    ),
+  replacement: z
+    .string()
+    .describe("The new text for the matched text or line range (empty to delete)"),
+});
+
+export type PatchScratchpadInput = z.infer<typeof PatchScratchpadInputSchema>;
+
+/**
+ * Schema for list_scratchpads tool input
+ */
+export const ListScratchpadsInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+});
+
+export type ListScratchpadsInput = z.infer<typeof ListScratchpadsInputSchema>;
+
+/**
+ * Schema for scratchpad_outline tool input
+ */
+export const ScratchpadOutlineInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  name: ScratchpadNameSchema,
+});
+
+export type ScratchpadOutlineInput = z.infer<
+  typeof ScratchpadOutlineInputSchema
+>;
+
+/**
+ * Split scratchpad content into lines (an empty scratchpad has no lines)
+ */
+function splitLines(content: string): string[] {
+  return content === "" ? [] : content.split("\n");
+}
+
+/**
+ * Select part of the scratchpad for a partial read: first the section, then
+ * the offset/limit line window within it, then the character limit
+ * @returns The selected content and where it is in the full content
+ * @throws ScratchpadEditError if the section heading doesn't exist
+ */
+function selectContent(
+  content: string,
+  input: ReadScratchpadInput
+): { content: string; window: ScratchpadWindow } {
+  const lines = splitLines(content);
+  let start = 0;
+  let end = lines.length;
+
+  if (input.section !== undefined) {
+    const section = findSection(lines, input.section);
+    if (!section) {
+      throw new ScratchpadEditError(
+        `Section not found: ${input.section}`,
+        "SECTION_NOT_FOUND"
+      );
+    }
+    start = section.line - 1;
+    end = section.endLine;
+  }
+
+  start = Math.min(end, start + (input.offset ?? 0));
+  if (input.limit !== undefined) {
+    end = Math.min(end, start + input.limit);
+  }
+
+  let selected = lines.slice(start, end).join("\n");
+  let truncated = false;
+
+  if (input.max_chars !== undefined && selected.length > input.max_chars) {
+    const omitted = selected.length - input.max_chars;
+    selected =
+      selected.slice(0, input.max_chars) +
+      `\n[... truncated ${omitted} characters ...]`;
+    truncated = true;
+  }
+
+  return {
+    content: selected,
+    window: {
+      startLine: end > start ? start + 1 : 0,
+      endLine: end > start ? end : 0,
+      totalLines: lines.length,
+      totalLength: content.length,
+      truncated,
+    },
+  };
+}
+
+/**
+ * Replace occurrences of a search string
+ * @throws ScratchpadEditError if the text is not found, or found more than
+ * once without replaceAll
+ */
+function replaceText(
+  content: string,
+  search: string,
+  replacement: string,
+  replaceAll: boolean
+): { content: string; replacements: number } {
+  const parts = content.split(search);
+  const matches = parts.length - 1;
+
+  if (matches === 0) {
+    throw new ScratchpadEditError(
+      "Search text not found in scratchpad",
+      "PATCH_NO_MATCH"
+    );
+  }
+  if (matches > 1 && !replaceAll) {
+    throw new ScratchpadEditError(
+      `Search text found ${matches} times - add surrounding text to make it unique or set replace_all`,
+      "PATCH_AMBIGUOUS"
+    );
+  }
+
+  return { content: parts.join(replacement), replacements: matches };
+}
+
+/**
+ * Replace a 1-based, inclusive range of lines
+ * An empty range (endLine = startLine - 1) inserts before startLine.
+ * @throws ScratchpadEditError if the range is outside the content
+ */
+function replaceLines(
+  content: string,
+  startLine: number,
+  endLine: number,
+  replacement: string
+): string {
+  const lines = splitLines(content);
+
+  if (
+    startLine > lines.length + 1 ||
+    endLine < startLine - 1 ||
+    endLine > lines.length
+  ) {
+    throw new ScratchpadEditError(
+      `Invalid line range ${startLine}-${endLine} (scratchpad has ${lines.length} lines)`,
+      "INVALID_LINE_RANGE"
+    );
+  }
+
+  lines.splice(
+    startLine - 1,
+    endLine - startLine + 1,
+    ...splitLines(replacement)
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Apply a patch to scratchpad content
+ * @throws ScratchpadEditError if the patch is ambiguous or cannot be applied
+ */
+function applyPatch(
+  content: string,
+  input: PatchScratchpadInput
+): { content: string; replacements: number } {
+  if ((input.search === undefined) === (input.start_line === undefined)) {
+    throw new ScratchpadEditError(
+      "Specify exactly one of search or start_line"
+    );
+  }
+
+  if (input.search !== undefined) {
+    return replaceText(
+      content,
+      input.search,
+      input.replacement,
+      input.replace_all ?? false
+    );
+  }
+
+  const startLine = input.start_line!;
+  return {
+    content: replaceLines(
+      content,
+      startLine,
+      input.end_line ?? startLine,
+      input.replacement
+    ),
+    replacements: 1,
+  };
+}
+
+/**
+ * Encode an error thrown while handling a scratchpad tool call
+ * Unknown errors are rethrown.
+ */
+export function encodeScratchpadError(
+  error: unknown,
+  sessionId: string,
+  context: ToolContext
+): string {
+  if (error instanceof SessionNotFoundError) {
+    return context.encoder.encodeError(
+      `Session not found: ${sessionId}`,
+      "SESSION_NOT_FOUND"
+    );
+  }
+  if (error instanceof UserIdMismatchError) {
+    return context.encoder.encodeError(
+      "User ID mismatch - access denied",
+      "USER_ID_MISMATCH"
+    );
+  }
+  if (error instanceof SessionClosedError) {
+    return context.encoder.encodeError(error.message, "SESSION_CLOSED");
+  }
+  if (
+    error instanceof ScratchpadEditError ||
+    error instanceof QuotaExceededError
+  ) {
+    return context.encoder.encodeError(error.message, error.code);
+  }
+  throw error;
+}
+
+/**
+ * Error for a named scratchpad section that doesn't exist
+ */
+export function scratchpadNotFound(name: string): ScratchpadEditError {
+  return new ScratchpadEditError(
+    `Scratchpad not found: ${name}`,
+    "SCRATCHPAD_NOT_FOUND"
+  );
+}
+
+/**
+ * Read, transform and store a scratchpad section, recording a revision
+ * Callers must hold the session lock. Sections that don't exist yet start
+ * empty when create is set.
+ * @returns The new content, or null if the session does not exist
+ * @throws ScratchpadEditError if the section doesn't exist and create is not set
+ * @throws QuotaExceededError if the scratchpads would exceed the length limit
+ */
+export async function editScratchpad(
+  sessionId: string,
+  name: string,
+  context: ToolContext,
+  create: boolean,
+  edit: (content: string, session: Session) => string
+): Promise<string | null> {
+  const session = await context.store.get(sessionId, context.userId);
+
+  if (!session) {
+    return null;
+  }
+
+  const existing = getScratchpadContent(session, name);
+  if (existing === undefined && !create) {
+    throw scratchpadNotFound(name);
+  }
+
+  const content = edit(existing ?? "", session);
+  const updates = setScratchpadContent(session, name, content);
+  checkScratchpadLimits(
+    session,
+    { ...session, ...updates },
+    context.limits ?? getSessionLimits()
+  );
+
+  await context.store.update(
+    sessionId,
+    {
+      ...updates,
+      scratchpadHistory: recordScratchpadRevision(
+        session,
+        name,
+        content,
+        context.userId
+      ),
+    },
+    context.userId
+  );
+  return content;
+}
+
+/**
+ * Read a scratchpad section of a session
  */
 export async function readScratchpad(
   input: ReadScratchpadInput,
@@ -40,50 +438,224 @@ export async function readScratchpad(
       );
     }
 
-    return context.encoder.encodeScratchpad(session.id, session.scratchpad);
-  } catch (error) {
-    if (error instanceof UserIdMismatchError) {
-      return context.encoder.encodeError(
-        "User ID mismatch - access denied",
-        "USER_ID_MISMATCH"
-      );
+    const name = input.name ?? DEFAULT_SCRATCHPAD;
+    const content = getScratchpadContent(session, name);
+
+    if (content === undefined) {
+      throw scratchpadNotFound(name);
     }
-    throw error;
+
+    const partial =
+      input.section !== undefined ||
+      input.offset !== undefined ||
+      input.limit !== undefined ||
+      input.max_chars !== undefined;
+    const selected = partial ? selectContent(content, input) : undefined;
+
+    return context.encoder.encodeScratchpad(
+      session.id,
+      selected?.content ?? content,
+      name !== DEFAULT_SCRATCHPAD ? name : undefined,
+      selected?.window
+    );
+  } catch (error) {
+    return encodeScratchpadError(error, input.session_id, context);
   }
 }
 
 /**
  * Write content to the scratchpad (replaces existing content)
+ * Uses mutex lock so it cannot interleave with appends and patches.
  */
 export async function writeScratchpad(
   input: WriteScratchpadInput,
   context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      const name = input.name ?? DEFAULT_SCRATCHPAD;
+      const content = await editScratchpad(
+        input.session_id,
+        name,
+        context,
+        true,
+        () => input.content
+      );
+
+      if (content === null) {
+        return context.encoder.encodeError(
+          `Session not found: ${input.session_id}`,
+          "SESSION_NOT_FOUND"
+        );
+      }
+
+      return context.encoder.encodeSuccess("Scratchpad updated successfully", {
+        session_id: input.session_id,
+        name,
+        content_length: content.length,
+        content_hash: hashContent(content),
+      });
+    } catch (error) {
+      return encodeScratchpadError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * Add content to the end (or start) of the scratchpad.
+ * Uses mutex lock so parallel appends are never lost.
+ */
+export async function appendScratchpad(
+  input: AppendScratchpadInput,
+  context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      const name = input.name ?? DEFAULT_SCRATCHPAD;
+      const separator = input.separator ?? "\n";
+      const content = await editScratchpad(
+        input.session_id,
+        name,
+        context,
+        true,
+        (existing) => {
+          if (existing === "") {
+            return input.content;
+          }
+          return input.position === "start"
+            ? input.content + separator + existing
+            : existing + separator + input.content;
+        }
+      );
+
+      if (content === null) {
+        return context.encoder.encodeError(
+          `Session not found: ${input.session_id}`,
+          "SESSION_NOT_FOUND"
+        );
+      }
+
+      return context.encoder.encodeSuccess("Scratchpad updated successfully", {
+        session_id: input.session_id,
+        name,
+        content_length: content.length,
+        content_hash: hashContent(content),
+      });
+    } catch (error) {
+      return encodeScratchpadError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * Edit part of the scratchpad by search/replace or line range.
+ * Uses mutex lock so the patch applies to the latest content.
+ */
+export async function patchScratchpad(
+  input: PatchScratchpadInput,
+  context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      const name = input.name ?? DEFAULT_SCRATCHPAD;
+      let replacements = 0;
+      const content = await editScratchpad(
+        input.session_id,
+        name,
+        context,
+        false,
+        (existing) => {
+          const patched = applyPatch(existing, input);
+          replacements = patched.replacements;
+          return patched.content;
+        }
+      );
+
+      if (content === null) {
+        return context.encoder.encodeError(
+          `Session not found: ${input.session_id}`,
+          "SESSION_NOT_FOUND"
+        );
+      }
+
+      return context.encoder.encodeSuccess("Scratchpad patched successfully", {
+        session_id: input.session_id,
+        name,
+        replacements,
+        content_length: content.length,
+        content_hash: hashContent(content),
+      });
+    } catch (error) {
+      return encodeScratchpadError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * List the scratchpad sections of a session with their sizes
+ */
+export async function listScratchpads(
+  input: ListScratchpadsInput,
+  context: ToolContext
 ): Promise<string> {
   try {
-    await context.store.update(
-      input.session_id,
-      { scratchpad: input.content },
-      context.userId
-    );
+    const session = await context.store.get(input.session_id, context.userId);
 
-    return context.encoder.encodeSuccess("Scratchpad updated successfully", {
-      session_id: input.session_id,
-      content_length: input.content.length,
-    });
-  } catch (error) {
-    if (error instanceof SessionNotFoundError) {
+    if (!session) {
       return context.encoder.encodeError(
         `Session not found: ${input.session_id}`,
         "SESSION_NOT_FOUND"
       );
     }
-    if (error instanceof UserIdMismatchError) {
+
+    return context.encoder.encodeScratchpadList(
+      session.id,
+      listScratchpadInfos(session)
+    );
+  } catch (error) {
+    return encodeScratchpadError(error, input.session_id, context);
+  }
+}
+
+/**
+ * Get the Markdown heading tree of a scratchpad section
+ */
+export async function scratchpadOutline(
+  input: ScratchpadOutlineInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const session = await context.store.get(input.session_id, context.userId);
+
+    if (!session) {
       return context.encoder.encodeError(
-        "User ID mismatch - access denied",
-        "USER_ID_MISMATCH"
+        `Session not found: ${input.session_id}`,
+        "SESSION_NOT_FOUND"
       );
     }
-    throw error;
+
+    const name = input.name ?? DEFAULT_SCRATCHPAD;
+    const content = getScratchpadContent(session, name);
+
+    if (content === undefined) {
+      throw scratchpadNotFound(name);
+    }
+
+    const lines = splitLines(content);
+    return context.encoder.encodeScratchpadOutline(
+      session.id,
+      name,
+      lines.length,
+      buildOutline(parseHeadings(lines))
+    );
+  } catch (error) {
+    return encodeScratchpadError(error, input.session_id, context);
   }
 }
 
@@ -97,6 +669,15 @@ export const readScratchpadTool = {
 The scratchpad is a freeform text area for storing working notes, intermediate findings, 
 reasoning trails, or any other contextual information during agent workflows.
 
+Pass name to read a named section (e.g. 'findings'); use list_scratchpads to see which
+sections exist. Without a name, the 'default' section is read.
+
+For large notes, read only part of the content:
+- section: the part under a Markdown heading (see scratchpad_outline)
+- offset / limit: skip and take a number of lines
+- max_chars: cut the content with a truncation marker
+Partial reads also return startLine, endLine, totalLines and totalLength.
+
 Returns the scratchpad content along with session metadata.`,
   inputSchema: ReadScratchpadInputSchema,
   handler: readScratchpad,
@@ -112,7 +693,71 @@ Use the scratchpad to store:
 - Blockers and current approach documentation
 - Any contextual information needed across tool calls
 
-The entire content is replaced - to append, first read the current content and concatenate.`,
+Pass name to write a named section (e.g. 'findings', 'decisions', 'blockers') instead
+of the 'default' one; new sections are created on first write.
+
+The entire content is replaced - to add to it, use append_scratchpad; to change part
+of it, use patch_scratchpad.
+
+Returns the new content length and a SHA-256 content hash.`,
   inputSchema: WriteScratchpadInputSchema,
   handler: writeScratchpad,
 };
+
+export const appendScratchpadTool = {
+  name: "append_scratchpad",
+  description: `Add content to the session's scratchpad without replacing it.
+
+Appends to the end by default; set position to 'start' to prepend. A separator
+(default: newline) is inserted between the existing and new content. Safe to call
+in parallel - no need to read the scratchpad first. Pass name to append to a named
+section; it is created if needed.
+
+Returns the new content length and a SHA-256 content hash.`,
+  inputSchema: AppendScratchpadInputSchema,
+  handler: appendScratchpad,
+};
+
+export const patchScratchpadTool = {
+  name: "patch_scratchpad",
+  description: `Edit part of the session's scratchpad in place.
+
+Either:
+- search + replacement: replace exact text. The text must occur exactly once unless
+  replace_all is set.
+- start_line (+ end_line) + replacement: replace a 1-based, inclusive line range.
+  An empty replacement deletes the lines; end_line = start_line - 1 inserts before
+  start_line.
+
+The patch is applied atomically to the latest content. Pass name to patch a named
+section.
+
+Returns the number of replacements, the new content length and a SHA-256 content hash.`,
+  inputSchema: PatchScratchpadInputSchema,
+  handler: patchScratchpad,
+};
+
+export const listScratchpadsTool = {
+  name: "list_scratchpads",
+  description: `List the scratchpad sections of the session.
+
+Every session has a 'default' section; more are created by writing or appending
+with a name (e.g. 'findings', 'decisions', 'blockers').
+
+Returns each section's name and content length.`,
+  inputSchema: ListScratchpadsInputSchema,
+  handler: listScratchpads,
+};
+
+export const scratchpadOutlineTool = {
+  name: "scratchpad_outline",
+  description: `Get the Markdown heading outline of the session's scratchpad.
+
+Use to navigate large notes without reading them in full: each heading comes with
+its line number and the last line of its section, which can be passed to
+read_scratchpad as section or offset/limit. Pass name for a named section.
+
+Returns the heading tree with line numbers and the total line count.`,
+  inputSchema: ScratchpadOutlineInputSchema,
+  handler: scratchpadOutline,
+};
@@ -0,0 +1,294 @@
+import { z } from "zod";
+import {
+  ScratchpadEditError,
+  ScratchpadRevision,
+  Session,
+} from "../storage/types.js";
+import { ToolContext } from "./session.js";
+import {
+  ScratchpadNameSchema,
+  editScratchpad,
+  encodeScratchpadError,
+  scratchpadNotFound,
+} from "./scratchpad.js";
+import { getSessionLock } from "../utils/locks.js";
+import { hashContent } from "../utils/hash.js";
+import { diffLines } from "../utils/diff.js";
+import {
+  DEFAULT_SCRATCHPAD,
+  getScratchpadContent,
+  getScratchpadRevisions,
+} from "../utils/scratchpads.js";
+
+/**
+ * Revision number of a scratchpad section
+ */
+const RevisionSchema = z
+  .number()
+  .int()
+  .positive()
+  .describe("Revision number from scratchpad_history");
+
+/**
+ * Schema for scratchpad_history tool input
+ */
+export const ScratchpadHistoryInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  name: ScratchpadNameSchema,
+});
+
+export type ScratchpadHistoryInput = z.infer<
+  typeof ScratchpadHistoryInputSchema
+>;
+
+/**
+ * Schema for read_scratchpad_revision tool input
+ */
+export const ReadScratchpadRevisionInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  name: ScratchpadNameSchema,
+  revision: RevisionSchema,
+});
+
+export type ReadScratchpadRevisionInput = z.infer<
+  typeof ReadScratchpadRevisionInputSchema
+>;
+
+/**
+ * Schema for diff_scratchpad tool input
+ */
+export const DiffScratchpadInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  name: ScratchpadNameSchema,
+  from_revision: RevisionSchema.describe("The older revision to compare"),
+  to_revision: RevisionSchema.optional().describe(
+    "The newer revision to compare (default: the current content)"
+  ),
+});
+
+export type DiffScratchpadInput = z.infer<typeof DiffScratchpadInputSchema>;
+
+/**
+ * Schema for restore_scratchpad tool input
+ */
+export const RestoreScratchpadInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  name: ScratchpadNameSchema,
+  revision: RevisionSchema.describe("The revision to bring back"),
+});
+
+export type RestoreScratchpadInput = z.infer<
+  typeof RestoreScratchpadInputSchema
+>;
+
+/**
+ * Find a revision of a scratchpad section
+ * @throws ScratchpadEditError if the revision doesn't exist (or was dropped)
+ */
+function findRevision(
+  session: Session,
+  name: string,
+  revision: number
+): ScratchpadRevision {
+  const found = getScratchpadRevisions(session, name).find(
+    (r) => r.revision === revision
+  );
+
+  if (!found) {
+    throw new ScratchpadEditError(
+      `Revision ${revision} not found for scratchpad: ${name}`,
+      "REVISION_NOT_FOUND"
+    );
+  }
+  return found;
+}
+
+/**
+ * List the saved revisions of a scratchpad section
+ */
+export async function scratchpadHistory(
+  input: ScratchpadHistoryInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const session = await context.store.get(input.session_id, context.userId);
+
+    if (!session) {
+      return context.encoder.encodeError(
+        `Session not found: ${input.session_id}`,
+        "SESSION_NOT_FOUND"
+      );
+    }
+
+    const name = input.name ?? DEFAULT_SCRATCHPAD;
+    return context.encoder.encodeScratchpadHistory(
+      session.id,
+      name,
+      getScratchpadRevisions(session, name)
+    );
+  } catch (error) {
+    return encodeScratchpadError(error, input.session_id, context);
+  }
+}
+
+/**
+ * Read the content of a scratchpad revision
+ */
+export async function readScratchpadRevision(
+  input: ReadScratchpadRevisionInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const session = await context.store.get(input.session_id, context.userId);
+
+    if (!session) {
+      return context.encoder.encodeError(
+        `Session not found: ${input.session_id}`,
+        "SESSION_NOT_FOUND"
+      );
+    }
+
+    const name = input.name ?? DEFAULT_SCRATCHPAD;
+    return context.encoder.encodeScratchpadRevision(
+      session.id,
+      findRevision(session, name, input.revision)
+    );
+  } catch (error) {
+    return encodeScratchpadError(error, input.session_id, context);
+  }
+}
+
+/**
+ * Compare two revisions of a scratchpad section, or a revision with the
+ * current content
+ */
+export async function diffScratchpad(
+  input: DiffScratchpadInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const session = await context.store.get(input.session_id, context.userId);
+
+    if (!session) {
+      return context.encoder.encodeError(
+        `Session not found: ${input.session_id}`,
+        "SESSION_NOT_FOUND"
+      );
+    }
+
+    const name = input.name ?? DEFAULT_SCRATCHPAD;
+    const from = findRevision(session, name, input.from_revision);
+    let toContent: string | undefined;
+
+    if (input.to_revision !== undefined) {
+      toContent = findRevision(session, name, input.to_revision).content;
+    } else {
+      toContent = getScratchpadContent(session, name);
+      if (toContent === undefined) {
+        throw scratchpadNotFound(name);
+      }
+    }
+
+    return context.encoder.encodeScratchpadDiff(session.id, name, {
+      from: from.revision,
+      to: input.to_revision ?? "current",
+      diff: diffLines(from.content, toContent),
+    });
+  } catch (error) {
+    return encodeScratchpadError(error, input.session_id, context);
+  }
+}
+
+/**
+ * Bring back the content of an earlier revision.
+ * The restored content is saved as a new revision, so a restore can be
+ * undone as well. Uses mutex lock like all scratchpad writes.
+ */
+export async function restoreScratchpad(
+  input: RestoreScratchpadInput,
+  context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      const name = input.name ?? DEFAULT_SCRATCHPAD;
+      const content = await editScratchpad(
+        input.session_id,
+        name,
+        context,
+        true,
+        (_current, session) =>
+          findRevision(session, name, input.revision).content
+      );
+
+      if (content === null) {
+        return context.encoder.encodeError(
+          `Session not found: ${input.session_id}`,
+          "SESSION_NOT_FOUND"
+        );
+      }
+
+      return context.encoder.encodeSuccess("Scratchpad restored successfully", {
+        session_id: input.session_id,
+        name,
+        restored_revision: input.revision,
+        content_length: content.length,
+        content_hash: hashContent(content),
+      });
+    } catch (error) {
+      return encodeScratchpadError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * Tool definitions for MCP registration
+ */
+export const scratchpadHistoryTool = {
+  name: "scratchpad_history",
+  description: `List the saved revisions of a scratchpad section.
+
+Every write, append, patch or restore saves a revision with its timestamp, author
+(X-User-ID header) and size. Only the most recent revisions per section are kept
+(SCRATCHPAD_HISTORY_LIMIT, default 20). Pass name for a named section.
+
+Returns revisions oldest first: revision number, createdAt, author and length.`,
+  inputSchema: ScratchpadHistoryInputSchema,
+  handler: scratchpadHistory,
+};
+
+export const readScratchpadRevisionTool = {
+  name: "read_scratchpad_revision",
+  description: `Read the content of a saved scratchpad revision.
+
+Use scratchpad_history to find revision numbers. Pass name for a named section.
+
+Returns the revision's content and metadata.`,
+  inputSchema: ReadScratchpadRevisionInputSchema,
+  handler: readScratchpadRevision,
+};
+
+export const diffScratchpadTool = {
+  name: "diff_scratchpad",
+  description: `Compare two revisions of a scratchpad section.
+
+Compares from_revision with to_revision, or with the current content when
+to_revision is omitted. Pass name for a named section.
+
+Returns a unified line diff ('-' removed, '+' added, ' ' context lines).`,
+  inputSchema: DiffScratchpadInputSchema,
+  handler: diffScratchpad,
+};
+
+export const restoreScratchpadTool = {
+  name: "restore_scratchpad",
+  description: `Restore a scratchpad section to an earlier revision.
+
+Replaces the current content with the given revision's content. The restore is
+saved as a new revision, so it can be undone too. Pass name for a named section.
+
+Returns the new content length and a SHA-256 content hash.`,
+  inputSchema: RestoreScratchpadInputSchema,
+  handler: restoreScratchpad,
+};
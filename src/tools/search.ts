@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { UserIdMismatchError } from "../storage/types.js";
+import { ToolContext } from "./session.js";
+import {
+  SEARCH_SCOPES,
+  buildSearchPattern,
+  searchSessionContent,
+} from "../utils/search.js";
+
+/**
+ * Schema for search_session tool input
+ */
+export const SearchSessionInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  query: z.string().min(1).describe("Text (or regular expression) to find"),
+  regex: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Treat the query as a JavaScript regular expression"),
+  case_sensitive: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Match case exactly (default: case-insensitive)"),
+  scope: z
+    .enum(SEARCH_SCOPES)
+    .optional()
+    .default("all")
+    .describe(
+      "Where to search: 'all', 'scratchpad' (all sections) or 'todos' (titles, descriptions and notes)"
+    ),
+  context_lines: z
+    .number()
+    .int()
+    .min(0)
+    .max(10)
+    .optional()
+    .default(2)
+    .describe("Scratchpad lines shown before and after each match (default: 2)"),
+  max_results: z
+    .number()
+    .int()
+    .positive()
+    .max(500)
+    .optional()
+    .default(50)
+    .describe("Maximum number of matches to return (default: 50)"),
+});
+
+export type SearchSessionInput = z.infer<typeof SearchSessionInputSchema>;
+
+/**
+ * Search the scratchpad and todos of a session for a literal or regex query
+ */
+export async function searchSession(
+  input: SearchSessionInput,
+  context: ToolContext
+): Promise<string> {
+  let pattern: RegExp;
+  try {
+    pattern = buildSearchPattern(
+      input.query,
+      input.regex ?? false,
+      input.case_sensitive ?? false
+    );
+  } catch (error) {
+    return context.encoder.encodeError(
+      `Invalid regular expression: ${(error as Error).message}`,
+      "INVALID_INPUT"
+    );
+  }
+
+  try {
+    const session = await context.store.get(input.session_id, context.userId);
+
+    if (!session) {
+      return context.encoder.encodeError(
+        `Session not found: ${input.session_id}`,
+        "SESSION_NOT_FOUND"
+      );
+    }
+
+    const results = searchSessionContent(session, pattern, {
+      scope: input.scope ?? "all",
+      contextLines: input.context_lines ?? 2,
+      maxResults: input.max_results ?? 50,
+    });
+
+    return context.encoder.encodeSearchResults(session.id, input.query, results);
+  } catch (error) {
+    if (error instanceof UserIdMismatchError) {
+      return context.encoder.encodeError(
+        "User ID mismatch - access denied",
+        "USER_ID_MISMATCH"
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Tool definition for MCP registration
+ */
+export const searchSessionTool = {
+  name: "search_session",
+  description: `Search the scratchpad and todos of a session, grep-style.
+
+Use to recall where something was noted without reading everything. The query is
+literal text unless regex is true; matching is case-insensitive by default.
+Regular expressions are limited to 200 characters, without backreferences or
+repeated groups holding quantifiers or alternatives like (a+)+ or (a|b)*.
+
+Scratchpad matches (all sections) come with line numbers and surrounding context
+lines; todo matches name the todo and the field (title, description or note).
+
+Returns the matches, up to max_results, and whether more were found.`,
+  inputSchema: SearchSessionInputSchema,
+  handler: searchSession,
+};
@@ -1,15 +1,198 @@
 import { z } from "zod";
-import { SessionStore } from "../storage/types.js";
+import {
+  QuotaExceededError,
+  SessionClosedError,
+  SessionImportError,
+  SessionNotFoundError,
+  SessionStore,
+  TodoNotFoundError,
+  UserIdMismatchError,
+} from "../storage/types.js";
 import { ResponseEncoder } from "../utils/encoder.js";
+import {
+  SessionLimits,
+  checkFactLimits,
+  checkImportLimits,
+  checkScratchpadLimits,
+  checkTodoLimits,
+  checkTtlLimit,
+  getSessionLimits,
+} from "../utils/limits.js";
+import { copyTodos, summarizeSession } from "../utils/sessions.js";
+import { getSessionLock, removeSessionLock } from "../utils/locks.js";
+import { EXPORT_FORMATS, exportSessionAs } from "../utils/sessionExport.js";
+import {
+  MAX_IMPORT_LENGTH,
+  parseSessionImport,
+  validateImportedSession,
+} from "../utils/sessionImport.js";
+
+/**
+ * Session title, shown by list_sessions
+ */
+const SessionTitleSchema = z
+  .string()
+  .min(1)
+  .max(200)
+  .describe("A short label to recognize the session by, e.g. 'Refactor auth'");
+
+/**
+ * Session lifetime, bounded by MAX_SESSION_TTL_HOURS
+ */
+const SessionTtlSchema = z
+  .number()
+  .positive()
+  .describe(
+    "Hours until the session expires, overriding the server default (SESSION_TTL_HOURS)"
+  );
+
+/**
+ * Whether a session is exempt from expiry
+ */
+const SessionPinSchema = z
+  .boolean()
+  .describe("Pin the session so it never expires; false removes the pin");
 
 /**
  * Schema for init_session tool input
  * No required parameters - userId is extracted from X-User-ID header
  */
-export const InitSessionInputSchema = z.object({});
+export const InitSessionInputSchema = z.object({
+  title: SessionTitleSchema.optional(),
+  ttl_hours: SessionTtlSchema.optional(),
+  pin: SessionPinSchema.optional(),
+  parent_session_id: z
+    .string()
+    .optional()
+    .describe(
+      "Session this one works for, e.g. the orchestrator's session. The new session is listed by list_child_sessions of the parent"
+    ),
+  parent_todo_id: z
+    .string()
+    .optional()
+    .describe(
+      "Todo of the parent session this session works on. It is completed once all todos of this session are done (requires parent_session_id)"
+    ),
+});
 
 export type InitSessionInput = z.infer<typeof InitSessionInputSchema>;
 
+/**
+ * Schema for list_sessions tool input
+ * No parameters - sessions are looked up by the X-User-ID header
+ */
+export const ListSessionsInputSchema = z.object({});
+
+export type ListSessionsInput = z.infer<typeof ListSessionsInputSchema>;
+
+/**
+ * Schema for delete_session tool input
+ */
+export const DeleteSessionInputSchema = z.object({
+  session_id: z.string().describe("The session ID to delete"),
+});
+
+export type DeleteSessionInput = z.infer<typeof DeleteSessionInputSchema>;
+
+/**
+ * Schema for set_session_title tool input
+ */
+export const SetSessionTitleInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  title: SessionTitleSchema,
+});
+
+export type SetSessionTitleInput = z.infer<typeof SetSessionTitleInputSchema>;
+
+/**
+ * Schema for close_session tool input
+ */
+export const CloseSessionInputSchema = z.object({
+  session_id: z.string().describe("The session ID to close"),
+});
+
+export type CloseSessionInput = z.infer<typeof CloseSessionInputSchema>;
+
+/**
+ * Schema for extend_session tool input
+ */
+export const ExtendSessionInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  ttl_hours: SessionTtlSchema.optional().describe(
+    "Hours from now until the session expires. Omit to restart the session's current TTL"
+  ),
+  pin: SessionPinSchema.optional(),
+});
+
+export type ExtendSessionInput = z.infer<typeof ExtendSessionInputSchema>;
+
+/**
+ * Schema for fork_session tool input
+ */
+export const ForkSessionInputSchema = z.object({
+  session_id: z.string().describe("The session ID to fork"),
+  title: SessionTitleSchema.optional().describe(
+    "Title of the new session (default: the original's title)"
+  ),
+  pending_only: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Only copy todos that are not done or cancelled"),
+});
+
+export type ForkSessionInput = z.infer<typeof ForkSessionInputSchema>;
+
+/**
+ * Schema for list_child_sessions tool input
+ */
+export const ListChildSessionsInputSchema = z.object({
+  session_id: z.string().describe("The parent session ID"),
+});
+
+export type ListChildSessionsInput = z.infer<
+  typeof ListChildSessionsInputSchema
+>;
+
+/**
+ * Schema for export_session tool input
+ */
+export const ExportSessionInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  format: z
+    .enum(EXPORT_FORMATS)
+    .default("md")
+    .describe(
+      "md: scratchpads and a todo checklist to read or archive; json: a versioned bundle with all session data"
+    ),
+});
+
+export type ExportSessionInput = z.infer<typeof ExportSessionInputSchema>;
+
+/**
+ * Schema for import_session tool input
+ */
+export const ImportSessionInputSchema = z.object({
+  content: z
+    .string()
+    .min(1)
+    .max(MAX_IMPORT_LENGTH)
+    .describe(
+      "A JSON bundle from export_session, or a Markdown document with a '- [ ]' checklist"
+    ),
+  format: z
+    .enum(EXPORT_FORMATS)
+    .optional()
+    .describe("md or json; detected from the content if omitted"),
+  title: SessionTitleSchema.optional().describe(
+    "Title of the new session, defaults to the bundle's title"
+  ),
+  ttl_hours: SessionTtlSchema.optional(),
+  pin: SessionPinSchema.optional(),
+});
+
+export type ImportSessionInput = z.infer<typeof ImportSessionInputSchema>;
+
 /**
  * Context passed to tool handlers
  */
@@ -17,23 +200,360 @@ export interface ToolContext {
   store: SessionStore;
   encoder: ResponseEncoder;
   userId?: string; // From X-User-ID header
+  limits?: SessionLimits; // Defaults to the limits from environment
+}
+
+/**
+ * Encode errors from session operations
+ * Unknown errors are rethrown.
+ */
+function encodeSessionError(
+  error: unknown,
+  sessionId: string,
+  context: ToolContext
+): string {
+  if (error instanceof SessionNotFoundError) {
+    return context.encoder.encodeError(
+      `Session not found: ${sessionId}`,
+      "SESSION_NOT_FOUND"
+    );
+  }
+  if (error instanceof UserIdMismatchError) {
+    return context.encoder.encodeError(
+      "User ID mismatch - access denied",
+      "USER_ID_MISMATCH"
+    );
+  }
+  if (error instanceof SessionClosedError) {
+    return context.encoder.encodeError(error.message, "SESSION_CLOSED");
+  }
+  if (error instanceof TodoNotFoundError) {
+    return context.encoder.encodeError(error.message, "TODO_NOT_FOUND");
+  }
+  if (error instanceof QuotaExceededError) {
+    return context.encoder.encodeError(error.message, error.code);
+  }
+  if (error instanceof SessionImportError) {
+    return context.encoder.encodeError(error.message, error.code);
+  }
+  throw error;
 }
 
 /**
  * Initialize a new session
  * Creates a fresh session with empty scratchpad and todo list
  * If X-User-ID header is present, session is bound to that user
+ * A parent session (and todo) must be accessible with the same header.
  */
 export async function initSession(
-  _input: InitSessionInput,
+  input: InitSessionInput,
+  context: ToolContext
+): Promise<string> {
+  const parentId = input.parent_session_id;
+
+  if (input.parent_todo_id !== undefined && parentId === undefined) {
+    return context.encoder.encodeError(
+      "parent_todo_id requires parent_session_id",
+      "INVALID_INPUT"
+    );
+  }
+
+  try {
+    checkTtlLimit(input.ttl_hours, context.limits ?? getSessionLimits());
+
+    if (parentId !== undefined) {
+      const parent = await context.store.get(parentId, context.userId);
+
+      if (!parent) {
+        throw new SessionNotFoundError(parentId);
+      }
+      if (
+        input.parent_todo_id !== undefined &&
+        !parent.todos.some((todo) => todo.id === input.parent_todo_id)
+      ) {
+        throw new TodoNotFoundError(input.parent_todo_id, parentId);
+      }
+    }
+
+    const session = await context.store.create(context.userId, {
+      title: input.title,
+      ttlHours: input.ttl_hours,
+      pinned: input.pin,
+      parentSessionId: parentId,
+      parentTodoId: input.parent_todo_id,
+    });
+    return context.encoder.encodeSession(session);
+  } catch (error) {
+    return encodeSessionError(error, parentId ?? "", context);
+  }
+}
+
+/**
+ * List the live sessions owned by the caller's X-User-ID, most recently
+ * modified first
+ */
+export async function listSessions(
+  _input: ListSessionsInput,
+  context: ToolContext
+): Promise<string> {
+  if (context.userId === undefined) {
+    return context.encoder.encodeError(
+      "list_sessions requires the X-User-ID header",
+      "USER_ID_REQUIRED"
+    );
+  }
+
+  const sessions = await context.store.listByUser(context.userId);
+  return context.encoder.encodeSessionList(
+    context.userId,
+    sessions.map(summarizeSession)
+  );
+}
+
+/**
+ * Delete a session with its scratchpad, todos and facts
+ * Closed sessions can be deleted too.
+ */
+export async function deleteSession(
+  input: DeleteSessionInput,
   context: ToolContext
 ): Promise<string> {
-  const session = await context.store.create(context.userId);
-  return context.encoder.encodeSession(session);
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      await context.store.delete(input.session_id, context.userId);
+      removeSessionLock(input.session_id);
+
+      return context.encoder.encodeSuccess("Session deleted", {
+        session_id: input.session_id,
+      });
+    } catch (error) {
+      return encodeSessionError(error, input.session_id, context);
+    }
+  });
 }
 
 /**
- * Tool definition for MCP registration
+ * Rename a session
+ * Uses mutex lock to prevent race conditions with parallel calls.
+ */
+export async function setSessionTitle(
+  input: SetSessionTitleInput,
+  context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      await context.store.update(
+        input.session_id,
+        { title: input.title },
+        context.userId
+      );
+
+      return context.encoder.encodeSuccess("Session title updated", {
+        session_id: input.session_id,
+        title: input.title,
+      });
+    } catch (error) {
+      return encodeSessionError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * Mark a session read-only. Closing an already closed session succeeds
+ * and keeps the original closing time.
+ * Uses mutex lock to prevent race conditions with parallel calls.
+ */
+export async function closeSession(
+  input: CloseSessionInput,
+  context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      const session = await context.store.get(input.session_id, context.userId);
+
+      if (!session) {
+        throw new SessionNotFoundError(input.session_id);
+      }
+
+      if (session.closedAt !== undefined) {
+        return context.encoder.encodeSuccess("Session already closed", {
+          session_id: session.id,
+          closed_at: session.closedAt.toISOString(),
+        });
+      }
+
+      const closedAt = new Date();
+      await context.store.update(session.id, { closedAt }, context.userId);
+
+      return context.encoder.encodeSuccess("Session closed", {
+        session_id: session.id,
+        closed_at: closedAt.toISOString(),
+      });
+    } catch (error) {
+      return encodeSessionError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * Restart the TTL of a session, optionally with a new TTL or pin.
+ * Closed sessions can be extended too.
+ * Uses mutex lock to prevent race conditions with parallel calls.
+ */
+export async function extendSession(
+  input: ExtendSessionInput,
+  context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      checkTtlLimit(input.ttl_hours, context.limits ?? getSessionLimits());
+
+      const session = await context.store.extend(
+        input.session_id,
+        { ttlHours: input.ttl_hours, pinned: input.pin },
+        context.userId
+      );
+
+      return context.encoder.encodeSession(session);
+    } catch (error) {
+      return encodeSessionError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * Copy a session's scratchpads and todos into a new session owned by the
+ * caller. The original is left unchanged and may be closed.
+ * The copy must fit the current limits.
+ */
+export async function forkSession(
+  input: ForkSessionInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const source = await context.store.get(input.session_id, context.userId);
+
+    if (!source) {
+      throw new SessionNotFoundError(input.session_id);
+    }
+
+    const content = {
+      scratchpad: source.scratchpad,
+      scratchpads: { ...source.scratchpads },
+      todos: copyTodos(source.todos, input.pending_only ?? false),
+    };
+    const limits = context.limits ?? getSessionLimits();
+    checkScratchpadLimits({ scratchpad: "", scratchpads: {} }, content, limits);
+    checkTodoLimits([], content.todos, limits);
+
+    const fork = await context.store.create(context.userId, {
+      title: input.title ?? source.title,
+      parentSessionId: source.id,
+      content,
+    });
+    return context.encoder.encodeSession(fork);
+  } catch (error) {
+    return encodeSessionError(error, input.session_id, context);
+  }
+}
+
+/**
+ * List the live sessions created with the given parent (delegated or
+ * forked), oldest first. Only children the caller can access are listed.
+ */
+export async function listChildSessions(
+  input: ListChildSessionsInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const parent = await context.store.get(input.session_id, context.userId);
+
+    if (!parent) {
+      throw new SessionNotFoundError(input.session_id);
+    }
+
+    const children = await context.store.listChildren(parent.id);
+    const accessible = children.filter(
+      (child) =>
+        child.userId === undefined || child.userId === context.userId
+    );
+
+    return context.encoder.encodeChildSessions(
+      parent.id,
+      accessible.map(summarizeSession)
+    );
+  } catch (error) {
+    return encodeSessionError(error, input.session_id, context);
+  }
+}
+
+/**
+ * Export a session as Markdown or as a JSON bundle
+ * The export is returned as is, regardless of the response format.
+ */
+export async function exportSession(
+  input: ExportSessionInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const session = await context.store.get(input.session_id, context.userId);
+
+    if (!session) {
+      throw new SessionNotFoundError(input.session_id);
+    }
+
+    return exportSessionAs(session, input.format ?? "md");
+  } catch (error) {
+    return encodeSessionError(error, input.session_id, context);
+  }
+}
+
+/**
+ * Create a session from a JSON bundle or a Markdown plan
+ * The new session belongs to the caller; the content is checked against the
+ * limits before its todo links are validated, then stored with the session
+ * in one write.
+ */
+export async function importSession(
+  input: ImportSessionInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const limits = context.limits ?? getSessionLimits();
+    checkTtlLimit(input.ttl_hours, limits);
+
+    const { title, ...content } = parseSessionImport(
+      input.content,
+      input.format
+    );
+    checkScratchpadLimits({ scratchpad: "", scratchpads: {} }, content, limits);
+    checkTodoLimits([], content.todos, limits);
+    checkFactLimits({}, content.facts, limits);
+    checkImportLimits(content.scratchpadHistory, limits);
+    validateImportedSession(content);
+
+    const session = await context.store.create(context.userId, {
+      title: input.title ?? title,
+      ttlHours: input.ttl_hours,
+      pinned: input.pin,
+      content,
+    });
+    return context.encoder.encodeSession(session);
+  } catch (error) {
+    return encodeSessionError(error, "", context);
+  }
+}
+
+/**
+ * Tool definitions for MCP registration
  */
 export const initSessionTool = {
   name: "init_session",
@@ -43,8 +563,132 @@ Returns a unique session_id that must be used for all subsequent operations.
 
 If X-User-ID header is provided by the client, the session is bound to that user 
 for additional security - all future requests must include the same X-User-ID.
+Give it a title to find it again later with list_sessions.
 
-Sessions automatically expire after the configured TTL (default: 24 hours).`,
+For sub-agents, pass the orchestrator's parent_session_id and optionally the
+parent_todo_id being delegated: that todo is completed automatically once all
+todos of the new session are done.
+
+Sessions automatically expire after the configured TTL (default: 24 hours). Pass
+ttl_hours for a longer or shorter lifetime, or pin: true for a session that never
+expires. The response includes expires_at.
+Returns QUOTA_EXCEEDED if the user already has the maximum number of sessions, or
+ttl_hours is above the server maximum.`,
   inputSchema: InitSessionInputSchema,
   handler: initSession,
 };
+
+export const listSessionsTool = {
+  name: "list_sessions",
+  description: `List the sessions owned by the caller's X-User-ID, most recently modified first.
+
+Use to recover a session_id that was lost. Sessions created without X-User-ID are
+not listed; the header is required.
+
+Returns each session's ID, title, todo counts, scratchpad size and timestamps.`,
+  inputSchema: ListSessionsInputSchema,
+  handler: listSessions,
+};
+
+export const deleteSessionTool = {
+  name: "delete_session",
+  description: `Delete a session with its scratchpad, todos and facts.
+
+Use to clean up when the work is finished instead of waiting for the TTL to expire.
+This cannot be undone. Requires the same X-User-ID the session was created with.
+
+Returns success or SESSION_NOT_FOUND.`,
+  inputSchema: DeleteSessionInputSchema,
+  handler: deleteSession,
+};
+
+export const setSessionTitleTool = {
+  name: "set_session_title",
+  description: `Set the title of a session, as shown by list_sessions.
+
+Returns the new title, or SESSION_CLOSED if the session was closed.`,
+  inputSchema: SetSessionTitleInputSchema,
+  handler: setSessionTitle,
+};
+
+export const closeSessionTool = {
+  name: "close_session",
+  description: `Close a session, making it read-only.
+
+Use when the work is done but the results should stay readable. Afterwards, all
+tools that modify the scratchpad, todos, facts or title return SESSION_CLOSED;
+reading still works and the session can still be deleted.
+
+Returns the time the session was closed.`,
+  inputSchema: CloseSessionInputSchema,
+  handler: closeSession,
+};
+
+export const extendSessionTool = {
+  name: "extend_session",
+  description: `Keep a session alive longer.
+
+The session then expires ttl_hours from now (default: its current TTL), but never
+past the server's maximum session lifetime if one is set. Use pin: true to exempt
+it from expiry entirely, or pin: false to let it expire again.
+Closed sessions can be extended.
+
+Returns the session with its new expires_at, or QUOTA_EXCEEDED if ttl_hours is
+above the server maximum.`,
+  inputSchema: ExtendSessionInputSchema,
+  handler: extendSession,
+};
+
+export const forkSessionTool = {
+  name: "fork_session",
+  description: `Copy a session into a new one, to try another approach without changing the original.
+
+The new session gets copies of all scratchpad sections and todos (with the same
+todo IDs) and records the original as its parent. Facts and scratchpad history
+are not copied. Use pending_only to leave out done and cancelled todos.
+
+Returns the new session; use its session_id from then on.`,
+  inputSchema: ForkSessionInputSchema,
+  handler: forkSession,
+};
+
+export const listChildSessionsTool = {
+  name: "list_child_sessions",
+  description: `List the sessions created for a parent session: sub-agent sessions
+(init_session with parent_session_id) and forks.
+
+Use to follow delegated work. Returns each child's ID, title, linked parent todo,
+todo counts and whether it is closed, oldest first.`,
+  inputSchema: ListChildSessionsInputSchema,
+  handler: listChildSessions,
+};
+
+export const exportSessionTool = {
+  name: "export_session",
+  description: `Export a session to archive its plan and notes, e.g. at the end of a run.
+
+Formats:
+- md (default): title, every scratchpad section and the todos as a GitHub-style
+  checklist, with subtasks nested
+- json: a versioned bundle with all session data (scratchpads, history, facts,
+  todos with notes)
+
+Returns the exported document. Closed sessions can be exported.`,
+  inputSchema: ExportSessionInputSchema,
+  handler: exportSession,
+};
+
+export const importSessionTool = {
+  name: "import_session",
+  description: `Create a new session from a prepared plan or an exported session.
+
+Accepts:
+- a JSON bundle from export_session (format json): scratchpads, history, facts
+  and todos are restored; the new session is open and owned by you
+- a Markdown document: "- [ ]" and "- [x]" lines become todos (pending/done),
+  nested items become subtasks and the rest becomes the scratchpad
+
+Returns the new session like init_session, or INVALID_INPUT with the problems found.`,
+  inputSchema: ImportSessionInputSchema,
+  handler: importSession,
+};
@@ -1,14 +1,44 @@
 import { z } from "zod";
 import { nanoid } from "nanoid";
 import {
+  Session,
   Todo,
   TodoStatus,
+  TODO_STATUSES,
+  TODO_PRIORITIES,
   SessionNotFoundError,
+  SessionClosedError,
   UserIdMismatchError,
   TodoNotFoundError,
+  TodoValidationError,
+  QuotaExceededError,
 } from "../storage/types.js";
 import { ToolContext } from "./session.js";
 import { getSessionLock } from "../utils/locks.js";
+import {
+  buildTodoTree,
+  computeProgress,
+  getDescendantIds,
+} from "../utils/todoTree.js";
+import {
+  createsDependencyCycle,
+  findMissingDependencies,
+  getActionableTodos,
+  getUnsatisfiedDependencies,
+} from "../utils/todoDependencies.js";
+import { sortTodos, TODO_SORT_FIELDS } from "../utils/todoSort.js";
+import { filterTodos } from "../utils/todoFilter.js";
+import { getNextPosition, moveTodo, orderTodos } from "../utils/todoOrder.js";
+import { checkBlockedReason } from "../utils/todoStatus.js";
+import { checkTodoLimits, getSessionLimits } from "../utils/limits.js";
+
+/**
+ * Dates accept a date ("2025-01-31") or a full ISO 8601 datetime
+ */
+const DateInputSchema = z.union([
+  z.string().date(),
+  z.string().datetime({ offset: true }),
+]);
 
 /**
  * Schema for add_todo tool input
@@ -26,6 +56,21 @@ export const AddTodoInputSchema = z.object({
     .optional()
     .default([])
     .describe("Optional tags for categorization"),
+  parent_id: z
+    .string()
+    .optional()
+    .describe("Optional ID of the parent todo, to add this todo as a subtask"),
+  depends_on: z
+    .array(z.string())
+    .optional()
+    .describe("Optional IDs of todos that must be done before this one"),
+  priority: z
+    .enum(TODO_PRIORITIES)
+    .optional()
+    .describe("Optional priority from 'p0' (most urgent) to 'p3'"),
+  due_at: DateInputSchema.optional().describe(
+    "Optional due date (YYYY-MM-DD or ISO 8601 datetime)"
+  ),
 });
 
 export type AddTodoInput = z.infer<typeof AddTodoInputSchema>;
@@ -36,10 +81,60 @@ export type AddTodoInput = z.infer<typeof AddTodoInputSchema>;
 export const ListTodosInputSchema = z.object({
   session_id: z.string().describe("The session ID returned by init_session"),
   filter: z
-    .enum(["all", "pending", "done"])
+    .enum(["all", "open", ...TODO_STATUSES])
     .optional()
     .default("all")
-    .describe("Filter todos by status: 'all', 'pending', or 'done'"),
+    .describe(
+      "Filter todos by status: 'all', 'open' (not done or cancelled), or a single status"
+    ),
+  tags_any: z
+    .array(z.string())
+    .optional()
+    .describe("Only todos with at least one of these tags"),
+  tags_all: z
+    .array(z.string())
+    .optional()
+    .describe("Only todos with all of these tags"),
+  exclude_tags: z
+    .array(z.string())
+    .optional()
+    .describe("Skip todos with any of these tags"),
+  query: z
+    .string()
+    .optional()
+    .describe("Case-insensitive text to find in title or description"),
+  created_after: DateInputSchema.optional().describe(
+    "Only todos created at or after this date/datetime"
+  ),
+  created_before: DateInputSchema.optional().describe(
+    "Only todos created at or before this date/datetime"
+  ),
+  view: z
+    .enum(["flat", "tree"])
+    .optional()
+    .default("flat")
+    .describe(
+      "'flat' (default) lists todos in order, 'tree' nests subtasks under their parents"
+    ),
+  include_outcome: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Add completedAt, outcome and error columns to TONL output (default: false)"
+    ),
+  sort_by: z
+    .enum(TODO_SORT_FIELDS)
+    .optional()
+    .default("position")
+    .describe(
+      "Sort by 'position' (default, the plan order), 'created', 'priority', 'due', 'status' or 'title'"
+    ),
+  order: z
+    .enum(["asc", "desc"])
+    .optional()
+    .default("asc")
+    .describe("Sort order (default: 'asc')"),
 });
 
 export type ListTodosInput = z.infer<typeof ListTodosInputSchema>;
@@ -51,8 +146,61 @@ export const UpdateTodoInputSchema = z.object({
   session_id: z.string().describe("The session ID returned by init_session"),
   todo_id: z.string().describe("The ID of the todo item to update"),
   status: z
-    .enum(["pending", "done"])
+    .enum(TODO_STATUSES)
+    .optional()
     .describe("The new status for the todo item"),
+  blocked_reason: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Why the todo is blocked (required when setting status to 'blocked')"),
+  title: z.string().min(1).optional().describe("New title for the todo item"),
+  description: z
+    .string()
+    .optional()
+    .describe("New description for the todo item (replaces the existing one)"),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Replace all tags with this list"),
+  add_tags: z
+    .array(z.string())
+    .optional()
+    .describe("Tags to add (already present tags are ignored)"),
+  remove_tags: z
+    .array(z.string())
+    .optional()
+    .describe("Tags to remove"),
+  depends_on: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Replace the IDs of todos that must be done first (empty list removes all)"
+    ),
+  priority: z
+    .enum(TODO_PRIORITIES)
+    .nullable()
+    .optional()
+    .describe("New priority from 'p0' to 'p3', or null to clear it"),
+  due_at: DateInputSchema.nullable()
+    .optional()
+    .describe(
+      "New due date (YYYY-MM-DD or ISO 8601 datetime), or null to clear it"
+    ),
+  outcome: z
+    .string()
+    .min(1)
+    .nullable()
+    .optional()
+    .describe(
+      "What was found or produced, e.g. when marking done (null clears it)"
+    ),
+  error: z
+    .string()
+    .min(1)
+    .nullable()
+    .optional()
+    .describe("Why the todo failed, e.g. when cancelling (null clears it)"),
 });
 
 export type UpdateTodoInput = z.infer<typeof UpdateTodoInputSchema>;
@@ -63,10 +211,527 @@ export type UpdateTodoInput = z.infer<typeof UpdateTodoInputSchema>;
 export const DeleteTodoInputSchema = z.object({
   session_id: z.string().describe("The session ID returned by init_session"),
   todo_id: z.string().describe("The ID of the todo item to delete"),
+  cascade: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe(
+      "Also delete all subtasks (default: true). If false, subtasks move up to the deleted todo's parent"
+    ),
 });
 
 export type DeleteTodoInput = z.infer<typeof DeleteTodoInputSchema>;
 
+/**
+ * Schema for next_todos tool input
+ */
+export const NextTodosInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Maximum number of todos to return (default: all)"),
+});
+
+export type NextTodosInput = z.infer<typeof NextTodosInputSchema>;
+
+/**
+ * Schema for reorder_todos tool input
+ */
+export const ReorderTodosInputSchema = z.object({
+  session_id: z.string().describe("The session ID returned by init_session"),
+  todo_id: z
+    .string()
+    .optional()
+    .describe("The ID of the todo to move (use with before_id or after_id)"),
+  before_id: z
+    .string()
+    .optional()
+    .describe("Move the todo directly before this todo"),
+  after_id: z
+    .string()
+    .optional()
+    .describe("Move the todo directly after this todo"),
+  ordered_ids: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Full ordering: every todo ID in the session exactly once (instead of todo_id)"
+    ),
+});
+
+export type ReorderTodosInput = z.infer<typeof ReorderTodosInputSchema>;
+
+/**
+ * Allowed status transitions (keeping the current status is always allowed)
+ */
+const STATUS_TRANSITIONS: Record<TodoStatus, TodoStatus[]> = {
+  pending: ["in_progress", "blocked", "done", "cancelled"],
+  in_progress: ["pending", "blocked", "done", "cancelled"],
+  blocked: ["pending", "in_progress", "cancelled"],
+  done: ["pending", "in_progress"],
+  cancelled: ["pending"],
+};
+
+/**
+ * Check whether a status ends a todo's execution
+ */
+function isClosedStatus(status: TodoStatus): boolean {
+  return status === "done" || status === "cancelled";
+}
+
+/**
+ * Resolve the status of an updated todo, enforcing allowed transitions
+ * and requiring a reason for blocked todos. Closing a todo records when it
+ * was completed; reopening it clears that again.
+ * @throws TodoValidationError if the change is not allowed
+ */
+function resolveStatusChange(
+  existing: Todo,
+  input: UpdateTodoChanges
+): Pick<Todo, "status" | "blockedReason" | "completedAt"> {
+  const status = input.status ?? existing.status;
+  const completedAt = !isClosedStatus(status)
+    ? undefined
+    : status !== existing.status
+      ? new Date()
+      : existing.completedAt;
+
+  if (
+    status !== existing.status &&
+    !STATUS_TRANSITIONS[existing.status].includes(status)
+  ) {
+    throw new TodoValidationError(
+      `Cannot change status from '${existing.status}' to '${status}'`,
+      "INVALID_STATUS_TRANSITION"
+    );
+  }
+
+  if (status !== "blocked") {
+    if (input.blocked_reason !== undefined) {
+      throw new TodoValidationError(
+        "blocked_reason can only be set when status is 'blocked'"
+      );
+    }
+    return { status, blockedReason: undefined, completedAt };
+  }
+
+  const blockedReason = input.blocked_reason ?? existing.blockedReason;
+  checkBlockedReason(status, blockedReason);
+
+  return { status, blockedReason, completedAt };
+}
+
+/**
+ * Validate a todo's prerequisites: all must exist and none may lead back
+ * to the todo itself
+ * @returns The deduplicated list of prerequisite IDs
+ * @throws TodoValidationError for unknown IDs or dependency cycles
+ */
+function validateDependencies(
+  todos: Todo[],
+  todoId: string,
+  dependsOn: string[]
+): string[] {
+  const unique = [...new Set(dependsOn)];
+
+  const missing = findMissingDependencies(todos, unique);
+  if (missing.length > 0) {
+    throw new TodoValidationError(
+      `Dependencies not found: ${missing.join(", ")}`,
+      "INVALID_DEPENDENCY"
+    );
+  }
+
+  if (createsDependencyCycle(todos, todoId, unique)) {
+    throw new TodoValidationError(
+      `Dependencies of ${todoId} would create a cycle`,
+      "DEPENDENCY_CYCLE"
+    );
+  }
+
+  return unique;
+}
+
+/**
+ * Apply tag changes from an update: replace first, then add, then remove.
+ * Order of existing tags is preserved and duplicates are dropped.
+ */
+function applyTagChanges(
+  current: string[],
+  input: UpdateTodoChanges
+): string[] {
+  const tags = [...(input.tags ?? current)];
+
+  for (const tag of input.add_tags ?? []) {
+    if (!tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+
+  const removed = new Set(input.remove_tags ?? []);
+  return [...new Set(tags)].filter((tag) => !removed.has(tag));
+}
+
+/**
+ * Result of applying a todo operation to a session's todo list
+ */
+export interface TodoOperationResult {
+  todos: Todo[]; // The complete todo list after the operation
+  todo: Todo; // The added, updated or deleted todo
+}
+
+/**
+ * Result of deleting a todo, including removed subtasks
+ */
+export interface DeleteTodoOperationResult extends TodoOperationResult {
+  deletedIds: Set<string>;
+}
+
+export type AddTodoChanges = Omit<AddTodoInput, "session_id">;
+export type UpdateTodoChanges = Omit<UpdateTodoInput, "session_id" | "todo_id">;
+export type ReorderTodosChanges = Omit<ReorderTodosInput, "session_id">;
+
+/**
+ * Add a todo to a session's todo list without persisting it
+ * @throws TodoNotFoundError if the parent todo doesn't exist
+ * @throws TodoValidationError for invalid dependencies
+ */
+export function addTodoToList(
+  session: Session,
+  changes: AddTodoChanges
+): TodoOperationResult {
+  if (
+    changes.parent_id !== undefined &&
+    !session.todos.some((t) => t.id === changes.parent_id)
+  ) {
+    throw new TodoNotFoundError(changes.parent_id, session.id);
+  }
+
+  const id = nanoid(12); // Shorter ID for todos
+  const dependsOn =
+    changes.depends_on !== undefined
+      ? validateDependencies(session.todos, id, changes.depends_on)
+      : undefined;
+
+  const todo: Todo = {
+    id,
+    title: changes.title,
+    description: changes.description ?? "",
+    tags: changes.tags ?? [],
+    status: "pending" as TodoStatus,
+    parentId: changes.parent_id,
+    dependsOn,
+    priority: changes.priority,
+    dueAt: changes.due_at !== undefined ? new Date(changes.due_at) : undefined,
+    position: getNextPosition(session.todos),
+    createdAt: new Date(),
+  };
+
+  return { todos: [...session.todos, todo], todo };
+}
+
+/**
+ * Update a todo in a session's todo list without persisting it
+ * @throws TodoNotFoundError if the todo doesn't exist
+ * @throws TodoValidationError if no changes are given or a change is not allowed
+ */
+export function updateTodoInList(
+  session: Session,
+  todoId: string,
+  changes: UpdateTodoChanges
+): TodoOperationResult {
+  const hasChanges =
+    changes.status !== undefined ||
+    changes.blocked_reason !== undefined ||
+    changes.title !== undefined ||
+    changes.description !== undefined ||
+    changes.tags !== undefined ||
+    changes.add_tags !== undefined ||
+    changes.remove_tags !== undefined ||
+    changes.depends_on !== undefined ||
+    changes.priority !== undefined ||
+    changes.due_at !== undefined ||
+    changes.outcome !== undefined ||
+    changes.error !== undefined;
+
+  if (!hasChanges) {
+    throw new TodoValidationError(
+      "No changes provided - specify at least one of status, blocked_reason, title, description, tags, add_tags, remove_tags, depends_on, priority, due_at, outcome or error"
+    );
+  }
+
+  const todoIndex = session.todos.findIndex((t) => t.id === todoId);
+
+  if (todoIndex === -1) {
+    throw new TodoNotFoundError(todoId, session.id);
+  }
+
+  const existing = session.todos[todoIndex];
+  const updatedTodo: Todo = {
+    ...existing,
+    title: changes.title ?? existing.title,
+    description: changes.description ?? existing.description,
+    tags: applyTagChanges(existing.tags, changes),
+    ...resolveStatusChange(existing, changes),
+    dependsOn:
+      changes.depends_on !== undefined
+        ? validateDependencies(session.todos, existing.id, changes.depends_on)
+        : existing.dependsOn,
+    priority:
+      changes.priority === null
+        ? undefined
+        : (changes.priority ?? existing.priority),
+    dueAt:
+      changes.due_at === null
+        ? undefined
+        : changes.due_at !== undefined
+          ? new Date(changes.due_at)
+          : existing.dueAt,
+    outcome:
+      changes.outcome === null
+        ? undefined
+        : (changes.outcome ?? existing.outcome),
+    error:
+      changes.error === null ? undefined : (changes.error ?? existing.error),
+  };
+
+  if (updatedTodo.status === "done" && existing.status !== "done") {
+    const unsatisfied = getUnsatisfiedDependencies(session.todos, updatedTodo);
+    if (unsatisfied.length > 0) {
+      const waitingOn = unsatisfied.map((t) => t.id).join(", ");
+      throw new TodoValidationError(
+        `Cannot mark as done - waiting on: ${waitingOn}`,
+        "DEPENDENCIES_PENDING"
+      );
+    }
+  }
+
+  const todos = [...session.todos];
+  todos[todoIndex] = updatedTodo;
+
+  return { todos, todo: updatedTodo };
+}
+
+/**
+ * Delete a todo from a session's todo list without persisting it
+ * With cascade, all subtasks are deleted too; otherwise direct subtasks move
+ * up to the deleted todo's parent. Deleted todos are also dropped from the
+ * prerequisites of the remaining todos.
+ * @throws TodoNotFoundError if the todo doesn't exist
+ */
+export function deleteTodoFromList(
+  session: Session,
+  todoId: string,
+  cascade: boolean = true
+): DeleteTodoOperationResult {
+  const deletedTodo = session.todos.find((t) => t.id === todoId);
+
+  if (!deletedTodo) {
+    throw new TodoNotFoundError(todoId, session.id);
+  }
+
+  const deletedIds = new Set([deletedTodo.id]);
+
+  if (cascade) {
+    for (const id of getDescendantIds(session.todos, deletedTodo.id)) {
+      deletedIds.add(id);
+    }
+  }
+
+  const todos = session.todos
+    .filter((t) => !deletedIds.has(t.id))
+    .map((t) => ({
+      ...t,
+      parentId:
+        t.parentId === deletedTodo.id ? deletedTodo.parentId : t.parentId,
+      dependsOn: t.dependsOn?.filter((id) => !deletedIds.has(id)),
+    }));
+
+  return { todos, todo: deletedTodo, deletedIds };
+}
+
+/**
+ * Reorder a session's todo list without persisting it, either by moving one
+ * todo before/after another or by applying a full ordering
+ * @returns The todo list in its new order, with positions renumbered
+ * @throws TodoNotFoundError for unknown todo IDs
+ * @throws TodoValidationError if the request is incomplete or ambiguous
+ */
+export function reorderTodosInList(
+  session: Session,
+  changes: ReorderTodosChanges
+): Todo[] {
+  const ids = new Set(session.todos.map((t) => t.id));
+  const requireTodo = (todoId: string) => {
+    if (!ids.has(todoId)) {
+      throw new TodoNotFoundError(todoId, session.id);
+    }
+  };
+
+  if (changes.ordered_ids !== undefined) {
+    if (changes.todo_id !== undefined) {
+      throw new TodoValidationError(
+        "Specify either ordered_ids or todo_id, not both"
+      );
+    }
+
+    changes.ordered_ids.forEach(requireTodo);
+    const listed = new Set(changes.ordered_ids);
+    if (listed.size !== changes.ordered_ids.length) {
+      throw new TodoValidationError("ordered_ids must not list a todo twice");
+    }
+    const missing = session.todos.filter((t) => !listed.has(t.id));
+    if (missing.length > 0) {
+      throw new TodoValidationError(
+        `ordered_ids must list every todo - missing: ${missing.map((t) => t.id).join(", ")}`
+      );
+    }
+
+    return orderTodos(session.todos, changes.ordered_ids);
+  }
+
+  if (changes.todo_id === undefined) {
+    throw new TodoValidationError(
+      "Specify either ordered_ids, or todo_id with before_id or after_id"
+    );
+  }
+  if ((changes.before_id === undefined) === (changes.after_id === undefined)) {
+    throw new TodoValidationError(
+      "Specify exactly one of before_id or after_id"
+    );
+  }
+
+  const targetId = (changes.before_id ?? changes.after_id)!;
+  requireTodo(changes.todo_id);
+  requireTodo(targetId);
+  if (targetId === changes.todo_id) {
+    throw new TodoValidationError("Cannot move a todo relative to itself");
+  }
+
+  return moveTodo(
+    session.todos,
+    changes.todo_id,
+    targetId,
+    changes.before_id !== undefined ? "before" : "after"
+  );
+}
+
+/**
+ * Encode an error thrown while handling a todo tool call
+ * Unknown errors are rethrown.
+ */
+export function encodeTodoError(
+  error: unknown,
+  sessionId: string,
+  context: ToolContext
+): string {
+  if (error instanceof SessionNotFoundError) {
+    return context.encoder.encodeError(
+      `Session not found: ${sessionId}`,
+      "SESSION_NOT_FOUND"
+    );
+  }
+  if (error instanceof UserIdMismatchError) {
+    return context.encoder.encodeError(
+      "User ID mismatch - access denied",
+      "USER_ID_MISMATCH"
+    );
+  }
+  if (error instanceof SessionClosedError) {
+    return context.encoder.encodeError(error.message, "SESSION_CLOSED");
+  }
+  if (error instanceof TodoNotFoundError) {
+    return context.encoder.encodeError(error.message, "TODO_NOT_FOUND");
+  }
+  if (
+    error instanceof TodoValidationError ||
+    error instanceof QuotaExceededError
+  ) {
+    return context.encoder.encodeError(error.message, error.code);
+  }
+  throw error;
+}
+
+/**
+ * Complete the parent todo a child session works on (see init_session's
+ * parent_todo_id) once all of the child's todos are closed and at least one
+ * is done. If the parent todo can't be completed, e.g. because its own
+ * prerequisites are pending, a note flags it for completion instead.
+ * Problems with the parent session never fail the child's change.
+ * Takes the parent's lock; callers may hold the child's.
+ */
+export async function completeParentTodo(
+  child: Session,
+  context: ToolContext
+): Promise<void> {
+  const { parentSessionId, parentTodoId } = child;
+
+  if (
+    parentSessionId === undefined ||
+    parentTodoId === undefined ||
+    !child.todos.every((todo) => isClosedStatus(todo.status)) ||
+    !child.todos.some((todo) => todo.status === "done")
+  ) {
+    return;
+  }
+
+  const lock = getSessionLock(parentSessionId);
+
+  await lock.runExclusive(async () => {
+    try {
+      const parent = await context.store.get(parentSessionId, context.userId);
+      const todo = parent?.todos.find((t) => t.id === parentTodoId);
+
+      if (
+        !parent ||
+        parent.closedAt !== undefined ||
+        !todo ||
+        isClosedStatus(todo.status)
+      ) {
+        return;
+      }
+
+      let todos: Todo[];
+      let text: string;
+      try {
+        ({ todos } = updateTodoInList(parent, todo.id, { status: "done" }));
+        text = `Completed automatically: all todos of child session ${child.id} are done`;
+      } catch (error) {
+        if (!(error instanceof TodoValidationError)) {
+          throw error;
+        }
+        text = `Ready to complete: all todos of child session ${child.id} are done (${error.message})`;
+        if (todo.notes?.some((note) => note.text === text)) {
+          return;
+        }
+        todos = parent.todos;
+      }
+
+      const note = { author: context.userId, text, createdAt: new Date() };
+      await context.store.update(
+        parent.id,
+        {
+          todos: todos.map((t) =>
+            t.id === todo.id ? { ...t, notes: [...(t.notes ?? []), note] } : t
+          ),
+        },
+        context.userId
+      );
+    } catch (error) {
+      if (
+        error instanceof SessionNotFoundError ||
+        error instanceof UserIdMismatchError
+      ) {
+        return;
+      }
+      throw error;
+    }
+  });
+}
+
 /**
  * Add a new todo item to a session.
  * Uses mutex lock to prevent race conditions with parallel calls.
@@ -88,32 +753,18 @@ export async function addTodo(
         );
       }
 
-      const todo: Todo = {
-        id: nanoid(12), // Shorter ID for todos
-        title: input.title,
-        description: input.description ?? "",
-        tags: input.tags ?? [],
-        status: "pending" as TodoStatus,
-        createdAt: new Date(),
-      };
-
-      const updatedTodos = [...session.todos, todo];
-
-      await context.store.update(
-        input.session_id,
-        { todos: updatedTodos },
-        context.userId
+      const { todos, todo } = addTodoToList(session, input);
+      checkTodoLimits(
+        session.todos,
+        todos,
+        context.limits ?? getSessionLimits()
       );
 
+      await context.store.update(input.session_id, { todos }, context.userId);
+
       return context.encoder.encodeTodo(todo);
     } catch (error) {
-      if (error instanceof UserIdMismatchError) {
-        return context.encoder.encodeError(
-          "User ID mismatch - access denied",
-          "USER_ID_MISMATCH"
-        );
-      }
-      throw error;
+      return encodeTodoError(error, input.session_id, context);
     }
   });
 }
@@ -135,16 +786,42 @@ export async function listTodos(
       );
     }
 
-    let todos = session.todos;
+    // Apply filters
+    const filtered = filterTodos(session.todos, {
+      status: input.filter,
+      tagsAny: input.tags_any,
+      tagsAll: input.tags_all,
+      excludeTags: input.exclude_tags,
+      query: input.query,
+      createdAfter:
+        input.created_after !== undefined
+          ? new Date(input.created_after)
+          : undefined,
+      createdBefore:
+        input.created_before !== undefined
+          ? new Date(input.created_before)
+          : undefined,
+    });
 
-    // Apply filter
-    if (input.filter === "pending") {
-      todos = todos.filter((t) => t.status === "pending");
-    } else if (input.filter === "done") {
-      todos = todos.filter((t) => t.status === "done");
+    const todos = sortTodos(
+      filtered,
+      input.sort_by ?? "position",
+      input.order
+    );
+
+    // Rollup progress always considers all subtasks, not just the filtered ones
+    const progress = computeProgress(session.todos);
+
+    const options = { includeOutcome: input.include_outcome ?? false };
+
+    if (input.view === "tree") {
+      return context.encoder.encodeTodoTree(
+        buildTodoTree(todos, progress),
+        options
+      );
     }
 
-    return context.encoder.encodeTodos(todos);
+    return context.encoder.encodeTodos(todos, progress, options);
   } catch (error) {
     if (error instanceof UserIdMismatchError) {
       return context.encoder.encodeError(
@@ -157,7 +834,7 @@ export async function listTodos(
 }
 
 /**
- * Update the status of a todo item.
+ * Update a todo item (status, title, description, tags, ...).
  * Uses mutex lock to prevent race conditions with parallel calls.
  */
 export async function updateTodo(
@@ -177,44 +854,19 @@ export async function updateTodo(
         );
       }
 
-      const todoIndex = session.todos.findIndex((t) => t.id === input.todo_id);
-
-      if (todoIndex === -1) {
-        return context.encoder.encodeError(
-          `Todo not found: ${input.todo_id}`,
-          "TODO_NOT_FOUND"
-        );
-      }
-
-      const updatedTodo: Todo = {
-        ...session.todos[todoIndex],
-        status: input.status,
-      };
-
-      const updatedTodos = [...session.todos];
-      updatedTodos[todoIndex] = updatedTodo;
-
-      await context.store.update(
-        input.session_id,
-        { todos: updatedTodos },
-        context.userId
+      const { todos, todo } = updateTodoInList(session, input.todo_id, input);
+      checkTodoLimits(
+        session.todos,
+        todos,
+        context.limits ?? getSessionLimits()
       );
 
-      return context.encoder.encodeTodo(updatedTodo);
+      await context.store.update(input.session_id, { todos }, context.userId);
+      await completeParentTodo({ ...session, todos }, context);
+
+      return context.encoder.encodeTodo(todo);
     } catch (error) {
-      if (error instanceof SessionNotFoundError) {
-        return context.encoder.encodeError(
-          `Session not found: ${input.session_id}`,
-          "SESSION_NOT_FOUND"
-        );
-      }
-      if (error instanceof UserIdMismatchError) {
-        return context.encoder.encodeError(
-          "User ID mismatch - access denied",
-          "USER_ID_MISMATCH"
-        );
-      }
-      throw error;
+      return encodeTodoError(error, input.session_id, context);
     }
   });
 }
@@ -240,42 +892,91 @@ export async function deleteTodo(
         );
       }
 
-      const todoIndex = session.todos.findIndex((t) => t.id === input.todo_id);
-
-      if (todoIndex === -1) {
-        return context.encoder.encodeError(
-          `Todo not found: ${input.todo_id}`,
-          "TODO_NOT_FOUND"
-        );
-      }
-
-      const deletedTodo = session.todos[todoIndex];
-      const updatedTodos = session.todos.filter((t) => t.id !== input.todo_id);
-
-      await context.store.update(
-        input.session_id,
-        { todos: updatedTodos },
-        context.userId
+      const { todos, todo, deletedIds } = deleteTodoFromList(
+        session,
+        input.todo_id,
+        input.cascade ?? true
       );
 
+      await context.store.update(input.session_id, { todos }, context.userId);
+      await completeParentTodo({ ...session, todos }, context);
+
       return context.encoder.encodeSuccess("Todo deleted successfully", {
-        deleted_id: deletedTodo.id,
-        deleted_title: deletedTodo.title,
+        deleted_id: todo.id,
+        deleted_title: todo.title,
+        deleted_subtasks: deletedIds.size - 1,
       });
     } catch (error) {
-      if (error instanceof SessionNotFoundError) {
+      return encodeTodoError(error, input.session_id, context);
+    }
+  });
+}
+
+/**
+ * List the todos that can be started now: pending, with all prerequisites
+ * done or cancelled
+ */
+export async function nextTodos(
+  input: NextTodosInput,
+  context: ToolContext
+): Promise<string> {
+  try {
+    const session = await context.store.get(input.session_id, context.userId);
+
+    if (!session) {
+      return context.encoder.encodeError(
+        `Session not found: ${input.session_id}`,
+        "SESSION_NOT_FOUND"
+      );
+    }
+
+    const actionable = sortTodos(
+      getActionableTodos(session.todos),
+      "priority"
+    );
+
+    return context.encoder.encodeTodos(
+      input.limit !== undefined ? actionable.slice(0, input.limit) : actionable
+    );
+  } catch (error) {
+    if (error instanceof UserIdMismatchError) {
+      return context.encoder.encodeError(
+        "User ID mismatch - access denied",
+        "USER_ID_MISMATCH"
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Change the order of todos in a session.
+ * Uses mutex lock so the reorder is applied atomically.
+ */
+export async function reorderTodos(
+  input: ReorderTodosInput,
+  context: ToolContext
+): Promise<string> {
+  const lock = getSessionLock(input.session_id);
+
+  return lock.runExclusive(async () => {
+    try {
+      const session = await context.store.get(input.session_id, context.userId);
+
+      if (!session) {
         return context.encoder.encodeError(
           `Session not found: ${input.session_id}`,
           "SESSION_NOT_FOUND"
         );
       }
-      if (error instanceof UserIdMismatchError) {
-        return context.encoder.encodeError(
-          "User ID mismatch - access denied",
-          "USER_ID_MISMATCH"
-        );
-      }
-      throw error;
+
+      const todos = reorderTodosInList(session, input);
+
+      await context.store.update(input.session_id, { todos }, context.userId);
+
+      return context.encoder.encodeTodos(todos, computeProgress(todos));
+    } catch (error) {
+      return encodeTodoError(error, input.session_id, context);
     }
   });
 }
@@ -288,6 +989,9 @@ export const addTodoTool = {
   description: `Add a new todo item to the session's todo list.
 
 Creates a new todo with 'pending' status. Use for tracking discrete, actionable tasks.
+Pass parent_id to add the todo as a subtask of an existing todo; steps can be nested
+to any depth. Pass depends_on with the IDs of todos that must be done first.
+Optionally set a priority ('p0' most urgent to 'p3') and a due_at date.
 
 Returns the created todo with its assigned ID.`,
   inputSchema: AddTodoInputSchema,
@@ -296,12 +1000,34 @@ Returns the created todo with its assigned ID.`,
 
 export const listTodosTool = {
   name: "list_todos",
-  description: `List all todos in the session, optionally filtered by status.
+  description: `List all todos in the session, optionally filtered.
 
-Filters:
+Status filter:
 - 'all' (default): Return all todos
-- 'pending': Return only incomplete todos
-- 'done': Return only completed todos
+- 'open': Return todos that are not done or cancelled
+- 'pending', 'in_progress', 'blocked', 'done', 'cancelled': Return only todos with that status
+
+Additional filters (all given filters must match):
+- tags_any / tags_all / exclude_tags: match on tags
+- query: case-insensitive text search in title and description
+- created_after / created_before: limit by creation time
+
+Views:
+- 'flat' (default): Todos in order, with parentId set on subtasks
+- 'tree': Subtasks nested under their parents (indented rows in TONL)
+
+Sorting:
+- sort_by: 'position' (default: the plan order set by reorder_todos), 'created',
+  'priority', 'due', 'status' or 'title'
+- order: 'asc' (default) or 'desc'
+Todos without a priority or due date sort last. In tree view, subtasks are sorted
+within their parent.
+
+Todos with subtasks include a rollup 'progress' percentage computed from their
+subtasks (cancelled subtasks are not counted).
+
+Set include_outcome to add completedAt, outcome and error columns in TONL, so the
+list doubles as an execution log (JSON always includes these fields).
 
 Returns todos in a compact format (TONL or JSON based on server configuration).`,
   inputSchema: ListTodosInputSchema,
@@ -310,9 +1036,31 @@ Returns todos in a compact format (TONL or JSON based on server configuration).`
 
 export const updateTodoTool = {
   name: "update_todo",
-  description: `Update the status of a todo item.
+  description: `Update a todo item in place, keeping its ID and creation time.
 
-Use to mark todos as 'done' when completed, or back to 'pending' if needed.
+All fields are optional, but at least one must be given:
+- status: 'pending', 'in_progress', 'blocked', 'done' or 'cancelled'
+- blocked_reason: required when moving to 'blocked', cleared when leaving it
+- title / description: refine the wording as the plan evolves
+- tags: replace all tags; add_tags / remove_tags: adjust individual tags
+  (applied in that order: replace, then add, then remove)
+- depends_on: replace the IDs of todos that must be done first
+- priority / due_at: set new values, or null to clear them
+- outcome: what was found or produced (record it when marking 'done')
+- error: why the todo failed (record it when cancelling or blocking)
+
+A todo cannot be marked 'done' while any of its prerequisites is still open
+(prerequisites count as satisfied when done or cancelled). Unknown IDs and
+dependency cycles are rejected.
+
+Allowed status transitions:
+- pending → in_progress, blocked, done, cancelled
+- in_progress → pending, blocked, done, cancelled
+- blocked → pending, in_progress, cancelled
+- done → pending, in_progress (reopen)
+- cancelled → pending (revive)
+
+Moving to 'done' or 'cancelled' sets completedAt; reopening clears it.
 
 Returns the updated todo.`,
   inputSchema: UpdateTodoInputSchema,
@@ -323,9 +1071,43 @@ export const deleteTodoTool = {
   name: "delete_todo",
   description: `Delete a todo item from the session.
 
-Permanently removes the specified todo. Use when a task is cancelled or no longer relevant.
+Permanently removes the specified todo and, by default, all of its subtasks.
+Set cascade to false to keep the subtasks and move them up one level.
+
+Prefer setting status 'cancelled' via update_todo to keep a record of abandoned work;
+delete todos that were added by mistake.
 
 Returns confirmation with the deleted todo's details.`,
   inputSchema: DeleteTodoInputSchema,
   handler: deleteTodo,
 };
+
+export const nextTodosTool = {
+  name: "next_todos",
+  description: `List the todos that can be worked on next.
+
+Returns pending todos whose prerequisites (depends_on) are all done or cancelled,
+ordered by priority (unprioritized last), then plan order. Use limit to only
+get the first few.
+
+Returns todos in a compact format (TONL or JSON based on server configuration).`,
+  inputSchema: NextTodosInputSchema,
+  handler: nextTodos,
+};
+
+export const reorderTodosTool = {
+  name: "reorder_todos",
+  description: `Change the execution order of todos in the session.
+
+New todos are added at the end of the plan; list_todos returns todos in plan order
+by default. Either:
+- Move one todo: todo_id plus before_id or after_id
+- Replace the whole order: ordered_ids with every todo ID in the session exactly once
+
+The reorder is applied atomically. Subtasks keep their parent; in tree view they
+are ordered among their siblings.
+
+Returns all todos in their new order.`,
+  inputSchema: ReorderTodosInputSchema,
+  handler: reorderTodos,
+};
@@ -0,0 +1,168 @@
+/**
+ * Line-based diff in unified format, used to compare scratchpad revisions
+ */
+
+/**
+ * Largest changed region (old lines x new lines) compared line by line;
+ * bigger regions are shown as removed and re-added as a whole
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Number of unchanged lines shown around each change
+ */
+const DEFAULT_CONTEXT_LINES = 3;
+
+interface DiffLine {
+  type: " " | "-" | "+";
+  text: string;
+}
+
+/**
+ * Split text into lines (empty text has no lines)
+ */
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split("\n");
+}
+
+/**
+ * Diff the changed middle of two texts using a longest common subsequence
+ */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ type: "-" as const, text })),
+      ...b.map((text) => ({ type: "+" as const, text })),
+    ];
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      lines.push({ type: " ", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      lines.push({ type: "-", text: a[i++] });
+    } else {
+      lines.push({ type: "+", text: b[j++] });
+    }
+  }
+  while (i < n) {
+    lines.push({ type: "-", text: a[i++] });
+  }
+  while (j < m) {
+    lines.push({ type: "+", text: b[j++] });
+  }
+
+  return lines;
+}
+
+/**
+ * Compute the full line diff of two texts
+ */
+function diffAllLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Skip the common prefix and suffix before comparing the rest
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return [
+    ...a.slice(0, start).map((text) => ({ type: " " as const, text })),
+    ...diffMiddle(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map((text) => ({ type: " " as const, text })),
+  ];
+}
+
+/**
+ * Format a hunk range; an empty range points at the line before it
+ */
+function formatRange(start: number, count: number): string {
+  return `${count === 0 ? start : start + 1},${count}`;
+}
+
+/**
+ * Diff two texts line by line
+ * @returns Unified diff hunks ("@@ -1,3 +1,4 @@" followed by " ", "-" and
+ * "+" lines), or an empty string if the texts are equal
+ */
+export function diffLines(
+  oldText: string,
+  newText: string,
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): string {
+  const lines = diffAllLines(oldText, newText);
+
+  // Line numbers (0-based) in the old and new text before each diff line
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const line of lines) {
+    oldBefore.push(oldLine);
+    newBefore.push(newLine);
+    if (line.type !== "+") {
+      oldLine++;
+    }
+    if (line.type !== "-") {
+      newLine++;
+    }
+  }
+
+  // Group changes that are close together into hunks
+  const hunks: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    if (line.type === " ") {
+      return;
+    }
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length, index + contextLines + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  return hunks
+    .map(([start, end]) => {
+      const hunk = lines.slice(start, end);
+      const oldCount = hunk.filter((line) => line.type !== "+").length;
+      const newCount = hunk.filter((line) => line.type !== "-").length;
+      const oldRange = formatRange(oldBefore[start], oldCount);
+      const newRange = formatRange(newBefore[start], newCount);
+      return [
+        `@@ -${oldRange} +${newRange} @@`,
+        ...hunk.map((line) => line.type + line.text),
+      ].join("\n");
+    })
+    .join("\n");
+}
@@ -1,11 +1,65 @@
-import { Todo, Session } from "../storage/types.js";
+import {
+  Todo,
+  TodoNote,
+  Session,
+  ScratchpadRevision,
+  Fact,
+} from "../storage/types.js";
+import { TodoNode } from "./todoTree.js";
+import { ScratchpadInfo } from "./scratchpads.js";
+import { OutlineNode } from "./markdown.js";
+import { SearchResults } from "./search.js";
+import { SessionSummary } from "./sessions.js";
 import {
   encodeTodosToTonl,
+  encodeTodoTreeToTonl,
   encodeTodoToTonl,
   encodeSessionToTonl,
   encodeScratchpadToTonl,
+  encodeScratchpadListToTonl,
+  encodeScratchpadHistoryToTonl,
+  encodeScratchpadRevisionToTonl,
+  encodeScratchpadDiffToTonl,
+  encodeScratchpadOutlineToTonl,
+  encodeBatchResultsToTonl,
+  encodeTodoNotesToTonl,
+  encodeSearchResultsToTonl,
+  encodeFactToTonl,
+  encodeFactListToTonl,
+  encodeSessionListToTonl,
+  encodeChildSessionsToTonl,
+  TodoTableOptions,
 } from "./tonl.js";
 
+/**
+ * Result of one operation in a batch_todos call
+ */
+export interface BatchOperationResult {
+  op: "add" | "update" | "delete";
+  ref?: string; // Client-side reference given to an added todo
+  todo: Todo; // The added, updated or deleted todo
+}
+
+/**
+ * Comparison of two scratchpad revisions (for diff_scratchpad response)
+ */
+export interface ScratchpadDiff {
+  from: number; // Older revision
+  to: number | "current"; // Newer revision, or the current content
+  diff: string; // Unified line diff, empty if unchanged
+}
+
+/**
+ * Position of a partial scratchpad read within the full content
+ */
+export interface ScratchpadWindow {
+  startLine: number; // First returned line (1-based), 0 if none
+  endLine: number; // Last returned line, 0 if none
+  totalLines: number;
+  totalLength: number; // Length of the full content
+  truncated: boolean; // Whether max_chars cut the content
+}
+
 /**
  * Response format type
  */
@@ -22,6 +76,61 @@ export function getResponseFormat(): ResponseFormat {
   return "json"; // Default to JSON
 }
 
+/**
+ * Convert a todo to its JSON response shape
+ * Optional fields are left undefined so JSON.stringify omits them
+ */
+function todoToJson(todo: Todo, progress?: number): Record<string, unknown> {
+  return {
+    id: todo.id,
+    title: todo.title,
+    description: todo.description,
+    status: todo.status,
+    blockedReason: todo.blockedReason,
+    tags: todo.tags,
+    parentId: todo.parentId,
+    dependsOn: todo.dependsOn,
+    priority: todo.priority,
+    dueAt: todo.dueAt?.toISOString(),
+    position: todo.position,
+    progress,
+    outcome: todo.outcome,
+    error: todo.error,
+    completedAt: todo.completedAt?.toISOString(),
+    noteCount: todo.notes?.length || undefined,
+    createdAt: todo.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a todo tree node (and its subtasks) to its JSON response shape
+ */
+function todoNodeToJson(node: TodoNode): Record<string, unknown> {
+  return {
+    ...todoToJson(node.todo, node.progress),
+    subtasks: node.children.map(todoNodeToJson),
+  };
+}
+
+/**
+ * Convert a session summary to its JSON response shape
+ */
+function sessionSummaryToJson(
+  session: SessionSummary
+): Record<string, unknown> {
+  return {
+    session_id: session.id,
+    title: session.title,
+    parent_todo_id: session.parentTodoId,
+    todo_count: session.todoCount,
+    open_todo_count: session.openTodoCount,
+    scratchpad_length: session.scratchpadLength,
+    created_at: session.createdAt.toISOString(),
+    last_modified: session.lastModified.toISOString(),
+    closed_at: session.closedAt?.toISOString(),
+  };
+}
+
 /**
  * Response encoder that supports both JSON and TONL formats
  */
@@ -41,27 +150,38 @@ export class ResponseEncoder {
 
   /**
    * Encode a list of todos
+   * @param progress - Optional rollup completion percentages by todo ID
+   * @param options - TONL table options (JSON always includes all fields)
    */
-  encodeTodos(todos: Todo[]): string {
+  encodeTodos(
+    todos: Todo[],
+    progress?: Map<string, number>,
+    options?: TodoTableOptions
+  ): string {
     if (this.format === "tonl") {
-      return encodeTodosToTonl(todos);
+      return encodeTodosToTonl(todos, progress, options);
     }
 
     // JSON format
     return JSON.stringify(
-      todos.map((todo) => ({
-        id: todo.id,
-        title: todo.title,
-        description: todo.description,
-        status: todo.status,
-        tags: todo.tags,
-        createdAt: todo.createdAt.toISOString(),
-      })),
+      todos.map((todo) => todoToJson(todo, progress?.get(todo.id))),
       null,
       2
     );
   }
 
+  /**
+   * Encode a tree of todos (nested subtasks in JSON, indented rows in TONL)
+   */
+  encodeTodoTree(nodes: TodoNode[], options?: TodoTableOptions): string {
+    if (this.format === "tonl") {
+      return encodeTodoTreeToTonl(nodes, options);
+    }
+
+    // JSON format
+    return JSON.stringify(nodes.map(todoNodeToJson), null, 2);
+  }
+
   /**
    * Encode a single todo
    */
@@ -71,18 +191,7 @@ export class ResponseEncoder {
     }
 
     // JSON format
-    return JSON.stringify(
-      {
-        id: todo.id,
-        title: todo.title,
-        description: todo.description,
-        status: todo.status,
-        tags: todo.tags,
-        createdAt: todo.createdAt.toISOString(),
-      },
-      null,
-      2
-    );
+    return JSON.stringify(todoToJson(todo), null, 2);
   }
 
   /**
@@ -98,17 +207,58 @@ export class ResponseEncoder {
       {
         session_id: session.id,
         user_id: session.userId,
+        title: session.title,
+        parent_session_id: session.parentSessionId,
+        parent_todo_id: session.parentTodoId,
         scratchpad: session.scratchpad,
-        todos: session.todos.map((todo) => ({
-          id: todo.id,
-          title: todo.title,
-          description: todo.description,
-          status: todo.status,
-          tags: todo.tags,
-          createdAt: todo.createdAt.toISOString(),
-        })),
+        todos: session.todos.map((todo) => todoToJson(todo)),
         created_at: session.createdAt.toISOString(),
         last_modified: session.lastModified.toISOString(),
+        expires_at: session.expiresAt?.toISOString() ?? null,
+        pinned: session.pinned ?? false,
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Encode the sessions of a user (for list_sessions response)
+   */
+  encodeSessionList(userId: string, sessions: SessionSummary[]): string {
+    if (this.format === "tonl") {
+      return encodeSessionListToTonl(userId, sessions);
+    }
+
+    // JSON format
+    return JSON.stringify(
+      {
+        user_id: userId,
+        count: sessions.length,
+        sessions: sessions.map(sessionSummaryToJson),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Encode the child sessions of a session (for list_child_sessions response)
+   */
+  encodeChildSessions(
+    parentSessionId: string,
+    sessions: SessionSummary[]
+  ): string {
+    if (this.format === "tonl") {
+      return encodeChildSessionsToTonl(parentSessionId, sessions);
+    }
+
+    // JSON format
+    return JSON.stringify(
+      {
+        parent_session_id: parentSessionId,
+        count: sessions.length,
+        sessions: sessions.map(sessionSummaryToJson),
       },
       null,
       2
@@ -117,17 +267,30 @@ export class ResponseEncoder {
 
   /**
    * Encode scratchpad content
+   * @param name - Section name, omitted for the default scratchpad
+   * @param window - Position of the content for partial reads
    */
-  encodeScratchpad(sessionId: string, content: string): string {
+  encodeScratchpad(
+    sessionId: string,
+    content: string,
+    name?: string,
+    window?: ScratchpadWindow
+  ): string {
     if (this.format === "tonl") {
-      return encodeScratchpadToTonl(sessionId, content);
+      return encodeScratchpadToTonl(sessionId, content, name, window);
     }
 
     // JSON format
     return JSON.stringify(
       {
         session_id: sessionId,
+        name,
         content_length: content.length,
+        start_line: window?.startLine,
+        end_line: window?.endLine,
+        total_lines: window?.totalLines,
+        total_length: window?.totalLength,
+        truncated: window?.truncated,
         content: content,
       },
       null,
@@ -135,6 +298,278 @@ export class ResponseEncoder {
     );
   }
 
+  /**
+   * Encode the Markdown heading outline of a scratchpad section
+   */
+  encodeScratchpadOutline(
+    sessionId: string,
+    name: string,
+    totalLines: number,
+    outline: OutlineNode[]
+  ): string {
+    if (this.format === "tonl") {
+      return encodeScratchpadOutlineToTonl(sessionId, name, totalLines, outline);
+    }
+
+    const toJson = (node: OutlineNode): Record<string, unknown> => ({
+      title: node.heading.title,
+      level: node.heading.level,
+      line: node.heading.line,
+      end_line: node.heading.endLine,
+      children: node.children.map(toJson),
+    });
+
+    // JSON format
+    return JSON.stringify(
+      {
+        session_id: sessionId,
+        name,
+        total_lines: totalLines,
+        headings: outline.map(toJson),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Encode the scratchpad sections of a session (for list_scratchpads response)
+   */
+  encodeScratchpadList(
+    sessionId: string,
+    scratchpads: ScratchpadInfo[]
+  ): string {
+    if (this.format === "tonl") {
+      return encodeScratchpadListToTonl(sessionId, scratchpads);
+    }
+
+    // JSON format
+    return JSON.stringify(
+      {
+        session_id: sessionId,
+        scratchpads: scratchpads.map((info) => ({
+          name: info.name,
+          length: info.length,
+        })),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Encode the revisions of a scratchpad section (without their content)
+   */
+  encodeScratchpadHistory(
+    sessionId: string,
+    name: string,
+    revisions: ScratchpadRevision[]
+  ): string {
+    if (this.format === "tonl") {
+      return encodeScratchpadHistoryToTonl(sessionId, name, revisions);
+    }
+
+    // JSON format
+    return JSON.stringify(
+      {
+        session_id: sessionId,
+        name,
+        revisions: revisions.map((revision) => ({
+          revision: revision.revision,
+          author: revision.author,
+          length: revision.content.length,
+          created_at: revision.createdAt.toISOString(),
+        })),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Encode a single scratchpad revision with its content
+   */
+  encodeScratchpadRevision(
+    sessionId: string,
+    revision: ScratchpadRevision
+  ): string {
+    if (this.format === "tonl") {
+      return encodeScratchpadRevisionToTonl(sessionId, revision);
+    }
+
+    // JSON format
+    return JSON.stringify(
+      {
+        session_id: sessionId,
+        name: revision.name,
+        revision: revision.revision,
+        author: revision.author,
+        created_at: revision.createdAt.toISOString(),
+        content_length: revision.content.length,
+        content: revision.content,
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Encode the diff between two scratchpad revisions
+   */
+  encodeScratchpadDiff(
+    sessionId: string,
+    name: string,
+    diff: ScratchpadDiff
+  ): string {
+    if (this.format === "tonl") {
+      return encodeScratchpadDiffToTonl(sessionId, name, diff);
+    }
+
+    // JSON format
+    return JSON.stringify(
+      {
+        session_id: sessionId,
+        name,
+        from: diff.from,
+        to: diff.to,
+        changed: diff.diff !== "",
+        diff: diff.diff,
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Encode the results of a batch of todo operations
+   */
+  encodeBatchResults(results: BatchOperationResult[]): string {
+    if (this.format === "tonl") {
+      return encodeBatchResultsToTonl(results);
+    }
+
+    // JSON format
+    return JSON.stringify(
+      {
+        success: true,
+        applied: results.length,
+        results: results.map((result) => ({
+          op: result.op,
+          ref: result.ref,
+          id: result.todo.id,
+          title: result.todo.title,
+          status: result.todo.status,
+        })),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Encode the notes of a todo (for list_todo_notes response)
+   */
+  encodeTodoNotes(todoId: string, notes: TodoNote[]): string {
+    if (this.format === "tonl") {
+      return encodeTodoNotesToTonl(todoId, notes);
+    }
+
+    // JSON format
+    return JSON.stringify(
+      {
+        todo_id: todoId,
+        note_count: notes.length,
+        notes: notes.map((note) => ({
+          author: note.author,
+          text: note.text,
+          created_at: note.createdAt.toISOString(),
+        })),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Encode search_session matches
+   */
+  encodeSearchResults(
+    sessionId: string,
+    query: string,
+    results: SearchResults
+  ): string {
+    if (this.format === "tonl") {
+      return encodeSearchResultsToTonl(sessionId, query, results);
+    }
+
+    // JSON format
+    return JSON.stringify(
+      {
+        session_id: sessionId,
+        query,
+        match_count: results.scratchpad.length + results.todos.length,
+        truncated: results.truncated,
+        scratchpad: results.scratchpad,
+        todos: results.todos.map((match) => ({
+          todo_id: match.todoId,
+          field: match.field,
+          text: match.text,
+        })),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Encode a single fact
+   */
+  encodeFact(sessionId: string, key: string, fact: Fact): string {
+    if (this.format === "tonl") {
+      return encodeFactToTonl(sessionId, key, fact);
+    }
+
+    // JSON format
+    return JSON.stringify(
+      {
+        session_id: sessionId,
+        key,
+        value: fact.value,
+        schema: fact.schema,
+        author: fact.author,
+        created_at: fact.createdAt.toISOString(),
+        updated_at: fact.updatedAt.toISOString(),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Encode a list of facts (for list_facts response)
+   */
+  encodeFactList(sessionId: string, facts: Array<[string, Fact]>): string {
+    if (this.format === "tonl") {
+      return encodeFactListToTonl(sessionId, facts);
+    }
+
+    // JSON format
+    return JSON.stringify(
+      {
+        session_id: sessionId,
+        count: facts.length,
+        facts: facts.map(([key, fact]) => ({
+          key,
+          value: fact.value,
+          has_schema: fact.schema !== undefined,
+          updated_at: fact.updatedAt.toISOString(),
+        })),
+      },
+      null,
+      2
+    );
+  }
+
   /**
    * Encode a simple success response
    */
@@ -0,0 +1,62 @@
+import { Ajv } from "ajv";
+import { Fact, FactValidationError } from "../storage/types.js";
+
+/**
+ * Allowed fact keys: letters, digits and '.', '_', '-', ':', '/'
+ * (e.g. "repo.path" or "build:target")
+ */
+export const FACT_KEY_PATTERN = /^[A-Za-z0-9._:/-]{1,128}$/;
+
+/**
+ * Look up a fact by key
+ * Only own properties count, so keys like "constructor" never resolve to
+ * inherited Object members.
+ */
+export function findFact(
+  facts: Record<string, Fact>,
+  key: string
+): Fact | undefined {
+  return Object.hasOwn(facts, key) ? facts[key] : undefined;
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+/**
+ * Check that a value satisfies a JSON schema
+ * @throws FactValidationError if the schema is invalid (INVALID_SCHEMA) or
+ * the value doesn't match it (SCHEMA_VALIDATION_FAILED)
+ */
+export function validateFactValue(
+  key: string,
+  value: unknown,
+  schema: Record<string, unknown>
+): void {
+  // Ajv throws instead of reporting errors for some schemas, such as ones
+  // declaring an unknown $schema dialect
+  let validate;
+  try {
+    if (!ajv.validateSchema(schema)) {
+      throw new Error(ajv.errorsText(ajv.errors));
+    }
+    validate = ajv.compile(schema);
+  } catch (error) {
+    throw new FactValidationError(
+      `Invalid JSON schema for fact ${key}: ${(error as Error).message}`,
+      "INVALID_SCHEMA"
+    );
+  }
+
+  // Schemas come from clients, so don't let compiled ones pile up
+  const valid = validate(value);
+  ajv.removeSchema(schema);
+
+  if (!valid) {
+    throw new FactValidationError(
+      `Value for fact ${key} does not match its schema: ${ajv.errorsText(
+        validate.errors,
+        { dataVar: "value" }
+      )}`,
+      "SCHEMA_VALIDATION_FAILED"
+    );
+  }
+}
@@ -0,0 +1,8 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Hash text content (SHA-256, hex), so clients can tell whether it changed
+ */
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
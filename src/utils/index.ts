@@ -1,2 +1,18 @@
 export * from "./encoder.js";
 export * from "./tonl.js";
+export * from "./todoTree.js";
+export * from "./todoDependencies.js";
+export * from "./todoSort.js";
+export * from "./todoFilter.js";
+export * from "./todoOrder.js";
+export * from "./todoStatus.js";
+export * from "./hash.js";
+export * from "./scratchpads.js";
+export * from "./diff.js";
+export * from "./markdown.js";
+export * from "./search.js";
+export * from "./facts.js";
+export * from "./limits.js";
+export * from "./sessions.js";
+export * from "./sessionExport.js";
+export * from "./sessionImport.js";
@@ -0,0 +1,256 @@
+import {
+  Fact,
+  QuotaExceededError,
+  ScratchpadRevision,
+  Session,
+  Todo,
+} from "../storage/types.js";
+import {
+  getScratchpadHistoryLimit,
+  totalScratchpadLength,
+} from "./scratchpads.js";
+
+/**
+ * Size limits and quotas. A limit of 0 disables the check.
+ */
+export interface SessionLimits {
+  maxScratchpadLength: number; // Characters across all scratchpad sections
+  maxTodos: number; // Todos per session
+  maxTagLength: number; // Characters per tag
+  maxNotesPerTodo: number; // Notes per todo
+  maxNoteLength: number; // Characters per todo note
+  maxFacts: number; // Facts per session
+  maxFactLength: number; // Characters per fact value and schema, as JSON
+  maxSessionsPerUser: number; // Live sessions per X-User-ID
+  maxSessionTtlHours: number; // Per-session TTL overrides
+}
+
+/**
+ * Default limits, generous enough for normal agent use
+ */
+export const DEFAULT_SESSION_LIMITS: SessionLimits = {
+  maxScratchpadLength: 1_000_000,
+  maxTodos: 500,
+  maxTagLength: 100,
+  maxNotesPerTodo: 200,
+  maxNoteLength: 10_000,
+  maxFacts: 200,
+  maxFactLength: 100_000,
+  maxSessionsPerUser: 50,
+  maxSessionTtlHours: 168,
+};
+
+/**
+ * Parse a limit from environment, falling back to the default if unset or invalid
+ */
+function parseLimit(value: string | undefined, fallback: number): number {
+  const limit = parseInt(value || "", 10);
+  return Number.isNaN(limit) || limit < 0 ? fallback : limit;
+}
+
+/**
+ * Get the size limits and quotas from environment
+ */
+export function getSessionLimits(): SessionLimits {
+  return {
+    maxScratchpadLength: parseLimit(
+      process.env.MAX_SCRATCHPAD_LENGTH,
+      DEFAULT_SESSION_LIMITS.maxScratchpadLength
+    ),
+    maxTodos: parseLimit(
+      process.env.MAX_TODOS_PER_SESSION,
+      DEFAULT_SESSION_LIMITS.maxTodos
+    ),
+    maxTagLength: parseLimit(
+      process.env.MAX_TAG_LENGTH,
+      DEFAULT_SESSION_LIMITS.maxTagLength
+    ),
+    maxNotesPerTodo: parseLimit(
+      process.env.MAX_NOTES_PER_TODO,
+      DEFAULT_SESSION_LIMITS.maxNotesPerTodo
+    ),
+    maxNoteLength: parseLimit(
+      process.env.MAX_NOTE_LENGTH,
+      DEFAULT_SESSION_LIMITS.maxNoteLength
+    ),
+    maxFacts: parseLimit(
+      process.env.MAX_FACTS_PER_SESSION,
+      DEFAULT_SESSION_LIMITS.maxFacts
+    ),
+    maxFactLength: parseLimit(
+      process.env.MAX_FACT_LENGTH,
+      DEFAULT_SESSION_LIMITS.maxFactLength
+    ),
+    maxSessionsPerUser: parseLimit(
+      process.env.MAX_SESSIONS_PER_USER,
+      DEFAULT_SESSION_LIMITS.maxSessionsPerUser
+    ),
+    maxSessionTtlHours: parseLimit(
+      process.env.MAX_SESSION_TTL_HOURS,
+      DEFAULT_SESSION_LIMITS.maxSessionTtlHours
+    ),
+  };
+}
+
+/**
+ * Check whether a value is over a limit (0 = unlimited)
+ */
+function exceeds(value: number, limit: number): boolean {
+  return limit > 0 && value > limit;
+}
+
+/**
+ * Check a scratchpad edit against the length limit
+ * Edits that don't grow the scratchpads are always allowed, so an
+ * oversized session can still be trimmed.
+ * @throws QuotaExceededError if the scratchpads would grow beyond the limit
+ */
+export function checkScratchpadLimits(
+  before: Pick<Session, "scratchpad" | "scratchpads">,
+  after: Pick<Session, "scratchpad" | "scratchpads">,
+  limits: SessionLimits
+): void {
+  const previous = totalScratchpadLength(before);
+  const length = totalScratchpadLength(after);
+
+  if (length > previous && exceeds(length, limits.maxScratchpadLength)) {
+    throw new QuotaExceededError(
+      `Scratchpad length ${length} exceeds the limit of ${limits.maxScratchpadLength} characters`
+    );
+  }
+}
+
+/**
+ * Check a todo change against the todo count, tag length and note limits
+ * Only added todos, newly added tags and appended notes count, so existing
+ * data never blocks unrelated edits.
+ * @throws QuotaExceededError if a limit would be exceeded
+ */
+export function checkTodoLimits(
+  before: Todo[],
+  after: Todo[],
+  limits: SessionLimits
+): void {
+  if (after.length > before.length && exceeds(after.length, limits.maxTodos)) {
+    throw new QuotaExceededError(
+      `Session would have ${after.length} todos, the limit is ${limits.maxTodos}`
+    );
+  }
+
+  const previous = new Map(before.map((todo) => [todo.id, todo]));
+
+  for (const todo of after) {
+    const existing = previous.get(todo.id);
+    const tag = todo.tags.find(
+      (t) =>
+        !existing?.tags.includes(t) && exceeds(t.length, limits.maxTagLength)
+    );
+    if (tag !== undefined) {
+      throw new QuotaExceededError(
+        `Tag "${tag.slice(0, 20)}..." is ${tag.length} characters, the limit is ${limits.maxTagLength}`
+      );
+    }
+
+    const notes = todo.notes ?? [];
+    const previousNotes = existing?.notes?.length ?? 0;
+    if (
+      notes.length > previousNotes &&
+      exceeds(notes.length, limits.maxNotesPerTodo)
+    ) {
+      throw new QuotaExceededError(
+        `Todo ${todo.id} would have ${notes.length} notes, the limit is ${limits.maxNotesPerTodo}`
+      );
+    }
+    const note = notes
+      .slice(previousNotes)
+      .find((n) => exceeds(n.text.length, limits.maxNoteLength));
+    if (note !== undefined) {
+      throw new QuotaExceededError(
+        `Note of ${note.text.length} characters exceeds the limit of ${limits.maxNoteLength} characters`
+      );
+    }
+  }
+}
+
+/**
+ * Length of a fact's value and schema as JSON
+ */
+function factLength(fact: Fact): number {
+  return (
+    JSON.stringify(fact.value).length +
+    (fact.schema ? JSON.stringify(fact.schema).length : 0)
+  );
+}
+
+/**
+ * Check a facts change against the fact count and fact length limits
+ * Only added keys and new or replaced facts count, like checkTodoLimits.
+ * @throws QuotaExceededError if a limit would be exceeded
+ */
+export function checkFactLimits(
+  before: Record<string, Fact>,
+  after: Record<string, Fact>,
+  limits: SessionLimits
+): void {
+  const count = Object.keys(after).length;
+
+  if (
+    count > Object.keys(before).length &&
+    exceeds(count, limits.maxFacts)
+  ) {
+    throw new QuotaExceededError(
+      `Session would have ${count} facts, the limit is ${limits.maxFacts}`
+    );
+  }
+
+  for (const [key, fact] of Object.entries(after)) {
+    if (Object.hasOwn(before, key) && before[key] === fact) {
+      continue;
+    }
+    const length = factLength(fact);
+    if (exceeds(length, limits.maxFactLength)) {
+      throw new QuotaExceededError(
+        `Fact ${key} is ${length} characters as JSON, the limit is ${limits.maxFactLength}`
+      );
+    }
+  }
+}
+
+/**
+ * Check a requested session TTL against the maximum
+ * @throws QuotaExceededError if the TTL is longer than allowed
+ */
+export function checkTtlLimit(
+  ttlHours: number | undefined,
+  limits: SessionLimits
+): void {
+  if (ttlHours !== undefined && exceeds(ttlHours, limits.maxSessionTtlHours)) {
+    throw new QuotaExceededError(
+      `TTL of ${ttlHours} hours exceeds the maximum of ${limits.maxSessionTtlHours} hours`
+    );
+  }
+}
+
+/**
+ * Check imported scratchpad history, which normal edits only grow one
+ * revision at a time. History may hold up to SCRATCHPAD_HISTORY_LIMIT
+ * full-size scratchpads.
+ * @throws QuotaExceededError if it is larger
+ */
+export function checkImportLimits(
+  history: ScratchpadRevision[],
+  limits: SessionLimits,
+  historyLimit: number = getScratchpadHistoryLimit()
+): void {
+  const historyLength = history.reduce(
+    (sum, revision) => sum + revision.content.length,
+    0
+  );
+  const maxHistoryLength = limits.maxScratchpadLength * historyLimit;
+
+  if (exceeds(historyLength, maxHistoryLength)) {
+    throw new QuotaExceededError(
+      `Scratchpad history of ${historyLength} characters exceeds the limit of ${maxHistoryLength} characters`
+    );
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Minimal Markdown helpers for navigating large scratchpads
+ */
+
+/**
+ * A Markdown heading with the lines its section covers
+ */
+export interface MarkdownHeading {
+  level: number; // 1 for "#", 2 for "##", ...
+  title: string;
+  line: number; // 1-based line of the heading
+  endLine: number; // Last line of the section, including subsections
+}
+
+/**
+ * A heading with its subheadings, for outlines
+ */
+export interface OutlineNode {
+  heading: MarkdownHeading;
+  children: OutlineNode[];
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Opening or closing line of a fenced code block
+ */
+export const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Find the ATX headings ("# Title") in Markdown text
+ * Lines inside fenced code blocks are ignored.
+ */
+export function parseHeadings(lines: string[]): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  let fence: string | undefined;
+
+  lines.forEach((text, index) => {
+    const fenceMatch = FENCE_PATTERN.exec(text);
+    if (fenceMatch) {
+      if (fence === undefined) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = undefined;
+      }
+      return;
+    }
+    if (fence !== undefined) {
+      return;
+    }
+
+    const match = HEADING_PATTERN.exec(text);
+    if (match) {
+      headings.push({
+        level: match[1].length,
+        title: match[2],
+        line: index + 1,
+        endLine: lines.length,
+      });
+    }
+  });
+
+  // A section ends where the next heading of the same or a higher level starts
+  headings.forEach((heading, i) => {
+    const next = headings
+      .slice(i + 1)
+      .find((other) => other.level <= heading.level);
+    if (next) {
+      heading.endLine = next.line - 1;
+    }
+  });
+
+  return headings;
+}
+
+/**
+ * Find the section for a heading title (case-insensitive, leading '#'s
+ * optional). The first matching heading wins.
+ */
+export function findSection(
+  lines: string[],
+  title: string
+): MarkdownHeading | undefined {
+  const wanted = title.replace(/^#+\s*/, "").trim().toLowerCase();
+  return parseHeadings(lines).find(
+    (heading) => heading.title.toLowerCase() === wanted
+  );
+}
+
+/**
+ * Nest headings under the closest preceding heading of a higher level
+ */
+export function buildOutline(headings: MarkdownHeading[]): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+
+  for (const heading of headings) {
+    const node: OutlineNode = { heading, children: [] };
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].heading.level >= heading.level
+    ) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    stack.push(node);
+  }
+
+  return roots;
+}
@@ -0,0 +1,176 @@
+import { ScratchpadRevision, Session } from "../storage/types.js";
+
+/**
+ * Name of the section stored in Session.scratchpad
+ * Sessions created before named sections only have this one.
+ */
+export const DEFAULT_SCRATCHPAD = "default";
+
+/**
+ * Allowed scratchpad names: letters, digits, '-' and '_'
+ */
+export const SCRATCHPAD_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Name and size of a scratchpad section
+ */
+export interface ScratchpadInfo {
+  name: string;
+  length: number;
+}
+
+/**
+ * Get the content of a scratchpad section, or undefined if it doesn't exist
+ * Only own properties count, so names like "constructor" never resolve to
+ * inherited Object members.
+ */
+export function getScratchpadContent(
+  session: Session,
+  name: string = DEFAULT_SCRATCHPAD
+): string | undefined {
+  if (name === DEFAULT_SCRATCHPAD) {
+    return session.scratchpad;
+  }
+  return Object.hasOwn(session.scratchpads, name)
+    ? session.scratchpads[name]
+    : undefined;
+}
+
+/**
+ * Build the session update that sets a scratchpad section's content
+ */
+export function setScratchpadContent(
+  session: Session,
+  name: string,
+  content: string
+): Pick<Session, "scratchpad"> | Pick<Session, "scratchpads"> {
+  return name === DEFAULT_SCRATCHPAD
+    ? { scratchpad: content }
+    : { scratchpads: { ...session.scratchpads, [name]: content } };
+}
+
+/**
+ * List all scratchpad sections of a session, default first, then by name
+ */
+export function listScratchpads(
+  session: Pick<Session, "scratchpad" | "scratchpads">
+): ScratchpadInfo[] {
+  return [
+    { name: DEFAULT_SCRATCHPAD, length: session.scratchpad.length },
+    ...Object.keys(session.scratchpads)
+      .sort()
+      .map((name) => ({ name, length: session.scratchpads[name].length })),
+  ];
+}
+
+/**
+ * Total length of all scratchpad sections of a session
+ */
+export function totalScratchpadLength(
+  session: Pick<Session, "scratchpad" | "scratchpads">
+): number {
+  return listScratchpads(session).reduce((sum, info) => sum + info.length, 0);
+}
+
+/**
+ * Default number of revisions kept per scratchpad section
+ */
+const DEFAULT_HISTORY_LIMIT = 20;
+
+/**
+ * Get the number of revisions kept per scratchpad section from environment
+ */
+export function getScratchpadHistoryLimit(): number {
+  const limit = parseInt(process.env.SCRATCHPAD_HISTORY_LIMIT || "", 10);
+  return Number.isNaN(limit) || limit < 1 ? DEFAULT_HISTORY_LIMIT : limit;
+}
+
+/**
+ * Get the revisions of a scratchpad section, oldest first
+ */
+export function getScratchpadRevisions(
+  session: Session,
+  name: string = DEFAULT_SCRATCHPAD
+): ScratchpadRevision[] {
+  return session.scratchpadHistory.filter((revision) => revision.name === name);
+}
+
+/**
+ * Add a revision for new scratchpad content, dropping the oldest revisions
+ * of that section beyond the limit. Unchanged content adds no revision.
+ * Content written before history was kept is saved as a first revision, so
+ * the first tracked change can still be undone.
+ * @returns The new history for the session
+ */
+export function recordScratchpadRevision(
+  session: Session,
+  name: string,
+  content: string,
+  author: string | undefined,
+  limit: number = getScratchpadHistoryLimit()
+): ScratchpadRevision[] {
+  const revisions = getScratchpadRevisions(session, name);
+  const previous = getScratchpadContent(session, name);
+
+  if (revisions.length === 0 && previous) {
+    revisions.push({
+      name,
+      revision: 1,
+      content: previous,
+      createdAt: session.lastModified,
+    });
+    session = {
+      ...session,
+      scratchpadHistory: [...session.scratchpadHistory, revisions[0]],
+    };
+  }
+
+  const latest = revisions[revisions.length - 1];
+
+  if (latest?.content === content) {
+    return session.scratchpadHistory;
+  }
+
+  const revision: ScratchpadRevision = {
+    name,
+    revision: (latest?.revision ?? 0) + 1,
+    content,
+    author,
+    createdAt: new Date(),
+  };
+
+  const dropped = new Set(
+    revisions.slice(0, Math.max(0, revisions.length - (limit - 1)))
+  );
+
+  return [
+    ...session.scratchpadHistory.filter((existing) => !dropped.has(existing)),
+    revision,
+  ];
+}
+
+/**
+ * Keep the newest revisions of each section, up to the limit
+ * Revisions are kept in their original order.
+ */
+export function trimScratchpadHistory(
+  history: ScratchpadRevision[],
+  limit: number = getScratchpadHistoryLimit()
+): ScratchpadRevision[] {
+  const newest = new Set<ScratchpadRevision>();
+  const bySection = new Map<string, ScratchpadRevision[]>();
+
+  for (const revision of history) {
+    const revisions = bySection.get(revision.name) ?? [];
+    revisions.push(revision);
+    bySection.set(revision.name, revisions);
+  }
+  for (const revisions of bySection.values()) {
+    revisions
+      .sort((a, b) => a.revision - b.revision)
+      .slice(-limit)
+      .forEach((revision) => newest.add(revision));
+  }
+
+  return history.filter((revision) => newest.has(revision));
+}
@@ -0,0 +1,211 @@
+import { Session } from "../storage/types.js";
+import { listScratchpads, getScratchpadContent } from "./scratchpads.js";
+
+/**
+ * Where search_session looks for matches
+ */
+export const SEARCH_SCOPES = ["all", "scratchpad", "todos"] as const;
+
+export type SearchScope = (typeof SEARCH_SCOPES)[number];
+
+/**
+ * A matching scratchpad line with the lines around it
+ */
+export interface ScratchpadMatch {
+  name: string; // Scratchpad section
+  line: number; // 1-based
+  text: string;
+  before: string[]; // Context lines before the match, closest last
+  after: string[]; // Context lines after the match
+}
+
+/**
+ * A todo field whose text matches
+ */
+export interface TodoMatch {
+  todoId: string;
+  field: "title" | "description" | "note";
+  text: string; // The matching line of the field
+}
+
+export interface SearchResults {
+  scratchpad: ScratchpadMatch[];
+  todos: TodoMatch[];
+  truncated: boolean; // Whether matches beyond maxResults were dropped
+}
+
+export interface SearchOptions {
+  scope: SearchScope;
+  contextLines: number;
+  maxResults: number;
+}
+
+/**
+ * Longest regular expression accepted as a search query
+ */
+export const MAX_REGEX_LENGTH = 200;
+
+/**
+ * Check whether a quantifier that repeats (*, + or {n,m}) starts at an index
+ */
+function isRepeatAt(source: string, index: number): boolean {
+  const char = source[index];
+  return (
+    char === "*" ||
+    char === "+" ||
+    /^\{\d+(,\d*)?\}/.test(source.slice(index))
+  );
+}
+
+/**
+ * Reject regular expressions that can backtrack catastrophically
+ *
+ * Searches run on the shared event loop, so a pattern like "(a+)+$" over a
+ * long line would stall every session. This rejects long patterns,
+ * backreferences and repeated groups that contain a quantifier or an
+ * alternation ("(a|a)*" backtracks as badly as "(a+)+").
+ * @throws SyntaxError if the pattern is not allowed
+ */
+function checkRegexSafety(source: string): void {
+  if (source.length > MAX_REGEX_LENGTH) {
+    throw new SyntaxError(`Pattern is longer than ${MAX_REGEX_LENGTH} characters`);
+  }
+
+  // Whether each open group contains a quantifier or an alternation
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === "\\") {
+      if (!inClass && /[1-9k]/.test(source[i + 1] ?? "")) {
+        throw new SyntaxError("Backreferences are not supported");
+      }
+      i++;
+    } else if (inClass) {
+      inClass = char !== "]";
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push(false);
+      // Skip group modifiers: (?: (?= (?! (?<= (?<! (?<name>
+      if (source[i + 1] === "?") {
+        i += 2;
+        if (source[i] === "<" && !/[=!]/.test(source[i + 1] ?? "")) {
+          i = Math.max(i, source.indexOf(">", i));
+        } else if (source[i] === "<") {
+          i++;
+        }
+      }
+    } else if (char === ")") {
+      const nested = groups.pop() ?? false;
+      const repeated = isRepeatAt(source, i + 1);
+      if (nested && repeated) {
+        throw new SyntaxError(
+          "Repeated groups with quantifiers or alternatives like (a+)+ or (a|b)* are not supported"
+        );
+      }
+      if ((nested || repeated) && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if (
+      groups.length > 0 &&
+      (char === "?" || char === "|" || isRepeatAt(source, i))
+    ) {
+      groups[groups.length - 1] = true;
+    }
+  }
+}
+
+/**
+ * Build the pattern for a search query
+ * @param regex - Treat the query as a regular expression instead of literal text
+ * @throws SyntaxError if a regular expression is invalid or could take
+ * exponential time
+ */
+export function buildSearchPattern(
+  query: string,
+  regex: boolean,
+  caseSensitive: boolean
+): RegExp {
+  if (regex) {
+    checkRegexSafety(query);
+  }
+  const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(source, caseSensitive ? "" : "i");
+}
+
+/**
+ * Search the scratchpad sections (default first) and the todos' titles,
+ * descriptions and notes (in plan order) of a session line by line
+ */
+export function searchSessionContent(
+  session: Session,
+  pattern: RegExp,
+  options: SearchOptions
+): SearchResults {
+  const results: SearchResults = { scratchpad: [], todos: [], truncated: false };
+  let remaining = options.maxResults;
+
+  // Returns false once the result limit is reached
+  const take = (): boolean => {
+    if (remaining === 0) {
+      results.truncated = true;
+      return false;
+    }
+    remaining--;
+    return true;
+  };
+
+  if (options.scope !== "todos") {
+    for (const { name } of listScratchpads(session)) {
+      const content = getScratchpadContent(session, name) ?? "";
+      const lines = content === "" ? [] : content.split("\n");
+
+      for (let i = 0; i < lines.length; i++) {
+        if (!pattern.test(lines[i])) {
+          continue;
+        }
+        if (!take()) {
+          return results;
+        }
+        results.scratchpad.push({
+          name,
+          line: i + 1,
+          text: lines[i],
+          before: lines.slice(Math.max(0, i - options.contextLines), i),
+          after: lines.slice(i + 1, i + 1 + options.contextLines),
+        });
+      }
+    }
+  }
+
+  if (options.scope !== "scratchpad") {
+    const todos = [...session.todos].sort((a, b) => a.position - b.position);
+
+    for (const todo of todos) {
+      const fields: Array<[TodoMatch["field"], string]> = [
+        ["title", todo.title],
+        ["description", todo.description],
+        ...(todo.notes ?? []).map(
+          (note): [TodoMatch["field"], string] => ["note", note.text]
+        ),
+      ];
+
+      for (const [field, value] of fields) {
+        for (const text of value.split("\n")) {
+          if (!pattern.test(text)) {
+            continue;
+          }
+          if (!take()) {
+            return results;
+          }
+          results.todos.push({ todoId: todo.id, field, text });
+        }
+      }
+    }
+  }
+
+  return results;
+}
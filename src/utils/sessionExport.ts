@@ -0,0 +1,152 @@
+import { Session, Todo } from "../storage/types.js";
+import {
+  SerializedSession,
+  toSerializedSession,
+} from "../storage/serialization.js";
+import { buildTodoTree, TodoNode } from "./todoTree.js";
+
+/**
+ * Formats a session can be exported to
+ * - md: the scratchpads plus a GitHub-style checklist of todos, for reading
+ * - json: a versioned bundle with all session data, for archiving
+ */
+export const EXPORT_FORMATS = ["md", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Identifies session bundles, and the bundle layout version
+ * Bump the version when the bundle layout changes incompatibly.
+ */
+export const SESSION_BUNDLE_FORMAT = "scratchpad-session";
+export const SESSION_BUNDLE_VERSION = 1;
+
+/**
+ * A session exported as JSON
+ * The session uses the same serialized form as the Redis store.
+ */
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: SerializedSession;
+}
+
+/**
+ * Build the JSON bundle of a session
+ */
+export function createSessionBundle(
+  session: Session,
+  now: Date = new Date()
+): SessionBundle {
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt: now.toISOString(),
+    session: toSerializedSession(session),
+  };
+}
+
+/**
+ * Format a todo's title with its status and tags
+ * Cancelled todos are checked and struck through.
+ */
+function formatTodoTitle(todo: Todo): string {
+  let title = todo.status === "cancelled" ? `~~${todo.title}~~` : todo.title;
+
+  if (todo.status === "in_progress") {
+    title += " _(in progress)_";
+  } else if (todo.status === "blocked") {
+    title += todo.blockedReason
+      ? ` _(blocked: ${todo.blockedReason})_`
+      : " _(blocked)_";
+  }
+
+  return title + todo.tags.map((tag) => ` \`${tag}\``).join("");
+}
+
+/**
+ * Render a todo and its subtasks as nested checklist items
+ * Description, outcome and error follow as indented lines of the item.
+ */
+function renderTodoNode(node: TodoNode, depth: number, lines: string[]): void {
+  const { todo } = node;
+  const indent = "  ".repeat(depth);
+  const checked = todo.status === "done" || todo.status === "cancelled";
+
+  lines.push(`${indent}- [${checked ? "x" : " "}] ${formatTodoTitle(todo)}`);
+
+  const details = [
+    todo.description,
+    todo.outcome && `Outcome: ${todo.outcome}`,
+    todo.error && `Error: ${todo.error}`,
+  ];
+  for (const detail of details) {
+    for (const line of (detail || "").split("\n").filter(Boolean)) {
+      lines.push(`${indent}  ${line}`);
+    }
+  }
+
+  for (const child of node.children) {
+    renderTodoNode(child, depth + 1, lines);
+  }
+}
+
+/**
+ * Render a session as Markdown: a header, every scratchpad section and the
+ * todos as a checklist in plan order
+ */
+export function renderSessionMarkdown(
+  session: Session,
+  now: Date = new Date()
+): string {
+  const lines: string[] = [
+    `# ${session.title ?? `Session ${session.id}`}`,
+    "",
+    `- Session: \`${session.id}\``,
+    `- Created: ${session.createdAt.toISOString()}`,
+  ];
+  if (session.parentSessionId) {
+    lines.push(`- Parent session: \`${session.parentSessionId}\``);
+  }
+  if (session.closedAt) {
+    lines.push(`- Closed: ${session.closedAt.toISOString()}`);
+  }
+  lines.push(`- Exported: ${now.toISOString()}`);
+
+  const sections: Array<[string, string]> = [
+    ["Scratchpad", session.scratchpad],
+    ...Object.keys(session.scratchpads)
+      .sort()
+      .map((name): [string, string] => [
+        `Scratchpad: ${name}`,
+        session.scratchpads[name],
+      ]),
+  ];
+  for (const [heading, content] of sections) {
+    lines.push("", `## ${heading}`, "", content.trim() || "_Empty_");
+  }
+
+  lines.push("", "## Todos", "");
+  const ordered = [...session.todos].sort((a, b) => a.position - b.position);
+  if (ordered.length === 0) {
+    lines.push("_No todos_");
+  }
+  for (const node of buildTodoTree(ordered)) {
+    renderTodoNode(node, 0, lines);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Export a session in the given format
+ */
+export function exportSessionAs(
+  session: Session,
+  format: ExportFormat,
+  now: Date = new Date()
+): string {
+  return format === "json"
+    ? JSON.stringify(createSessionBundle(session, now), null, 2)
+    : renderSessionMarkdown(session, now);
+}
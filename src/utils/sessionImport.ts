@@ -0,0 +1,417 @@
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import {
+  FactValidationError,
+  Session,
+  SessionImportError,
+  Todo,
+  TodoValidationError,
+} from "../storage/types.js";
+import {
+  SerializedSession,
+  fromSerializedSession,
+} from "../storage/serialization.js";
+import {
+  ExportFormat,
+  SESSION_BUNDLE_FORMAT,
+  SESSION_BUNDLE_VERSION,
+} from "./sessionExport.js";
+import {
+  SCRATCHPAD_NAME_PATTERN,
+  trimScratchpadHistory,
+} from "./scratchpads.js";
+import { FACT_KEY_PATTERN, validateFactValue } from "./facts.js";
+import { FENCE_PATTERN } from "./markdown.js";
+import { copyTodos } from "./sessions.js";
+import { checkBlockedReason } from "./todoStatus.js";
+
+/**
+ * Session content taken from an import, ready to store in a fresh session
+ */
+export type ImportedSession = Pick<
+  Session,
+  | "title"
+  | "scratchpad"
+  | "scratchpads"
+  | "scratchpadHistory"
+  | "facts"
+  | "todos"
+>;
+
+/**
+ * Longest import content accepted, in characters
+ */
+export const MAX_IMPORT_LENGTH = 10_000_000;
+
+/**
+ * ISO timestamp, as written by toSerializedSession
+ */
+const TimestampSchema = z.string().datetime({ offset: true });
+
+/**
+ * Schema of a serialized session, mirroring SerializedSession
+ * Todo statuses and priorities are checked leniently, like stored sessions.
+ */
+export const SerializedSessionSchema = z.object({
+  id: z.string(),
+  userId: z.string().optional(),
+  title: z.string().optional(),
+  parentSessionId: z.string().optional(),
+  parentTodoId: z.string().optional(),
+  scratchpad: z.string(),
+  scratchpads: z
+    .record(z.string().regex(SCRATCHPAD_NAME_PATTERN), z.string())
+    .optional(),
+  scratchpadHistory: z
+    .array(
+      z.object({
+        name: z.string().regex(SCRATCHPAD_NAME_PATTERN),
+        revision: z.number().int().positive(),
+        content: z.string(),
+        author: z.string().optional(),
+        createdAt: TimestampSchema,
+      })
+    )
+    .optional(),
+  facts: z
+    .record(
+      z.string().regex(FACT_KEY_PATTERN),
+      z.object({
+        value: z
+          .unknown()
+          .refine((value) => value !== undefined, { message: "Required" }),
+        schema: z.record(z.unknown()).optional(),
+        author: z.string().optional(),
+        createdAt: TimestampSchema,
+        updatedAt: TimestampSchema,
+      })
+    )
+    .optional(),
+  todos: z.array(
+    z.object({
+      id: z.string().min(1),
+      title: z.string().min(1),
+      description: z.string(),
+      tags: z.array(z.string()),
+      status: z.string(),
+      blockedReason: z.string().optional(),
+      parentId: z.string().optional(),
+      dependsOn: z.array(z.string()).optional(),
+      priority: z.string().optional(),
+      dueAt: TimestampSchema.optional(),
+      position: z.number().int().optional(),
+      outcome: z.string().optional(),
+      error: z.string().optional(),
+      completedAt: TimestampSchema.optional(),
+      notes: z
+        .array(
+          z.object({
+            author: z.string().optional(),
+            text: z.string(),
+            createdAt: TimestampSchema,
+          })
+        )
+        .optional(),
+      createdAt: TimestampSchema,
+    })
+  ),
+  closedAt: TimestampSchema.optional(),
+  ttlHours: z.number().positive().optional(),
+  pinned: z.boolean().optional(),
+  expiresAt: TimestampSchema.optional(),
+  createdAt: TimestampSchema,
+  lastModified: TimestampSchema,
+});
+
+/**
+ * Schema of a session bundle written by export_session
+ * Bundles from newer layout versions are rejected.
+ */
+export const SessionBundleSchema = z.object({
+  format: z.literal(SESSION_BUNDLE_FORMAT),
+  version: z
+    .number()
+    .int()
+    .positive()
+    .max(
+      SESSION_BUNDLE_VERSION,
+      `Bundle versions up to ${SESSION_BUNDLE_VERSION} are supported`
+    ),
+  exportedAt: TimestampSchema,
+  session: SerializedSessionSchema,
+});
+
+/**
+ * Describe the first validation issues of an import
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join(".") || "bundle"}: ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Take the content of a JSON session bundle
+ * Only the content is kept: ownership, parent links, closing and expiry
+ * belong to the original session. Todo IDs are kept so subtasks and
+ * dependencies stay linked; links to missing todos are dropped. Scratchpad
+ * history is trimmed to SCRATCHPAD_HISTORY_LIMIT revisions per section,
+ * keeping the newest. Check the content with validateImportedSession once
+ * it fits the limits.
+ * @throws SessionImportError if the bundle is not valid
+ */
+export function parseSessionBundle(content: string): ImportedSession {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new SessionImportError(
+      `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = SessionBundleSchema.safeParse(data);
+  if (!result.success) {
+    throw new SessionImportError(
+      `Invalid session bundle: ${formatIssues(result.error)}`
+    );
+  }
+
+  // zod types unknown values as optional, fact values are checked above
+  const session = fromSerializedSession(
+    result.data.session as SerializedSession
+  );
+  const ids = new Set(session.todos.map((todo) => todo.id));
+  if (ids.size !== session.todos.length) {
+    throw new SessionImportError("Invalid session bundle: duplicate todo IDs");
+  }
+
+  return {
+    title: session.title,
+    scratchpad: session.scratchpad,
+    scratchpads: session.scratchpads,
+    scratchpadHistory: trimScratchpadHistory(session.scratchpadHistory),
+    facts: session.facts,
+    todos: copyTodos(session.todos, false),
+  };
+}
+
+/**
+ * Find a todo on a cycle of links (parent or dependency IDs)
+ * Walks the links depth first without recursion, visiting every todo once.
+ */
+function findLinkCycle(
+  todos: Todo[],
+  byId: Map<string, Todo>,
+  links: (todo: Todo) => string[]
+): string | undefined {
+  // true while a todo is on the current path, false once it is done
+  const onPath = new Map<string, boolean>();
+
+  for (const start of todos) {
+    if (onPath.has(start.id)) {
+      continue;
+    }
+    onPath.set(start.id, true);
+    const stack = [{ id: start.id, next: links(start), index: 0 }];
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.index === frame.next.length) {
+        onPath.set(frame.id, false);
+        stack.pop();
+        continue;
+      }
+
+      const todo = byId.get(frame.next[frame.index++]);
+      if (!todo) {
+        continue;
+      }
+      if (onPath.get(todo.id)) {
+        return todo.id;
+      }
+      if (!onPath.has(todo.id)) {
+        onPath.set(todo.id, true);
+        stack.push({ id: todo.id, next: links(todo), index: 0 });
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check imported content with the same rules as normal edits: blocked todos
+ * need a reason, facts must match their schemas, and subtasks and
+ * dependencies may not form cycles
+ * Should only see content within the limits.
+ * @throws SessionImportError if the content is not valid
+ */
+export function validateImportedSession(content: ImportedSession): void {
+  for (const todo of content.todos) {
+    try {
+      checkBlockedReason(todo.status, todo.blockedReason);
+    } catch (error) {
+      if (error instanceof TodoValidationError) {
+        throw new SessionImportError(
+          `Invalid session bundle: todo ${todo.id}: ${error.message}`
+        );
+      }
+      throw error;
+    }
+  }
+
+  for (const [key, fact] of Object.entries(content.facts)) {
+    try {
+      if (fact.schema) {
+        validateFactValue(key, fact.value, fact.schema);
+      }
+    } catch (error) {
+      if (error instanceof FactValidationError) {
+        throw new SessionImportError(`Invalid session bundle: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  const byId = new Map(content.todos.map((todo) => [todo.id, todo]));
+
+  const ancestor = findLinkCycle(content.todos, byId, (todo) =>
+    todo.parentId !== undefined ? [todo.parentId] : []
+  );
+  if (ancestor !== undefined) {
+    throw new SessionImportError(
+      `Invalid session bundle: todo ${ancestor} is its own ancestor`
+    );
+  }
+
+  const prerequisite = findLinkCycle(
+    content.todos,
+    byId,
+    (todo) => todo.dependsOn ?? []
+  );
+  if (prerequisite !== undefined) {
+    throw new SessionImportError(
+      `Invalid session bundle: dependencies of ${prerequisite} form a cycle`
+    );
+  }
+}
+
+const CHECKLIST_PATTERN = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.+)$/;
+const STRIKETHROUGH_PATTERN = /^~~(.+)~~$/;
+
+/**
+ * Width of a line's indentation, counting tabs as 4 spaces
+ */
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, "    ").length;
+}
+
+/**
+ * Turn a Markdown document into session content
+ * - "- [ ]" items become pending todos, "- [x]" items done todos
+ *   ("- [x] ~~title~~" cancelled)
+ * - Nested items become subtasks of the item above them
+ * - Lines indented under an item become its description
+ * - Everything else, including checklists in code blocks, becomes the
+ *   scratchpad
+ * @throws SessionImportError if the document is empty
+ */
+export function parseSessionMarkdown(
+  content: string,
+  now: Date = new Date()
+): ImportedSession {
+  const todos: Todo[] = [];
+  const scratchpad: string[] = [];
+  const parents: Array<{ indent: number; id: string }> = [];
+  let current: { todo: Todo; indent: number } | undefined;
+  let fence: string | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fenceMatch) {
+      if (fence === undefined) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = undefined;
+      }
+    }
+
+    const item = fence === undefined ? CHECKLIST_PATTERN.exec(line) : null;
+
+    if (item) {
+      const indent = indentWidth(item[1]);
+      while (
+        parents.length > 0 &&
+        parents[parents.length - 1].indent >= indent
+      ) {
+        parents.pop();
+      }
+
+      const checked = item[2] !== " ";
+      const struck = STRIKETHROUGH_PATTERN.exec(item[3].trim());
+      const status = !checked ? "pending" : struck ? "cancelled" : "done";
+      const todo: Todo = {
+        id: nanoid(12),
+        title: (struck?.[1] ?? item[3]).trim(),
+        description: "",
+        tags: [],
+        status,
+        parentId: parents[parents.length - 1]?.id,
+        position: todos.length,
+        completedAt: checked ? now : undefined,
+        createdAt: now,
+      };
+
+      todos.push(todo);
+      parents.push({ indent, id: todo.id });
+      current = { todo, indent };
+      continue;
+    }
+
+    // Indented lines right below an item continue it
+    const indent = indentWidth(/^\s*/.exec(line)![0]);
+    if (current && line.trim() !== "" && indent > current.indent) {
+      const { todo } = current;
+      todo.description += (todo.description ? "\n" : "") + line.trim();
+      continue;
+    }
+
+    current = undefined;
+    scratchpad.push(line);
+  }
+
+  if (todos.length === 0 && scratchpad.join("").trim() === "") {
+    throw new SessionImportError("The Markdown document is empty");
+  }
+
+  return {
+    scratchpad: scratchpad
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim(),
+    scratchpads: {},
+    scratchpadHistory: [],
+    facts: {},
+    todos,
+  };
+}
+
+/**
+ * Parse an import in the given format
+ * Without a format, content starting with "{" is read as a JSON bundle and
+ * anything else as Markdown.
+ * @throws SessionImportError if the content is not valid
+ */
+export function parseSessionImport(
+  content: string,
+  format?: ExportFormat
+): ImportedSession {
+  const detected =
+    format ?? (content.trimStart().startsWith("{") ? "json" : "md");
+
+  return detected === "json"
+    ? parseSessionBundle(content)
+    : parseSessionMarkdown(content);
+}
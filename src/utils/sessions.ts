@@ -0,0 +1,64 @@
+import { Session, Todo } from "../storage/types.js";
+import { totalScratchpadLength } from "./scratchpads.js";
+
+/**
+ * Overview of a session (for list_sessions)
+ */
+export interface SessionSummary {
+  id: string;
+  title?: string;
+  parentTodoId?: string;
+  todoCount: number;
+  openTodoCount: number; // Not done or cancelled
+  scratchpadLength: number; // Characters across all scratchpad sections
+  createdAt: Date;
+  lastModified: Date;
+  closedAt?: Date;
+}
+
+/**
+ * Check whether a todo still has to be done (not done or cancelled)
+ */
+export function isOpenTodo(todo: Todo): boolean {
+  return todo.status !== "done" && todo.status !== "cancelled";
+}
+
+/**
+ * Summarize a session without its content
+ */
+export function summarizeSession(session: Session): SessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    parentTodoId: session.parentTodoId,
+    todoCount: session.todos.length,
+    openTodoCount: session.todos.filter(isOpenTodo).length,
+    scratchpadLength: totalScratchpadLength(session),
+    createdAt: session.createdAt,
+    lastModified: session.lastModified,
+    closedAt: session.closedAt,
+  };
+}
+
+/**
+ * Deep-copy todos for a forked session, keeping their IDs.
+ * With openOnly, done and cancelled todos are left out: their subtasks
+ * move to the top level and dependencies on them are dropped, as they
+ * are already satisfied.
+ */
+export function copyTodos(todos: Todo[], openOnly: boolean): Todo[] {
+  const copies = structuredClone(openOnly ? todos.filter(isOpenTodo) : todos);
+  const kept = new Set(copies.map((todo) => todo.id));
+
+  return copies.map((todo) => {
+    const dependsOn = todo.dependsOn?.filter((id) => kept.has(id));
+    return {
+      ...todo,
+      parentId:
+        todo.parentId !== undefined && kept.has(todo.parentId)
+          ? todo.parentId
+          : undefined,
+      dependsOn: dependsOn?.length ? dependsOn : undefined,
+    };
+  });
+}
@@ -0,0 +1,71 @@
+import { Todo } from "../storage/types.js";
+
+/**
+ * Check whether a todo counts as a satisfied prerequisite
+ * Cancelled todos no longer block the todos that depend on them
+ */
+export function isDependencySatisfied(todo: Todo): boolean {
+  return todo.status === "done" || todo.status === "cancelled";
+}
+
+/**
+ * Get the IDs in a dependency list that do not refer to an existing todo
+ */
+export function findMissingDependencies(
+  todos: Todo[],
+  dependsOn: string[]
+): string[] {
+  const ids = new Set(todos.map((todo) => todo.id));
+  return dependsOn.filter((id) => !ids.has(id));
+}
+
+/**
+ * Check whether letting a todo depend on the given todos would create a cycle,
+ * i.e. whether the todo is reachable from any of its new prerequisites
+ */
+export function createsDependencyCycle(
+  todos: Todo[],
+  todoId: string,
+  dependsOn: string[]
+): boolean {
+  const byId = new Map(todos.map((todo) => [todo.id, todo]));
+  const visited = new Set<string>();
+  const stack = [...dependsOn];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === todoId) {
+      return true;
+    }
+    if (visited.has(id)) {
+      continue;
+    }
+    visited.add(id);
+    stack.push(...(byId.get(id)?.dependsOn ?? []));
+  }
+
+  return false;
+}
+
+/**
+ * Get the prerequisites of a todo that are not yet satisfied
+ */
+export function getUnsatisfiedDependencies(todos: Todo[], todo: Todo): Todo[] {
+  const byId = new Map(todos.map((t) => [t.id, t]));
+  return (todo.dependsOn ?? [])
+    .map((id) => byId.get(id))
+    .filter(
+      (dep): dep is Todo => dep !== undefined && !isDependencySatisfied(dep)
+    );
+}
+
+/**
+ * Get the pending todos whose prerequisites are all satisfied, in list order
+ */
+export function getActionableTodos(todos: Todo[]): Todo[] {
+  return todos.filter(
+    (todo) =>
+      todo.status === "pending" &&
+      getUnsatisfiedDependencies(todos, todo).length === 0
+  );
+}
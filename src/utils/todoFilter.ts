@@ -0,0 +1,96 @@
+import { Todo, TodoStatus } from "../storage/types.js";
+
+/**
+ * Criteria for filtering todos. All given criteria must match.
+ */
+export interface TodoFilter {
+  /**
+   * "all", "open" (not done or cancelled), or a single status
+   */
+  status?: "all" | "open" | TodoStatus;
+
+  /**
+   * Match todos with at least one of these tags
+   */
+  tagsAny?: string[];
+
+  /**
+   * Match todos with all of these tags
+   */
+  tagsAll?: string[];
+
+  /**
+   * Skip todos with any of these tags
+   */
+  excludeTags?: string[];
+
+  /**
+   * Case-insensitive text matched against title and description
+   */
+  query?: string;
+
+  /**
+   * Match todos created at or after this time
+   */
+  createdAfter?: Date;
+
+  /**
+   * Match todos created at or before this time
+   */
+  createdBefore?: Date;
+}
+
+/**
+ * Check whether a todo matches a status filter
+ */
+function matchesStatus(todo: Todo, status: TodoFilter["status"]): boolean {
+  if (status === undefined || status === "all") {
+    return true;
+  }
+  if (status === "open") {
+    return todo.status !== "done" && todo.status !== "cancelled";
+  }
+  return todo.status === status;
+}
+
+/**
+ * Filter todos, keeping their order
+ */
+export function filterTodos(todos: Todo[], filter: TodoFilter): Todo[] {
+  const query = filter.query?.trim().toLowerCase();
+
+  return todos.filter((todo) => {
+    if (!matchesStatus(todo, filter.status)) {
+      return false;
+    }
+    if (
+      filter.tagsAny?.length &&
+      !filter.tagsAny.some((tag) => todo.tags.includes(tag))
+    ) {
+      return false;
+    }
+    if (
+      filter.tagsAll?.length &&
+      !filter.tagsAll.every((tag) => todo.tags.includes(tag))
+    ) {
+      return false;
+    }
+    if (filter.excludeTags?.some((tag) => todo.tags.includes(tag))) {
+      return false;
+    }
+    if (
+      query &&
+      !todo.title.toLowerCase().includes(query) &&
+      !todo.description.toLowerCase().includes(query)
+    ) {
+      return false;
+    }
+    if (filter.createdAfter && todo.createdAt < filter.createdAfter) {
+      return false;
+    }
+    if (filter.createdBefore && todo.createdAt > filter.createdBefore) {
+      return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,51 @@
+import { Todo } from "../storage/types.js";
+import { sortTodos } from "./todoSort.js";
+
+/**
+ * Get the position for a todo appended to the end of the list
+ */
+export function getNextPosition(todos: Todo[]): number {
+  return todos.reduce((next, todo) => Math.max(next, todo.position + 1), 0);
+}
+
+/**
+ * Assign positions 0..n-1 following the order of the given list
+ */
+export function renumberTodos(todos: Todo[]): Todo[] {
+  return todos.map((todo, index) =>
+    todo.position === index ? todo : { ...todo, position: index }
+  );
+}
+
+/**
+ * Move a todo directly before or after another todo
+ * Both IDs must exist. Returns the list in its new order, renumbered.
+ */
+export function moveTodo(
+  todos: Todo[],
+  todoId: string,
+  targetId: string,
+  placement: "before" | "after"
+): Todo[] {
+  const moved = todos.find((todo) => todo.id === todoId)!;
+  const ordered = sortTodos(todos, "position").filter(
+    (todo) => todo.id !== todoId
+  );
+  const targetIndex = ordered.findIndex((todo) => todo.id === targetId);
+
+  ordered.splice(
+    placement === "before" ? targetIndex : targetIndex + 1,
+    0,
+    moved
+  );
+  return renumberTodos(ordered);
+}
+
+/**
+ * Put todos in the given order of IDs
+ * The IDs must list every todo exactly once. Returns the list renumbered.
+ */
+export function orderTodos(todos: Todo[], orderedIds: string[]): Todo[] {
+  const byId = new Map(todos.map((todo) => [todo.id, todo]));
+  return renumberTodos(orderedIds.map((id) => byId.get(id)!));
+}
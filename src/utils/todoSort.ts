@@ -0,0 +1,83 @@
+import { Todo, TODO_PRIORITIES, TODO_STATUSES } from "../storage/types.js";
+
+/**
+ * Fields todos can be sorted by
+ */
+export const TODO_SORT_FIELDS = [
+  "position",
+  "created",
+  "priority",
+  "due",
+  "status",
+  "title",
+] as const;
+
+export type TodoSortField = (typeof TODO_SORT_FIELDS)[number];
+
+export type SortOrder = "asc" | "desc";
+
+/**
+ * Compare two optional numbers, always placing missing values last
+ */
+function compareOptional(
+  a: number | undefined,
+  b: number | undefined,
+  direction: number
+): number {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+  return (a - b) * direction;
+}
+
+/**
+ * Get the rank of a todo's priority (p0 = 0), or undefined if unset
+ */
+function priorityRank(todo: Todo): number | undefined {
+  return todo.priority !== undefined
+    ? TODO_PRIORITIES.indexOf(todo.priority)
+    : undefined;
+}
+
+/**
+ * Sort todos by a field. Ties keep list position (then creation order), and
+ * todos without a priority or due date always come last regardless of order.
+ */
+export function sortTodos(
+  todos: Todo[],
+  sortBy: TodoSortField,
+  order: SortOrder = "asc"
+): Todo[] {
+  const direction = order === "asc" ? 1 : -1;
+
+  const compare = (a: Todo, b: Todo): number => {
+    switch (sortBy) {
+      case "position":
+        return (a.position - b.position) * direction;
+      case "priority":
+        return compareOptional(priorityRank(a), priorityRank(b), direction);
+      case "due":
+        return compareOptional(
+          a.dueAt?.getTime(),
+          b.dueAt?.getTime(),
+          direction
+        );
+      case "status":
+        return (
+          (TODO_STATUSES.indexOf(a.status) - TODO_STATUSES.indexOf(b.status)) *
+          direction
+        );
+      case "title":
+        return a.title.localeCompare(b.title) * direction;
+      case "created":
+        return (a.createdAt.getTime() - b.createdAt.getTime()) * direction;
+    }
+  };
+
+  return [...todos].sort(
+    (a, b) =>
+      compare(a, b) ||
+      a.position - b.position ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
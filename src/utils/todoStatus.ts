@@ -0,0 +1,16 @@
+import { TodoStatus, TodoValidationError } from "../storage/types.js";
+
+/**
+ * Check that a blocked todo says what blocks it
+ * @throws TodoValidationError if the reason is missing
+ */
+export function checkBlockedReason(
+  status: TodoStatus,
+  blockedReason: string | undefined
+): void {
+  if (status === "blocked" && !blockedReason) {
+    throw new TodoValidationError(
+      "blocked_reason is required when setting status to 'blocked'"
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { Todo } from "../storage/types.js";
+
+/**
+ * A todo with its subtasks, used for tree-shaped listings
+ */
+export interface TodoNode {
+  todo: Todo;
+  progress?: number; // Rollup completion percentage, only set for parents
+  children: TodoNode[];
+}
+
+/**
+ * Group todos by their parent ID
+ * Todos whose parent is not in the list are grouped under undefined (roots)
+ */
+function groupByParent(todos: Todo[]): Map<string | undefined, Todo[]> {
+  const ids = new Set(todos.map((todo) => todo.id));
+  const groups = new Map<string | undefined, Todo[]>();
+
+  for (const todo of todos) {
+    const parentId =
+      todo.parentId !== undefined && ids.has(todo.parentId)
+        ? todo.parentId
+        : undefined;
+    const group = groups.get(parentId) ?? [];
+    group.push(todo);
+    groups.set(parentId, group);
+  }
+
+  return groups;
+}
+
+/**
+ * Get the IDs of all descendants (children, grandchildren, ...) of a todo
+ */
+export function getDescendantIds(todos: Todo[], todoId: string): Set<string> {
+  const groups = groupByParent(todos);
+  const descendants = new Set<string>();
+  const queue = [todoId];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const child of groups.get(id) ?? []) {
+      if (!descendants.has(child.id)) {
+        descendants.add(child.id);
+        queue.push(child.id);
+      }
+    }
+  }
+
+  return descendants;
+}
+
+/**
+ * Compute rollup completion percentages (0-100) for every todo with subtasks
+ *
+ * A leaf counts as complete when done. A parent's completion is the average
+ * of its children's completion; cancelled children are left out. If every
+ * child is cancelled, the parent's own status decides.
+ */
+export function computeProgress(todos: Todo[]): Map<string, number> {
+  const groups = groupByParent(todos);
+  const ratios = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const visit = (todo: Todo): number => {
+    const cached = ratios.get(todo.id);
+    if (cached !== undefined) {
+      return cached;
+    }
+    // Parent cycles can't be created, but don't hang on corrupt data
+    if (visiting.has(todo.id)) {
+      return 0;
+    }
+    visiting.add(todo.id);
+
+    const children = (groups.get(todo.id) ?? []).filter(
+      (child) => child.status !== "cancelled"
+    );
+    const ratio =
+      children.length === 0
+        ? todo.status === "done"
+          ? 1
+          : 0
+        : children.reduce((sum, child) => sum + visit(child), 0) /
+          children.length;
+
+    ratios.set(todo.id, ratio);
+    return ratio;
+  };
+
+  const progress = new Map<string, number>();
+  for (const todo of todos) {
+    const ratio = visit(todo);
+    if (groups.has(todo.id)) {
+      progress.set(todo.id, Math.round(ratio * 100));
+    }
+  }
+
+  return progress;
+}
+
+/**
+ * Build a tree of todos, keeping the list order among siblings
+ * Todos whose parent is not in the list become roots
+ */
+export function buildTodoTree(
+  todos: Todo[],
+  progress: Map<string, number> = computeProgress(todos)
+): TodoNode[] {
+  const groups = groupByParent(todos);
+  const seen = new Set<string>();
+
+  const toNode = (todo: Todo): TodoNode => {
+    seen.add(todo.id);
+    return {
+      todo,
+      progress: progress.get(todo.id),
+      children: (groups.get(todo.id) ?? [])
+        .filter((child) => !seen.has(child.id))
+        .map(toNode),
+    };
+  };
+
+  return (groups.get(undefined) ?? []).map(toNode);
+}
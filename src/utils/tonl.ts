@@ -1,4 +1,20 @@
-import { Todo, Session } from "../storage/types.js";
+import {
+  Todo,
+  TodoNote,
+  Fact,
+  Session,
+  ScratchpadRevision,
+} from "../storage/types.js";
+import { TodoNode } from "./todoTree.js";
+import {
+  BatchOperationResult,
+  ScratchpadDiff,
+  ScratchpadWindow,
+} from "./encoder.js";
+import { OutlineNode } from "./markdown.js";
+import { SearchResults } from "./search.js";
+import { SessionSummary } from "./sessions.js";
+import { ScratchpadInfo } from "./scratchpads.js";
 
 /**
  * TONL (Token-Optimized Notation Language) encoder
@@ -38,11 +54,20 @@ function formatTags(tags: string[]): string {
   return `[${tags.join(",")}]`;
 }
 
+/**
+ * A todo rendered as a table row, with derived values
+ */
+interface TodoRow {
+  todo: Todo;
+  progress?: number;
+  depth: number; // Nesting level, used to indent titles in tree listings
+}
+
 /**
  * Calculate column widths for aligned TONL output
  */
 function calculateColumnWidths(
-  todos: Todo[],
+  rows: TodoRow[],
   columns: string[]
 ): Map<string, number> {
   const widths = new Map<string, number>();
@@ -53,8 +78,8 @@ function calculateColumnWidths(
   }
 
   // Calculate max width for each column
-  for (const todo of todos) {
-    const values = getTodoValues(todo);
+  for (const row of rows) {
+    const values = getTodoValues(row);
     for (const col of columns) {
       const value = values.get(col) ?? "";
       const currentWidth = widths.get(col) ?? 0;
@@ -68,39 +93,90 @@ function calculateColumnWidths(
 /**
  * Get todo field values as a map
  */
-function getTodoValues(todo: Todo): Map<string, string> {
+function getTodoValues(row: TodoRow): Map<string, string> {
+  const { todo } = row;
   return new Map([
     ["id", todo.id],
-    ["title", escapeValue(todo.title)],
+    ["title", "  ".repeat(row.depth) + escapeValue(todo.title)],
     ["description", escapeValue(todo.description)],
     ["status", todo.status],
     ["tags", formatTags(todo.tags)],
     ["createdAt", formatDate(todo.createdAt)],
+    ["parentId", todo.parentId ?? ""],
+    ["dependsOn", todo.dependsOn?.length ? formatTags(todo.dependsOn) : ""],
+    ["priority", todo.priority ?? ""],
+    ["dueAt", todo.dueAt ? formatDate(todo.dueAt) : ""],
+    ["progress", row.progress !== undefined ? `${row.progress}%` : ""],
+    ["blockedReason", escapeValue(todo.blockedReason ?? "")],
+    ["completedAt", todo.completedAt ? formatDate(todo.completedAt) : ""],
+    ["outcome", escapeValue(todo.outcome ?? "")],
+    ["error", escapeValue(todo.error ?? "")],
+    ["notes", todo.notes?.length ? String(todo.notes.length) : ""],
   ]);
 }
 
 /**
- * Encode a list of todos in TONL format
- *
- * Example output:
- * [3]{id, title, status, tags, createdAt}
- * abc123   Task 1       done      [backend]     2025-01-18
- * def456   Task 2       pending   [frontend]    2025-01-18
+ * Columns always rendered in TONL todo tables
+ */
+const BASE_TODO_COLUMNS = ["id", "title", "status", "tags", "createdAt"];
+
+/**
+ * Columns only rendered when at least one todo has a value for them,
+ * so tables for simple plans stay as compact as possible
+ */
+const OPTIONAL_TODO_COLUMNS = [
+  "priority",
+  "dueAt",
+  "parentId",
+  "dependsOn",
+  "progress",
+  "blockedReason",
+  "notes",
+];
+
+/**
+ * Execution log columns, only rendered on request since outcomes can be long
  */
-export function encodeTodosToTonl(todos: Todo[]): string {
-  if (todos.length === 0) {
-    return "[0]{id, title, status, tags, createdAt}";
+const OUTCOME_TODO_COLUMNS = ["completedAt", "outcome", "error"];
+
+/**
+ * Options for TONL todo tables
+ */
+export interface TodoTableOptions {
+  includeOutcome?: boolean; // Add completedAt, outcome and error columns
+}
+
+/**
+ * Get the optional columns for a todo table
+ */
+function getOptionalColumns(options?: TodoTableOptions): string[] {
+  return options?.includeOutcome
+    ? [...OPTIONAL_TODO_COLUMNS, ...OUTCOME_TODO_COLUMNS]
+    : OPTIONAL_TODO_COLUMNS;
+}
+
+/**
+ * Encode todo rows as an aligned TONL table
+ */
+function encodeTodoRows(rows: TodoRow[], optionalColumns: string[]): string {
+  if (rows.length === 0) {
+    return `[0]{${BASE_TODO_COLUMNS.join(", ")}}`;
   }
 
-  const columns = ["id", "title", "status", "tags", "createdAt"];
-  const widths = calculateColumnWidths(todos, columns);
+  const columns = [
+    ...BASE_TODO_COLUMNS,
+    ...optionalColumns.filter((col) =>
+      rows.some((row) => getTodoValues(row).get(col))
+    ),
+  ];
+  const widths = calculateColumnWidths(rows, columns);
 
   // Header line
-  const header = `[${todos.length}]{${columns.join(", ")}}`;
+  const header = `[${rows.length}]{${columns.join(", ")}}`;
 
   // Data rows
-  const rows = todos.map((todo) => {
-    const values = getTodoValues(todo);
+  const lines = rows.map((row) => {
+    const values = getTodoValues(row);
     return columns
       .map((col) => {
         const value = values.get(col) ?? "";
@@ -110,15 +186,83 @@ export function encodeTodosToTonl(todos: Todo[]): string {
       .join("   "); // Three spaces between columns
   });
 
-  return [header, ...rows].join("\n");
+  return [header, ...lines].join("\n");
+}
+
+/**
+ * Encode rows of already formatted values as an aligned TONL table
+ */
+function encodeTable(columns: string[], rows: string[][]): string {
+  const widths = columns.map((col, i) =>
+    Math.max(col.length, ...rows.map((row) => row[i].length))
+  );
+
+  return [
+    `[${rows.length}]{${columns.join(", ")}}`,
+    ...rows.map((row) =>
+      row.map((value, i) => value.padEnd(widths[i])).join("   ")
+    ),
+  ].join("\n");
+}
+
+/**
+ * Encode a list of todos in TONL format
+ * Rows keep the given order (list_todos passes todos in plan order)
+ *
+ * Example output:
+ * [3]{id, title, status, tags, createdAt}
+ * abc123   Task 1       done      [backend]     2025-01-18
+ * def456   Task 2       pending   [frontend]    2025-01-18
+ */
+export function encodeTodosToTonl(
+  todos: Todo[],
+  progress?: Map<string, number>,
+  options?: TodoTableOptions
+): string {
+  const rows = todos.map((todo) => ({
+    todo,
+    progress: progress?.get(todo.id),
+    depth: 0,
+  }));
+  return encodeTodoRows(rows, getOptionalColumns(options));
+}
+
+/**
+ * Encode a todo tree in TONL format, indenting subtask titles
+ *
+ * Example output:
+ * [3]{id, title, status, tags, createdAt, progress}
+ * abc123   Ship feature         pending   []   2025-01-18   50%
+ * def456     Write code         done      []   2025-01-18
+ * ghi789     Write tests        pending   []   2025-01-18
+ */
+export function encodeTodoTreeToTonl(
+  nodes: TodoNode[],
+  options?: TodoTableOptions
+): string {
+  const rows: TodoRow[] = [];
+
+  const visit = (node: TodoNode, depth: number) => {
+    rows.push({ todo: node.todo, progress: node.progress, depth });
+    for (const child of node.children) {
+      visit(child, depth + 1);
+    }
+  };
+  nodes.forEach((node) => visit(node, 0));
+
+  // Parent IDs are implied by the indentation
+  return encodeTodoRows(
+    rows,
+    getOptionalColumns(options).filter((col) => col !== "parentId")
+  );
 }
 
 /**
  * Encode a single todo in TONL format
  */
 export function encodeTodoToTonl(todo: Todo): string {
+  const fields = ["id", "title", "description", "status", "tags", "createdAt"];
   const lines = [
-    "{id, title, description, status, tags, createdAt}",
     `id: ${todo.id}`,
     `title: ${escapeValue(todo.title)}`,
     `description: ${escapeValue(todo.description)}`,
@@ -127,21 +271,188 @@ export function encodeTodoToTonl(todo: Todo): string {
     `createdAt: ${formatDate(todo.createdAt)}`,
   ];
 
-  return lines.join("\n");
+  if (todo.priority) {
+    fields.push("priority");
+    lines.push(`priority: ${todo.priority}`);
+  }
+
+  if (todo.dueAt) {
+    fields.push("dueAt");
+    lines.push(`dueAt: ${todo.dueAt.toISOString()}`);
+  }
+
+  if (todo.parentId) {
+    fields.push("parentId");
+    lines.push(`parentId: ${todo.parentId}`);
+  }
+
+  if (todo.dependsOn?.length) {
+    fields.push("dependsOn");
+    lines.push(`dependsOn: ${formatTags(todo.dependsOn)}`);
+  }
+
+  if (todo.blockedReason) {
+    fields.push("blockedReason");
+    lines.push(`blockedReason: ${escapeValue(todo.blockedReason)}`);
+  }
+
+  if (todo.notes?.length) {
+    fields.push("noteCount");
+    lines.push(`noteCount: ${todo.notes.length}`);
+  }
+
+  if (todo.completedAt) {
+    fields.push("completedAt");
+    lines.push(`completedAt: ${todo.completedAt.toISOString()}`);
+  }
+
+  if (todo.outcome) {
+    fields.push("outcome");
+    lines.push(`outcome: ${escapeValue(todo.outcome)}`);
+  }
+
+  if (todo.error) {
+    fields.push("error");
+    lines.push(`error: ${escapeValue(todo.error)}`);
+  }
+
+  return [`{${fields.join(", ")}}`, ...lines].join("\n");
 }
 
 /**
- * Encode session info in TONL format (used by init_session)
+ * Encode session info in TONL format (used by init_session, extend_session
+ * and fork_session)
  */
 export function encodeSessionToTonl(session: Session): string {
-  const lines = [
-    "{id, userId, scratchpadLength, todoCount, createdAt, lastModified}",
-    `id: ${session.id}`,
-    `userId: ${session.userId ?? "(none)"}`,
+  const fields = ["id", "userId"];
+  const lines = [`id: ${session.id}`, `userId: ${session.userId ?? "(none)"}`];
+
+  if (session.title !== undefined) {
+    fields.push("title");
+    lines.push(`title: ${escapeValue(session.title)}`);
+  }
+
+  if (session.parentSessionId !== undefined) {
+    fields.push("parentSessionId");
+    lines.push(`parentSessionId: ${session.parentSessionId}`);
+  }
+
+  if (session.parentTodoId !== undefined) {
+    fields.push("parentTodoId");
+    lines.push(`parentTodoId: ${session.parentTodoId}`);
+  }
+
+  fields.push(
+    "scratchpadLength",
+    "todoCount",
+    "createdAt",
+    "lastModified",
+    "expiresAt"
+  );
+  lines.push(
     `scratchpadLength: ${session.scratchpad.length}`,
     `todoCount: ${session.todos.length}`,
     `createdAt: ${formatDate(session.createdAt)}`,
     `lastModified: ${formatDate(session.lastModified)}`,
+    `expiresAt: ${session.expiresAt ? session.expiresAt.toISOString() : "never"}`
+  );
+
+  return [`{${fields.join(", ")}}`, ...lines].join("\n");
+}
+
+/**
+ * Encode the sessions of a user in TONL format
+ *
+ * Example output:
+ * {userId, sessionCount, sessions}
+ * userId: user-123
+ * sessionCount: 2
+ * sessions:
+ * [2]{id, title, todos, open, scratchpadLength, createdAt, lastModified, closed}
+ * abc123   Refactor auth   5       2      1200               2025-01-18   2025-01-19T10:00:00.000Z   no
+ * def456   -               0       0      0                  2025-01-17   2025-01-17T08:00:00.000Z   yes
+ */
+export function encodeSessionListToTonl(
+  userId: string,
+  sessions: SessionSummary[]
+): string {
+  const rows = sessions.map((session) => [
+    session.id,
+    session.title !== undefined ? escapeValue(session.title) : "-",
+    String(session.todoCount),
+    String(session.openTodoCount),
+    String(session.scratchpadLength),
+    formatDate(session.createdAt),
+    session.lastModified.toISOString(),
+    session.closedAt !== undefined ? "yes" : "no",
+  ]);
+
+  const lines = [
+    "{userId, sessionCount, sessions}",
+    `userId: ${userId}`,
+    `sessionCount: ${sessions.length}`,
+    "sessions:",
+    encodeTable(
+      [
+        "id",
+        "title",
+        "todos",
+        "open",
+        "scratchpadLength",
+        "createdAt",
+        "lastModified",
+        "closed",
+      ],
+      rows
+    ),
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Encode the child sessions of a session in TONL format
+ *
+ * Example output:
+ * {parentSessionId, childCount, children}
+ * parentSessionId: abc123
+ * childCount: 2
+ * children:
+ * [2]{id, title, parentTodo, todos, open, lastModified, closed}
+ * def456   Write tests   t1           3       0      2025-01-19T10:00:00.000Z   no
+ * ghi789   -             -            0       0      2025-01-19T09:00:00.000Z   no
+ */
+export function encodeChildSessionsToTonl(
+  parentSessionId: string,
+  sessions: SessionSummary[]
+): string {
+  const rows = sessions.map((session) => [
+    session.id,
+    session.title !== undefined ? escapeValue(session.title) : "-",
+    session.parentTodoId ?? "-",
+    String(session.todoCount),
+    String(session.openTodoCount),
+    session.lastModified.toISOString(),
+    session.closedAt !== undefined ? "yes" : "no",
+  ]);
+
+  const lines = [
+    "{parentSessionId, childCount, children}",
+    `parentSessionId: ${parentSessionId}`,
+    `childCount: ${sessions.length}`,
+    "children:",
+    encodeTable(
+      [
+        "id",
+        "title",
+        "parentTodo",
+        "todos",
+        "open",
+        "lastModified",
+        "closed",
+      ],
+      rows
+    ),
   ];
 
   return lines.join("\n");
@@ -153,15 +464,398 @@ export function encodeSessionToTonl(session: Session): string {
  */
 export function encodeScratchpadToTonl(
   sessionId: string,
-  content: string
+  content: string,
+  name?: string,
+  window?: ScratchpadWindow
 ): string {
+  const fields: Array<[string, string | number | boolean]> = [
+    ["sessionId", sessionId],
+  ];
+
+  if (name !== undefined) {
+    fields.push(["name", name]);
+  }
+
+  fields.push(["contentLength", content.length]);
+
+  if (window) {
+    fields.push(
+      ["startLine", window.startLine],
+      ["endLine", window.endLine],
+      ["totalLines", window.totalLines],
+      ["totalLength", window.totalLength],
+      ["truncated", window.truncated]
+    );
+  }
+
   const lines = [
-    "{sessionId, contentLength, content}",
-    `sessionId: ${sessionId}`,
-    `contentLength: ${content.length}`,
+    `{${[...fields.map(([key]) => key), "content"].join(", ")}}`,
+    ...fields.map(([key, value]) => `${key}: ${value}`),
     "content:",
     content,
   ];
 
   return lines.join("\n");
 }
+
+/**
+ * Encode the heading outline of a scratchpad in TONL format
+ * Titles are indented by heading level
+ *
+ * Example output:
+ * {sessionId, name, totalLines, headings}
+ * sessionId: abc123
+ * name: default
+ * totalLines: 40
+ * headings:
+ * [3]{line, endLine, level, title}
+ * 1      40        1       Plan
+ * 3      20        2         Findings
+ * 21     40        2         Decisions
+ */
+export function encodeScratchpadOutlineToTonl(
+  sessionId: string,
+  name: string,
+  totalLines: number,
+  outline: OutlineNode[]
+): string {
+  const rows: string[][] = [];
+
+  const visit = (node: OutlineNode) => {
+    const { heading } = node;
+    rows.push([
+      String(heading.line),
+      String(heading.endLine),
+      String(heading.level),
+      "  ".repeat(heading.level - 1) + escapeValue(heading.title),
+    ]);
+    node.children.forEach(visit);
+  };
+  outline.forEach(visit);
+
+  const lines = [
+    "{sessionId, name, totalLines, headings}",
+    `sessionId: ${sessionId}`,
+    `name: ${name}`,
+    `totalLines: ${totalLines}`,
+    "headings:",
+    encodeTable(["line", "endLine", "level", "title"], rows),
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Encode the scratchpad sections of a session in TONL format
+ *
+ * Example output:
+ * {sessionId, scratchpads}
+ * sessionId: abc123
+ * scratchpads:
+ * [2]{name, length}
+ * default    120
+ * findings   48
+ */
+export function encodeScratchpadListToTonl(
+  sessionId: string,
+  scratchpads: ScratchpadInfo[]
+): string {
+  const rows = scratchpads.map((info) => [info.name, String(info.length)]);
+
+  const lines = [
+    "{sessionId, scratchpads}",
+    `sessionId: ${sessionId}`,
+    "scratchpads:",
+    encodeTable(["name", "length"], rows),
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Encode the revisions of a scratchpad section in TONL format
+ *
+ * Example output:
+ * {sessionId, name, revisions}
+ * sessionId: abc123
+ * name: default
+ * revisions:
+ * [2]{revision, createdAt, author, length}
+ * 1          2025-01-18T10:00:00.000Z   user-1   120
+ * 2          2025-01-18T11:00:00.000Z   -        148
+ */
+export function encodeScratchpadHistoryToTonl(
+  sessionId: string,
+  name: string,
+  revisions: ScratchpadRevision[]
+): string {
+  const rows = revisions.map((revision) => [
+    String(revision.revision),
+    revision.createdAt.toISOString(),
+    revision.author ?? "-",
+    String(revision.content.length),
+  ]);
+
+  const lines = [
+    "{sessionId, name, revisions}",
+    `sessionId: ${sessionId}`,
+    `name: ${name}`,
+    "revisions:",
+    encodeTable(["revision", "createdAt", "author", "length"], rows),
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Encode a scratchpad revision in TONL format
+ * Like the scratchpad itself, the content follows the metadata unescaped
+ */
+export function encodeScratchpadRevisionToTonl(
+  sessionId: string,
+  revision: ScratchpadRevision
+): string {
+  const lines = [
+    "{sessionId, name, revision, author, createdAt, contentLength, content}",
+    `sessionId: ${sessionId}`,
+    `name: ${revision.name}`,
+    `revision: ${revision.revision}`,
+    `author: ${revision.author ?? "(none)"}`,
+    `createdAt: ${revision.createdAt.toISOString()}`,
+    `contentLength: ${revision.content.length}`,
+    "content:",
+    revision.content,
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Encode a scratchpad diff in TONL format
+ * The unified diff follows the metadata unescaped
+ */
+export function encodeScratchpadDiffToTonl(
+  sessionId: string,
+  name: string,
+  diff: ScratchpadDiff
+): string {
+  const lines = [
+    "{sessionId, name, from, to, changed, diff}",
+    `sessionId: ${sessionId}`,
+    `name: ${name}`,
+    `from: ${diff.from}`,
+    `to: ${diff.to}`,
+    `changed: ${diff.diff !== ""}`,
+    "diff:",
+    diff.diff,
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Encode batch_todos results in TONL format
+ *
+ * Example output:
+ * {success, applied, results}
+ * success: true
+ * applied: 2
+ * results:
+ * [2]{op, ref, id, title, status}
+ * add      a    abc123   Task 1   pending
+ * update   -    def456   Task 2   done
+ */
+export function encodeBatchResultsToTonl(
+  results: BatchOperationResult[]
+): string {
+  const rows = results.map((result) => [
+    result.op,
+    result.ref ?? "-",
+    result.todo.id,
+    escapeValue(result.todo.title),
+    result.todo.status,
+  ]);
+
+  const lines = [
+    "{success, applied, results}",
+    "success: true",
+    `applied: ${results.length}`,
+    "results:",
+    encodeTable(["op", "ref", "id", "title", "status"], rows),
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Encode the notes of a todo in TONL format
+ *
+ * Example output:
+ * {todoId, noteCount, notes}
+ * todoId: abc123
+ * noteCount: 2
+ * notes:
+ * [2]{createdAt, author, text}
+ * 2025-01-18T10:00:00.000Z   user-1   Started on the API client
+ * 2025-01-18T11:00:00.000Z   -        Needs a retry on 429
+ */
+export function encodeTodoNotesToTonl(
+  todoId: string,
+  notes: TodoNote[]
+): string {
+  const rows = notes.map((note) => [
+    note.createdAt.toISOString(),
+    note.author ?? "-",
+    escapeValue(note.text),
+  ]);
+
+  const lines = [
+    "{todoId, noteCount, notes}",
+    `todoId: ${todoId}`,
+    `noteCount: ${notes.length}`,
+    "notes:",
+    encodeTable(["createdAt", "author", "text"], rows),
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Encode search_session matches in TONL format
+ * Scratchpad lines are listed grep-style: "12:" marks a matching line and
+ * "11-" a context line; overlapping context is shown once.
+ *
+ * Example output:
+ * {sessionId, query, matchCount, truncated, scratchpad, todos}
+ * sessionId: abc123
+ * query: redis
+ * matchCount: 2
+ * truncated: false
+ * scratchpad:
+ * [3]{name, line, text}
+ * default    4-     ## Storage
+ * default    5:     Use redis for sessions
+ * default    6-     TTL 24h
+ * todos:
+ * [1]{todoId, field, text}
+ * def456     title   Set up redis
+ */
+export function encodeSearchResultsToTonl(
+  sessionId: string,
+  query: string,
+  results: SearchResults
+): string {
+  // Matching and context lines per section, keyed by line number
+  const sections = new Map<string, Map<number, [string, string]>>();
+
+  for (const match of results.scratchpad) {
+    let section = sections.get(match.name);
+    if (!section) {
+      section = new Map();
+      sections.set(match.name, section);
+    }
+    const add = (line: number, marker: string, text: string) => {
+      if (section!.get(line)?.[0] !== ":") {
+        section!.set(line, [marker, text]);
+      }
+    };
+    match.before.forEach((text, i) =>
+      add(match.line - match.before.length + i, "-", text)
+    );
+    add(match.line, ":", match.text);
+    match.after.forEach((text, i) => add(match.line + 1 + i, "-", text));
+  }
+
+  const scratchpadRows: string[][] = [];
+  sections.forEach((section, name) => {
+    [...section.entries()]
+      .sort(([a], [b]) => a - b)
+      .forEach(([line, [marker, text]]) =>
+        scratchpadRows.push([name, `${line}${marker}`, escapeValue(text)])
+      );
+  });
+
+  const todoRows = results.todos.map((match) => [
+    match.todoId,
+    match.field,
+    escapeValue(match.text),
+  ]);
+
+  const lines = [
+    "{sessionId, query, matchCount, truncated, scratchpad, todos}",
+    `sessionId: ${sessionId}`,
+    `query: ${escapeValue(query)}`,
+    `matchCount: ${results.scratchpad.length + results.todos.length}`,
+    `truncated: ${results.truncated}`,
+    "scratchpad:",
+    encodeTable(["name", "line", "text"], scratchpadRows),
+    "todos:",
+    encodeTable(["todoId", "field", "text"], todoRows),
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Encode a single fact in TONL format
+ * The value (and schema) are written as compact JSON.
+ *
+ * Example output:
+ * {sessionId, key, value, schema, author, updatedAt}
+ * sessionId: abc123
+ * key: repo.path
+ * value: "/src/app"
+ * schema: {"type":"string"}
+ * author: (none)
+ * updatedAt: 2025-01-18T10:00:00.000Z
+ */
+export function encodeFactToTonl(
+  sessionId: string,
+  key: string,
+  fact: Fact
+): string {
+  const lines = [
+    "{sessionId, key, value, schema, author, updatedAt}",
+    `sessionId: ${sessionId}`,
+    `key: ${key}`,
+    `value: ${escapeValue(JSON.stringify(fact.value))}`,
+    `schema: ${fact.schema ? escapeValue(JSON.stringify(fact.schema)) : "-"}`,
+    `author: ${fact.author ?? "(none)"}`,
+    `updatedAt: ${fact.updatedAt.toISOString()}`,
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Encode a list of facts in TONL format
+ *
+ * Example output:
+ * {sessionId, factCount, facts}
+ * sessionId: abc123
+ * factCount: 2
+ * facts:
+ * [2]{key, value, updatedAt}
+ * build:target   "es2022"         2025-01-18
+ * repo.path      "/src/app"       2025-01-18
+ */
+export function encodeFactListToTonl(
+  sessionId: string,
+  facts: Array<[string, Fact]>
+): string {
+  const rows = facts.map(([key, fact]) => [
+    key,
+    escapeValue(JSON.stringify(fact.value)),
+    formatDate(fact.updatedAt),
+  ]);
+
+  const lines = [
+    "{sessionId, factCount, facts}",
+    `sessionId: ${sessionId}`,
+    `factCount: ${facts.length}`,
+    "facts:",
+    encodeTable(["key", "value", "updatedAt"], rows),
+  ];
+
+  return lines.join("\n");
+}